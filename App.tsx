@@ -1,11 +1,30 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { INITIAL_HOLDINGS, INITIAL_CASH } from './constants';
-import { enrichHolding } from './utils/calculations';
+import { DEFAULT_FEE_PROFILES, DEFAULT_ACCOUNT_ID, ALL_ACCOUNTS, DEFAULT_PORTFOLIO_ID, HOUSEHOLD_VIEW } from './constants';
+import { enrichHolding, seedOpeningTransactions, syncHoldingsWithLedger, createOpeningTransaction, calculateSummary } from './utils/calculations';
+import { createDefaultPortfolio, loadPortfolioData, portfolioStorageKey, removePortfolioData, summarizePortfolio, estimateOpeningDate, PortfolioData, PORTFOLIO_STORAGE_KEYS } from './utils/portfolios';
 import { fetchLivePrices } from './utils/api';
-import { PortfolioSummary, AssetType, Holding, DividendRecord, ThemeColors } from './types';
+import { createDefaultAccount, accountOf, matchesAccount, mergeAccountRecords, resolveHoldingFeeProfile, assignDividends, sumDividends } from './utils/accounts';
+import { formatAllocationLabel, evaluateDrift, reconcileBreachLog } from './utils/rebalance';
+import { createSnapshot, recordSnapshot } from './utils/snapshots';
+import { calculatePerformance } from './utils/performance';
+import { buildPriceHistory, dividendsPerShare } from './utils/benchmark';
+import { loadPriceHistory } from './utils/priceHistory';
+import { toQuoteRequests } from './utils/securities';
+import { AutoRefreshStatus, DEFAULT_AUTO_REFRESH, activeSession, nextAutoRefreshDelay } from './utils/marketHours';
+import { PriceRefreshReport as RefreshReport, buildRefreshReport } from './utils/quotes';
+import { PortfolioSummary, AssetType, Holding, Account, CashFlow, DividendRecord, ThemeColors, Transaction, TradeType, AllocationTarget, DriftBreachEvent, FeeProfile, RebateMode, InstrumentCategory, Portfolio, PortfolioSnapshot, Benchmark, PriceHistory, QuoteProviderPreference, AutoRefreshPreference, Market, Quote } from './types';
 import { Dashboard } from './components/Dashboard';
 import { DividendTracker } from './components/DividendTracker';
-import { LayoutDashboard, Coins, WalletCards, Download, Upload, Sun, Moon, Eye, Palette, X, RotateCcw, Check, BarChart3, GripHorizontal, Droplet, Type, Monitor, Settings, ChevronRight, FileJson, FileSpreadsheet } from 'lucide-react';
+import { FeeProfileSettings } from './components/FeeProfileSettings';
+import { AccountSettings } from './components/AccountSettings';
+import { PortfolioSettings } from './components/PortfolioSettings';
+import { HouseholdOverview } from './components/HouseholdOverview';
+import { PriceHistorySettings } from './components/PriceHistorySettings';
+import { QuoteProviderSettings } from './components/QuoteProviderSettings';
+import { SecurityMasterSettings } from './components/SecurityMasterSettings';
+import { AutoRefreshSettings } from './components/AutoRefreshSettings';
+import { PriceRefreshReport } from './components/PriceRefreshReport';
+import { LayoutDashboard, Coins, WalletCards, Download, Upload, Sun, Moon, Eye, Palette, X, RotateCcw, Check, BarChart3, GripHorizontal, Droplet, Type, Monitor, Settings, ChevronRight, FileJson, FileSpreadsheet, Receipt, Landmark, Briefcase, Database } from 'lucide-react';
 
 export type Theme = 'light' | 'dark' | 'contrast' | 'classic' | 'vibrant' | 'monochrome';
 
@@ -68,7 +87,7 @@ export default function App() {
     return (localStorage.getItem('app_theme') as Theme) || 'light';
   });
   const [showSettingsModal, setShowSettingsModal] = useState(false);
-  const [activeSettingsTab, setActiveSettingsTab] = useState<'appearance' | 'data'>('appearance');
+  const [activeSettingsTab, setActiveSettingsTab] = useState<'appearance' | 'portfolios' | 'accounts' | 'fees' | 'prices' | 'data'>('appearance');
   const [isUpdatingPrices, setIsUpdatingPrices] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -115,61 +134,140 @@ export default function App() {
     setCustomColors(defaultForTheme);
   };
   
-  // Initialize Holdings from LocalStorage or use default
-  const [holdings, setHoldings] = useState<Holding[]>(() => {
+  // Initialize Portfolio list from LocalStorage
+  const [portfolios, setPortfolios] = useState<Portfolio[]>(() => {
     try {
-      const saved = localStorage.getItem('portfolio_holdings');
-      return saved ? JSON.parse(saved) : INITIAL_HOLDINGS;
+      const saved = localStorage.getItem('portfolios');
+      return saved ? JSON.parse(saved) : [createDefaultPortfolio()];
     } catch (e) {
-      console.error('Failed to load holdings:', e);
-      return INITIAL_HOLDINGS;
+      console.error('Failed to load portfolios:', e);
+      return [createDefaultPortfolio()];
     }
   });
+  const [activePortfolioId, setActivePortfolioId] = useState<string>(() => {
+    const saved = localStorage.getItem('active_portfolio');
+    return saved && portfolios.some(p => p.id === saved) ? saved : DEFAULT_PORTFOLIO_ID;
+  });
+  const [showHousehold, setShowHousehold] = useState(false);
 
-  // Initialize Cash from LocalStorage or use default
-  const [cash, setCash] = useState<number>(() => {
+  // Initialize Broker Fee Profiles from LocalStorage (shared by all portfolios)
+  const [feeProfiles, setFeeProfiles] = useState<FeeProfile[]>(() => {
     try {
-      const saved = localStorage.getItem('portfolio_cash');
-      return saved ? parseFloat(saved) : INITIAL_CASH;
+      const saved = localStorage.getItem('fee_profiles');
+      return saved ? JSON.parse(saved) : DEFAULT_FEE_PROFILES;
     } catch (e) {
-      console.error('Failed to load cash:', e);
-      return INITIAL_CASH;
+      console.error('Failed to load fee profiles:', e);
+      return DEFAULT_FEE_PROFILES;
     }
   });
 
-  // Initialize Dividend Records from LocalStorage
-  const [dividendRecords, setDividendRecords] = useState<DividendRecord[]>(() => {
+  // Quote source order and on/off state (shared by all portfolios)
+  const [quoteProviders, setQuoteProviders] = useState<QuoteProviderPreference[]>(() => {
     try {
-      const saved = localStorage.getItem('dividend_records');
-      if (saved) return JSON.parse(saved);
-      return [
-        { id: '1', date: '2023-10-20', ticker: '0056', amount: 24000, note: 'Q3配息' },
-        { id: '2', date: '2023-11-15', ticker: '00878', amount: 12000, note: '' },
-      ];
+      const saved = localStorage.getItem('quote_providers');
+      return saved ? JSON.parse(saved) : [];
     } catch (e) {
-      console.error('Failed to load dividend records:', e);
+      console.error('Failed to load quote providers:', e);
       return [];
     }
   });
 
+  // Opt-in polling during trading sessions (shared by all portfolios)
+  const [autoRefresh, setAutoRefresh] = useState<AutoRefreshPreference>(() => {
+    try {
+      const saved = localStorage.getItem('auto_refresh');
+      return saved ? { ...DEFAULT_AUTO_REFRESH, ...JSON.parse(saved) } : DEFAULT_AUTO_REFRESH;
+    } catch (e) {
+      console.error('Failed to load auto refresh settings:', e);
+      return DEFAULT_AUTO_REFRESH;
+    }
+  });
+  const [autoRefreshStatus, setAutoRefreshStatus] = useState<AutoRefreshStatus | null>(null);
+  // Outcome of the latest price refresh, shown as a toast until dismissed
+  const [refreshReport, setRefreshReport] = useState<RefreshReport | null>(null);
+
+  // Data of the portfolio opened at startup; switching portfolios reloads every piece below
+  const [initialData] = useState(() => loadPortfolioData(activePortfolioId, feeProfiles));
+  const [holdings, setHoldings] = useState<Holding[]>(initialData.holdings);
+  const [transactions, setTransactions] = useState<Transaction[]>(initialData.transactions);
+  const [accounts, setAccounts] = useState<Account[]>(initialData.accounts);
+  const [cashFlows, setCashFlows] = useState<CashFlow[]>(initialData.cashFlows);
+  const [activeAccountId, setActiveAccountId] = useState<string>(ALL_ACCOUNTS);
+  const [dividendRecords, setDividendRecords] = useState<DividendRecord[]>(initialData.dividendRecords);
+  const [allocationTarget, setAllocationTarget] = useState<AllocationTarget>(initialData.allocationTarget);
+  const [driftBreachLog, setDriftBreachLog] = useState<DriftBreachEvent[]>(initialData.driftBreachLog);
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>(initialData.snapshots);
+  const [benchmark, setBenchmark] = useState<Benchmark>(initialData.benchmark);
+
+  // Daily closes from the IndexedDB price store; bumping the version reloads them
+  const [storedPrices, setStoredPrices] = useState<PriceHistory>({});
+  const [priceStoreVersion, setPriceStoreVersion] = useState(0);
+  // Set by a successful price refresh so the next valuation replaces today's snapshot
+  const snapshotAfterRefresh = useRef(false);
+
   // Auto-save effects
   useEffect(() => {
-    localStorage.setItem('portfolio_holdings', JSON.stringify(holdings));
-  }, [holdings]);
+    localStorage.setItem('portfolios', JSON.stringify(portfolios));
+  }, [portfolios]);
+
+  useEffect(() => {
+    localStorage.setItem('active_portfolio', activePortfolioId);
+  }, [activePortfolioId]);
+
+  useEffect(() => {
+    localStorage.setItem('fee_profiles', JSON.stringify(feeProfiles));
+  }, [feeProfiles]);
+
+  useEffect(() => {
+    localStorage.setItem('quote_providers', JSON.stringify(quoteProviders));
+  }, [quoteProviders]);
+
+  useEffect(() => {
+    localStorage.setItem('auto_refresh', JSON.stringify(autoRefresh));
+  }, [autoRefresh]);
+
+  useEffect(() => {
+    localStorage.setItem(portfolioStorageKey(activePortfolioId, PORTFOLIO_STORAGE_KEYS.holdings), JSON.stringify(holdings));
+  }, [activePortfolioId, holdings]);
+
+  useEffect(() => {
+    localStorage.setItem(portfolioStorageKey(activePortfolioId, PORTFOLIO_STORAGE_KEYS.transactions), JSON.stringify(transactions));
+  }, [activePortfolioId, transactions]);
+
+  useEffect(() => {
+    localStorage.setItem(portfolioStorageKey(activePortfolioId, PORTFOLIO_STORAGE_KEYS.accounts), JSON.stringify(accounts));
+  }, [activePortfolioId, accounts]);
+
+  useEffect(() => {
+    localStorage.setItem(portfolioStorageKey(activePortfolioId, PORTFOLIO_STORAGE_KEYS.cashFlows), JSON.stringify(cashFlows));
+  }, [activePortfolioId, cashFlows]);
+
+  useEffect(() => {
+    localStorage.setItem(portfolioStorageKey(activePortfolioId, PORTFOLIO_STORAGE_KEYS.dividendRecords), JSON.stringify(dividendRecords));
+  }, [activePortfolioId, dividendRecords]);
 
   useEffect(() => {
-    localStorage.setItem('portfolio_cash', cash.toString());
-  }, [cash]);
+    localStorage.setItem(portfolioStorageKey(activePortfolioId, PORTFOLIO_STORAGE_KEYS.allocationTarget), JSON.stringify(allocationTarget));
+  }, [activePortfolioId, allocationTarget]);
 
   useEffect(() => {
-    localStorage.setItem('dividend_records', JSON.stringify(dividendRecords));
-  }, [dividendRecords]);
+    localStorage.setItem(portfolioStorageKey(activePortfolioId, PORTFOLIO_STORAGE_KEYS.driftBreachLog), JSON.stringify(driftBreachLog));
+  }, [activePortfolioId, driftBreachLog]);
+
+  useEffect(() => {
+    localStorage.setItem(portfolioStorageKey(activePortfolioId, PORTFOLIO_STORAGE_KEYS.snapshots), JSON.stringify(snapshots));
+  }, [activePortfolioId, snapshots]);
+
+  useEffect(() => {
+    localStorage.setItem(portfolioStorageKey(activePortfolioId, PORTFOLIO_STORAGE_KEYS.benchmark), JSON.stringify(benchmark));
+  }, [activePortfolioId, benchmark]);
 
   // Handlers
   const handleUpdateHolding = (id: string, field: 'avgPrice' | 'currentPrice' | 'quantity', value: number) => {
     setHoldings(prev => prev.map(h => {
       if (h.id === id) {
-        return { ...h, [field]: value };
+        // A hand-typed price no longer comes from a quote
+        return field === 'currentPrice' ? { ...h, currentPrice: value, quote: undefined } : { ...h, [field]: value };
       }
       return h;
     }));
@@ -177,55 +275,233 @@ export default function App() {
 
   const handleAddHolding = (newHolding: Holding) => {
     setHoldings(prev => [...prev, newHolding]);
+    // The initial quantity/avgPrice from the form is booked as the first trade
+    if (newHolding.quantity > 0) {
+      const today = new Date().toISOString().split('T')[0];
+      const profile = resolveHoldingFeeProfile(newHolding, accounts, feeProfiles);
+      setTransactions(prev => [...prev, { ...createOpeningTransaction(newHolding, today, profile), note: '' }]);
+    }
   };
 
+  // Trades of a deleted holding stay in the ledger so its realized P&L is still reported
   const handleDeleteHolding = (id: string) => {
+    const target = calculatedHoldings.find(h => h.id === id);
+    if (target && target.quantity > 0 && !confirm(`${target.name} 仍持有 ${target.quantity} 股，建議先以「賣出」登記成交。\n確定直接刪除此持股？(已實現損益紀錄會保留)`)) {
+      return;
+    }
     setHoldings(prev => prev.filter(h => h.id !== id));
   };
 
+  // Cash is edited per account; the combined view only allows it when there is a single account
   const handleUpdateCash = (value: number) => {
-    setCash(value);
+    const targetId = viewAccountId === ALL_ACCOUNTS ? accounts[0]?.id : viewAccountId;
+    setAccounts(prev => prev.map(a => (a.id === targetId ? { ...a, cash: value } : a)));
   };
 
+  // The tracker only sees the records of the current account view
   const handleUpdateRecords = (records: DividendRecord[]) => {
-    setDividendRecords(records);
+    setDividendRecords(prev => mergeAccountRecords(prev, records, viewAccountId));
   };
 
-  const handleRefreshPrices = async () => {
-    if (holdings.length === 0) return;
-    
+  // Removed accounts hand their holdings, trades, dividends and cash over to the default account
+  const handleUpdateAccounts = (next: Account[]) => {
+    const remaining = new Set(next.map(a => a.id));
+    const removed = accounts.filter(a => !remaining.has(a.id));
+    if (removed.length > 0) {
+      const removedIds = new Set(removed.map(a => a.id));
+      const movedCash = removed.reduce((sum, a) => sum + a.cash, 0);
+      const retag = <T extends { accountId?: string }>(item: T): T => (removedIds.has(accountOf(item)) ? { ...item, accountId: undefined } : item);
+      setHoldings(prev => prev.map(retag));
+      setTransactions(prev => prev.map(retag));
+      setCashFlows(prev => prev.map(retag));
+      setDividendRecords(prev => prev.map(retag));
+      next = next.map(a => (a.id === DEFAULT_ACCOUNT_ID ? { ...a, cash: a.cash + movedCash } : a));
+    }
+    setAccounts(next);
+  };
+
+  // Deposits and withdrawals move their account's cash balance by the same amount
+  const handleUpdateCashFlows = (records: CashFlow[]) => {
+    const next = mergeAccountRecords(cashFlows, records, viewAccountId);
+    const delta = new Map<string, number>();
+    cashFlows.forEach(f => delta.set(accountOf(f), (delta.get(accountOf(f)) || 0) - f.amount));
+    next.forEach(f => delta.set(accountOf(f), (delta.get(accountOf(f)) || 0) + f.amount));
+    setAccounts(prev => prev.map(a => (delta.get(a.id) ? { ...a, cash: a.cash + delta.get(a.id)! } : a)));
+    setCashFlows(next);
+  };
+
+  // Holdings keep the ledger's position so it survives a reload even after every trade is deleted
+  const handleUpdateTransactions = (records: Transaction[]) => {
+    setHoldings(prev => syncHoldingsWithLedger(prev, records, transactions));
+    setTransactions(records);
+  };
+
+  const handleUpdateAllocationTarget = (target: AllocationTarget) => {
+    setAllocationTarget(target);
+  };
+
+  const handleUpdateFeeProfiles = (profiles: FeeProfile[]) => {
+    setFeeProfiles(profiles);
+    // Holdings pointing at a removed profile go back to the default
+    const ids = new Set(profiles.map(p => p.id));
+    setHoldings(prev => prev.map(h => (h.feeProfileId && !ids.has(h.feeProfileId) ? { ...h, feeProfileId: undefined } : h)));
+  };
+
+  // Per-holding settings (fee profile, tax category, account, market); undefined means "use the default"
+  const handlePatchHolding = (id: string, patch: Partial<Pick<Holding, 'feeProfileId' | 'category' | 'accountId' | 'market'>>) => {
+    setHoldings(prev => prev.map(h => (h.id === id ? { ...h, ...patch } : h)));
+    // Moving a holding to another account takes its trades along
+    if ('accountId' in patch) {
+      setTransactions(prev => prev.map(t => (t.holdingId === id ? { ...t, accountId: patch.accountId } : t)));
+    }
+  };
+
+  // The outgoing portfolio is already saved by the auto-save effects, so switching only loads the next one
+  const handleSwitchPortfolio = (id: string) => {
+    if (id === HOUSEHOLD_VIEW) {
+      setShowHousehold(true);
+      return;
+    }
+    setShowHousehold(false);
+    if (id === activePortfolioId) return;
+    const data = loadPortfolioData(id, feeProfiles);
+    setActivePortfolioId(id);
+    setHoldings(data.holdings);
+    setTransactions(data.transactions);
+    setAccounts(data.accounts);
+    setCashFlows(data.cashFlows);
+    setDividendRecords(data.dividendRecords);
+    setAllocationTarget(data.allocationTarget);
+    setDriftBreachLog(data.driftBreachLog);
+    setSnapshots(data.snapshots);
+    setBenchmark(data.benchmark);
+    setActiveAccountId(ALL_ACCOUNTS);
+  };
+
+  // Deleted portfolios take their stored data with them
+  const handleUpdatePortfolios = (next: Portfolio[]) => {
+    const remaining = new Set(next.map(p => p.id));
+    portfolios.filter(p => !remaining.has(p.id)).forEach(p => removePortfolioData(p.id));
+    setPortfolios(next);
+    if (!remaining.has(activePortfolioId)) handleSwitchPortfolio(DEFAULT_PORTFOLIO_ID);
+  };
+
+  const openTab = (tab: 'overview' | 'dividends') => {
+    setActiveTab(tab);
+    setShowHousehold(false);
+  };
+
+  // Breaches that are still open are re-logged so the log keeps matching the dashboard
+  const handleClearDriftLog = () => {
+    setDriftBreachLog(reconcileBreachLog([], combinedDriftStatuses, new Date().toISOString()));
+  };
+
+  // Fetch quotes for every holding; resolves to a per-code report, or null when there is
+  // nothing to refresh. Only a missing provider setup throws.
+  const refreshPrices = async (): Promise<RefreshReport | null> => {
+    if (holdings.length === 0) return null;
+
     setIsUpdatingPrices(true);
     try {
-      const codes = holdings.map(h => h.code);
-      const newPrices = await fetchLivePrices(codes);
-      
-      let updatedCount = 0;
+      const result = await fetchLivePrices(toQuoteRequests(holdings), quoteProviders);
+      const report = buildRefreshReport(holdings, result);
       setHoldings(prev => prev.map(h => {
-        if (newPrices[h.code]) {
-          updatedCount++;
-          return { ...h, currentPrice: newPrices[h.code] };
-        }
-        return h;
+        const quote = result.quotes[h.code];
+        if (!quote) return h;
+        const { price, ...info } = quote;
+        return { ...h, currentPrice: price, quote: info };
       }));
+      if (report.updated.length > 0) snapshotAfterRefresh.current = true;
+      return report;
+    } finally {
+      setIsUpdatingPrices(false);
+    }
+  };
 
-      if (updatedCount > 0) {
-        // Small delay to let the user see the spinner
-        setTimeout(() => alert(`成功更新 ${updatedCount} 檔標的價格`), 500);
-      } else {
-        alert('未能取得最新價格，請稍後再試');
-      }
+  const handleRefreshPrices = async () => {
+    try {
+      const report = await refreshPrices();
+      if (report) setRefreshReport(report);
     } catch (error: any) {
-      alert(`更新失敗：無法連線至報價服務 (${error.message || 'Unknown Error'})`);
       console.error(error);
-    } finally {
-      setIsUpdatingPrices(false);
+      setRefreshReport({
+        finishedAt: new Date().toISOString(),
+        updated: [],
+        failed: toQuoteRequests(holdings).map(r => ({
+          code: r.code,
+          name: holdings.find(h => h.code === r.code)?.name || '',
+          reason: error.message || String(error),
+        })),
+      });
     }
   };
 
-  const calculatedHoldings = useMemo(() => {
+  // The timer below outlives renders, so it calls whatever refreshPrices is current
+  const refreshPricesRef = useRef(refreshPrices);
+  refreshPricesRef.current = refreshPrices;
+
+  // Auto-refresh: poll only while a session is open, wait for the next opening otherwise, and
+  // back off while the quote providers keep failing
+  useEffect(() => {
+    if (!autoRefresh.enabled) {
+      setAutoRefreshStatus(null);
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+    let status: AutoRefreshStatus = { nextRunAt: null, lastRunAt: null, lastError: null, failures: 0 };
+
+    const schedule = () => {
+      const now = new Date();
+      const delay = nextAutoRefreshDelay(now, autoRefresh, status.failures);
+      status = { ...status, nextRunAt: new Date(now.getTime() + delay).toISOString() };
+      setAutoRefreshStatus(status);
+      timer = setTimeout(tick, delay);
+    };
+
+    const tick = async () => {
+      if (!activeSession(new Date(), autoRefresh.includeOddLot)) {
+        // A new session starts without the previous one's backoff
+        status = { ...status, failures: 0 };
+      } else {
+        try {
+          const report = await refreshPricesRef.current();
+          // Background refreshes stay quiet unless some codes could not be updated
+          if (report?.failed.length) setRefreshReport(report);
+          if (report?.updated.length === 0) throw new Error(report.failed[0]?.reason || '未取得任何報價');
+          if (report) status = { ...status, lastRunAt: new Date().toISOString(), lastError: null, failures: 0 };
+        } catch (error: any) {
+          console.error('Auto refresh failed:', error);
+          status = { ...status, lastError: error.message || String(error), failures: status.failures + 1 };
+        }
+      }
+      if (!cancelled) schedule();
+    };
+
+    schedule();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [autoRefresh]);
+
+  // Latest price of a single code, e.g. for a holding that is being added
+  const handleFetchQuote = async (code: string): Promise<Quote | null> => {
+    const { quotes } = await fetchLivePrices(toQuoteRequests([{ code }]), quoteProviders);
+    return quotes[code] ?? null;
+  };
+
+  const allCalculatedHoldings = useMemo(() => {
     const customOrder = ['0050', '0056', '00919', '00679B', '00720B', '00937B'];
+    const today = new Date().toISOString().split('T')[0];
+    const dividendsByHolding = assignDividends(holdings, dividendRecords, today);
     
-    return holdings.map(enrichHolding).sort((a, b) => {
+    return holdings.map(h => enrichHolding(
+      h,
+      transactions,
+      resolveHoldingFeeProfile(h, accounts, feeProfiles),
+      sumDividends(dividendsByHolding.get(h.id))
+    )).sort((a, b) => {
       const indexA = customOrder.indexOf(a.code);
       const indexB = customOrder.indexOf(b.code);
       
@@ -235,54 +511,158 @@ export default function App() {
       
       return 0;
     });
-  }, [holdings]);
+  }, [holdings, transactions, accounts, feeProfiles, dividendRecords]);
+
+  // Current account view (falls back to all accounts if the selected one was removed)
+  const viewAccountId = accounts.some(a => a.id === activeAccountId) ? activeAccountId : ALL_ACCOUNTS;
+  const totalCash = accounts.reduce((sum, a) => sum + a.cash, 0);
+  const cash = viewAccountId === ALL_ACCOUNTS ? totalCash : (accounts.find(a => a.id === viewAccountId)?.cash || 0);
+
+  const calculatedHoldings = useMemo(() => {
+    return allCalculatedHoldings.filter(h => matchesAccount(h, viewAccountId));
+  }, [allCalculatedHoldings, viewAccountId]);
+
+  const viewTransactions = useMemo(() => {
+    return transactions.filter(t => matchesAccount(t, viewAccountId));
+  }, [transactions, viewAccountId]);
+
+  const viewCashFlows = useMemo(() => {
+    return cashFlows.filter(f => matchesAccount(f, viewAccountId));
+  }, [cashFlows, viewAccountId]);
+
+  const viewDividendRecords = useMemo(() => {
+    return dividendRecords.filter(r => matchesAccount(r, viewAccountId));
+  }, [dividendRecords, viewAccountId]);
 
   const summary: PortfolioSummary = useMemo(() => {
-    const stockHoldings = calculatedHoldings.filter(h => h.type === AssetType.STOCK);
-    const bondHoldings = calculatedHoldings.filter(h => h.type === AssetType.BOND);
+    return calculateSummary(calculatedHoldings, cash, viewTransactions);
+  }, [calculatedHoldings, cash, viewTransactions]);
 
-    const stockValue = stockHoldings.reduce((sum, h) => sum + h.presentValue, 0);
-    const bondValue = bondHoldings.reduce((sum, h) => sum + h.presentValue, 0);
-    const totalCost = calculatedHoldings.reduce((sum, h) => sum + h.cost, 0);
-    
-    const totalInvestedValue = stockValue + bondValue;
-    const totalAssets = totalInvestedValue + cash;
-    const totalProfit = totalInvestedValue - totalCost;
-    const totalRoi = totalCost === 0 ? 0 : (totalProfit / totalCost) * 100;
-
-    const stockRatio = totalInvestedValue === 0 ? 0 : (stockValue / totalInvestedValue) * 100;
-    const bondRatio = totalInvestedValue === 0 ? 0 : (bondValue / totalInvestedValue) * 100;
-
-    return {
-      totalAssets,
-      stockValue,
-      bondValue,
-      cashValue: cash,
-      totalCost,
-      totalProfit,
-      totalRoi,
-      stockRatio,
-      bondRatio
-    };
-  }, [calculatedHoldings, cash]);
+  // Codes whose price history matters: everything held or traded plus the benchmark
+  const trackedCodes = useMemo(() => {
+    return Array.from(new Set<string>([
+      ...holdings.map(h => h.code),
+      ...transactions.map(t => t.code),
+      ...Object.keys(benchmark.weights),
+    ])).sort();
+  }, [holdings, transactions, benchmark]);
+  const trackedCodesKey = trackedCodes.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPriceHistory(trackedCodes)
+      .then(history => { if (!cancelled) setStoredPrices(history); })
+      .catch(e => console.error('Failed to load price history:', e));
+    return () => { cancelled = true; };
+  }, [trackedCodesKey, priceStoreVersion]);
+
+  // Money- and time-weighted returns of the current view
+  const performance = useMemo(() => {
+    return calculatePerformance(calculatedHoldings, viewTransactions, viewDividendRecords, viewCashFlows, snapshots, storedPrices);
+  }, [calculatedHoldings, viewTransactions, viewDividendRecords, viewCashFlows, snapshots, storedPrices]);
+
+  // Prices and per-share dividends are per ticker, so every account contributes to them
+  const priceHistory = useMemo(() => {
+    return buildPriceHistory(snapshots, transactions, allCalculatedHoldings, new Date().toISOString().split('T')[0], storedPrices);
+  }, [snapshots, transactions, allCalculatedHoldings, storedPrices]);
+
+  const benchmarkDividends = useMemo(() => {
+    return dividendsPerShare(dividendRecords, transactions, new Date().toISOString().split('T')[0]);
+  }, [dividendRecords, transactions]);
+
+  // Drift is shown for the current view, but breaches are logged for the combined portfolio
+  // so switching accounts never opens or closes one
+  const driftStatuses = useMemo(() => {
+    return evaluateDrift(summary, calculatedHoldings, allocationTarget);
+  }, [summary, calculatedHoldings, allocationTarget]);
+
+  const combinedSummary = useMemo(() => {
+    return calculateSummary(allCalculatedHoldings, totalCash, transactions);
+  }, [allCalculatedHoldings, totalCash, transactions]);
+
+  const combinedDriftStatuses = useMemo(() => {
+    return evaluateDrift(combinedSummary, allCalculatedHoldings, allocationTarget);
+  }, [combinedSummary, allCalculatedHoldings, allocationTarget]);
+
+  // Log band crossings as they happen (price refresh, trades, target edits)
+  useEffect(() => {
+    setDriftBreachLog(prev => reconcileBreachLog(prev, combinedDriftStatuses, new Date().toISOString()));
+  }, [combinedDriftStatuses]);
+
+  // Other portfolios are read back from storage only while the household view is open
+  const householdOverviews = useMemo(() => {
+    if (!showHousehold) return [];
+    const activeData: PortfolioData = { holdings, transactions, accounts, cashFlows, dividendRecords, allocationTarget, driftBreachLog, snapshots, benchmark };
+    return portfolios.map(p => summarizePortfolio(p, p.id === activePortfolioId ? activeData : loadPortfolioData(p.id, feeProfiles), feeProfiles));
+  }, [showHousehold, portfolios, activePortfolioId, holdings, transactions, accounts, cashFlows, dividendRecords, allocationTarget, driftBreachLog, snapshots, benchmark, feeProfiles]);
+
+  const activePortfolio = portfolios.find(p => p.id === activePortfolioId) || portfolios[0];
+
+  // One snapshot per day: taken when a portfolio is opened, and replaced after a price refresh
+  useEffect(() => {
+    const today = new Date().toISOString().split('T')[0];
+    const overwrite = snapshotAfterRefresh.current;
+    snapshotAfterRefresh.current = false;
+    setSnapshots(prev => recordSnapshot(prev, createSnapshot(combinedSummary, allCalculatedHoldings, today), overwrite));
+  }, [activePortfolioId, combinedSummary]);
 
   // Export Data
   const handleExportCSV = () => {
     const BOM = '\uFEFF';
     let content = BOM;
 
+    // The backup always covers every account, whatever the current view is
+    const s = combinedSummary;
     content += '[SUMMARY]\n';
-    content += 'Total Assets,Stock Value,Bond Value,Cash Value,Total Cost,Total Profit,Total ROI,Stock Ratio,Bond Ratio\n';
-    content += `${summary.totalAssets},${summary.stockValue},${summary.bondValue},${summary.cashValue},${summary.totalCost},${summary.totalProfit},${summary.totalRoi.toFixed(2)}%,${summary.stockRatio.toFixed(2)}%,${summary.bondRatio.toFixed(2)}%\n\n`;
+    content += 'Total Assets,Stock Value,Bond Value,Cash Value,Total Cost,Total Profit,Total ROI,Stock Ratio,Bond Ratio,Realized Profit\n';
+    content += `${s.totalAssets},${s.stockValue},${s.bondValue},${s.cashValue},${s.totalCost},${s.totalProfit},${s.totalRoi.toFixed(2)}%,${s.stockRatio.toFixed(2)}%,${s.bondRatio.toFixed(2)}%,${s.realizedProfit}\n\n`;
 
     content += '[CASH]\n';
-    content += `${cash}\n\n`;
+    content += `${totalCash}\n\n`;
+
+    content += '[ACCOUNTS]\n';
+    content += 'id,name,broker,feeProfileId,cash\n';
+    accounts.forEach(a => {
+        content += `${a.id},${a.name},${a.broker},${a.feeProfileId || ''},${a.cash}\n`;
+    });
+    content += '\n';
+
+    content += '[CASH_FLOWS]\n';
+    content += 'id,date,amount,accountId,note\n';
+    cashFlows.forEach(f => {
+        const safeNote = `"${(f.note || '').replace(/"/g, '""')}"`;
+        content += `${f.id},${f.date},${f.amount},${accountOf(f)},${safeNote}\n`;
+    });
+    content += '\n';
 
     content += '[HOLDINGS]\n';
-    content += 'id,name,code,type,quantity,avgPrice,currentPrice,cost,presentValue,profit,roi\n';
+    content += 'id,name,code,type,quantity,avgPrice,currentPrice,cost,presentValue,profit,roi,feeProfileId,category,accountId,market\n';
     // Use calculatedHoldings to export enriched data
-    calculatedHoldings.forEach(h => {
-        content += `${h.id},${h.name},${h.code},${h.type},${h.quantity},${h.avgPrice},${h.currentPrice},${h.cost},${h.presentValue},${h.profit},${h.roi.toFixed(2)}%\n`;
+    allCalculatedHoldings.forEach(h => {
+        content += `${h.id},${h.name},${h.code},${h.type},${h.quantity},${h.avgPrice},${h.currentPrice},${h.cost},${h.presentValue},${h.profit},${h.roi.toFixed(2)}%,${h.feeProfileId || ''},${h.category},${accountOf(h)},${h.market || ''}\n`;
+    });
+    content += '\n';
+
+    content += '[FEE_PROFILES]\n';
+    content += 'id,name,discount,minFee,oddLotMinFee,rebate\n';
+    feeProfiles.forEach(p => {
+        content += `${p.id},${p.name},${p.discount},${p.minFee},${p.oddLotMinFee},${p.rebate}\n`;
+    });
+    content += '\n';
+
+    content += '[TRANSACTIONS]\n';
+    content += 'id,holdingId,code,type,date,shares,price,fee,tax,accountId,note\n';
+    transactions.forEach(t => {
+        const safeNote = `"${(t.note || '').replace(/"/g, '""')}"`;
+        content += `${t.id},${t.holdingId},${t.code},${t.type},${t.date},${t.shares},${t.price},${t.fee},${t.tax},${accountOf(t)},${safeNote}\n`;
+    });
+    content += '\n';
+
+    content += '[SNAPSHOTS]\n';
+    content += 'date,totalAssets,totalCost,stockValue,bondValue,cashValue,stockRatio,bondRatio,prices\n';
+    snapshots.forEach(snap => {
+        const prices = Object.entries(snap.prices).map(([code, price]) => `${code}:${price}`).join(';');
+        content += `${snap.date},${snap.totalAssets},${snap.totalCost},${snap.stockValue},${snap.bondValue},${snap.cashValue},${snap.stockRatio},${snap.bondRatio},${prices}\n`;
     });
     content += '\n';
 
@@ -318,10 +698,10 @@ export default function App() {
     content += '\n';
 
     content += '[DIVIDENDS]\n';
-    content += 'id,date,ticker,amount,note\n';
+    content += 'id,date,ticker,amount,accountId,exDividendDate,perUnit,shares,grossAmount,nhiPremium,transferFee,compDividend,compInterest,compEqualization,compCapitalGain,note\n';
     dividendRecords.forEach(r => {
         const safeNote = `"${(r.note || '').replace(/"/g, '""')}"`;
-        content += `${r.id},${r.date},${r.ticker},${r.amount},${safeNote}\n`;
+        content += `${r.id},${r.date},${r.ticker},${r.amount},${accountOf(r)},${r.exDividendDate || ''},${r.perUnit ?? ''},${r.shares ?? ''},${r.grossAmount ?? ''},${r.nhiPremium ?? ''},${r.transferFee ?? ''},${r.composition?.dividend ?? ''},${r.composition?.interest ?? ''},${r.composition?.equalization ?? ''},${r.composition?.capitalGain ?? ''},${safeNote}\n`;
     });
 
     const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
@@ -331,7 +711,8 @@ export default function App() {
     const now = new Date();
     const dateStr = now.toISOString().split('T')[0];
     const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, '');
-    link.download = `portfolio_backup_${dateStr}_${timeStr}.csv`;
+    const portfolioPrefix = portfolios.length > 1 ? `${activePortfolio.name}_` : '';
+    link.download = `portfolio_backup_${portfolioPrefix}${dateStr}_${timeStr}.csv`;
     
     document.body.appendChild(link);
     link.click();
@@ -353,6 +734,14 @@ export default function App() {
         let tempCash: number | null = null;
         const tempHoldings: Holding[] = [];
         const tempDividends: DividendRecord[] = [];
+        const tempTransactions: Transaction[] = [];
+        const tempFeeProfiles: FeeProfile[] = [];
+        const tempAccounts: Account[] = [];
+        const tempCashFlows: CashFlow[] = [];
+        const tempSnapshots: PortfolioSnapshot[] = [];
+        // Older backups have no accountId column; the note column position is read from the header
+        let transactionNoteIndex = 9;
+        let dividendNoteIndex = 4;
 
         lines.forEach(line => {
             const trimmed = line.trim();
@@ -362,6 +751,11 @@ export default function App() {
             if (trimmed === '[CASH]') { section = 'CASH'; return; }
             if (trimmed === '[HOLDINGS]') { section = 'HOLDINGS'; return; }
             if (trimmed === '[DIVIDENDS]') { section = 'DIVIDENDS'; return; }
+            if (trimmed === '[TRANSACTIONS]') { section = 'TRANSACTIONS'; return; }
+            if (trimmed === '[FEE_PROFILES]') { section = 'FEE_PROFILES'; return; }
+            if (trimmed === '[ACCOUNTS]') { section = 'ACCOUNTS'; return; }
+            if (trimmed === '[CASH_FLOWS]') { section = 'CASH_FLOWS'; return; }
+            if (trimmed === '[SNAPSHOTS]') { section = 'SNAPSHOTS'; return; }
             if (trimmed === '[YEARLY_PERFORMANCE]') { section = 'YEARLY_PERFORMANCE'; return; }
 
             if (section === 'SUMMARY' || section === 'YEARLY_PERFORMANCE') {
@@ -382,19 +776,116 @@ export default function App() {
                         type: parts[3] as AssetType,
                         quantity: parseFloat(parts[4]),
                         avgPrice: parseFloat(parts[5]),
-                        currentPrice: parseFloat(parts[6])
-                        // Extra columns (cost, presentValue...) are ignored here as they are recalculated
+                        currentPrice: parseFloat(parts[6]),
+                        // Computed columns (cost, presentValue...) are ignored here as they are recalculated
+                        feeProfileId: parts[11] || undefined,
+                        category: (parts[12] as InstrumentCategory) || undefined,
+                        accountId: parts[13] || undefined,
+                        market: (parts[14] as Market) || undefined
+                    });
+                }
+            } else if (section === 'ACCOUNTS') {
+                if (trimmed.startsWith('id,')) return;
+                const parts = trimmed.split(',');
+                if (parts.length >= 5) {
+                    tempAccounts.push({
+                        id: parts[0],
+                        name: parts[1],
+                        broker: parts[2],
+                        feeProfileId: parts[3] || undefined,
+                        cash: parseFloat(parts[4]) || 0
+                    });
+                }
+            } else if (section === 'CASH_FLOWS') {
+                if (trimmed.startsWith('id,')) return;
+                const parts = trimmed.split(',');
+                if (parts.length >= 5) {
+                    let note = parts.slice(4).join(',');
+                    if (note.startsWith('"') && note.endsWith('"')) {
+                        note = note.slice(1, -1).replace(/""/g, '"');
+                    }
+                    tempCashFlows.push({
+                        id: parts[0],
+                        date: parts[1],
+                        amount: parseFloat(parts[2]) || 0,
+                        accountId: parts[3] || undefined,
+                        note
+                    });
+                }
+            } else if (section === 'SNAPSHOTS') {
+                if (trimmed.startsWith('date,')) return;
+                const parts = trimmed.split(',');
+                if (parts.length >= 8) {
+                    const prices: Record<string, number> = {};
+                    (parts[8] || '').split(';').forEach(pair => {
+                        const [code, price] = pair.split(':');
+                        if (code && !isNaN(parseFloat(price))) prices[code] = parseFloat(price);
+                    });
+                    tempSnapshots.push({
+                        date: parts[0],
+                        totalAssets: parseFloat(parts[1]),
+                        totalCost: parseFloat(parts[2]),
+                        stockValue: parseFloat(parts[3]),
+                        bondValue: parseFloat(parts[4]),
+                        cashValue: parseFloat(parts[5]),
+                        stockRatio: parseFloat(parts[6]),
+                        bondRatio: parseFloat(parts[7]),
+                        prices
+                    });
+                }
+            } else if (section === 'FEE_PROFILES') {
+                if (trimmed.startsWith('id,')) return;
+                const parts = trimmed.split(',');
+                if (parts.length >= 6) {
+                    tempFeeProfiles.push({
+                        id: parts[0],
+                        name: parts[1],
+                        discount: parseFloat(parts[2]),
+                        minFee: parseFloat(parts[3]),
+                        oddLotMinFee: parseFloat(parts[4]),
+                        rebate: parts[5] as RebateMode
+                    });
+                }
+            } else if (section === 'TRANSACTIONS') {
+                if (trimmed.startsWith('id,')) {
+                    const noteIndex = trimmed.split(',').indexOf('note');
+                    if (noteIndex > 0) transactionNoteIndex = noteIndex;
+                    return;
+                }
+                // Note is the last (quoted) column and may itself contain commas
+                const parts = trimmed.split(',');
+                if (parts.length >= transactionNoteIndex) {
+                    let note = parts.slice(transactionNoteIndex).join(',');
+                    if (note.startsWith('"') && note.endsWith('"')) {
+                        note = note.slice(1, -1).replace(/""/g, '"');
+                    }
+                    tempTransactions.push({
+                        id: parts[0],
+                        holdingId: parts[1],
+                        code: parts[2],
+                        type: parts[3] as TradeType,
+                        date: parts[4],
+                        shares: parseFloat(parts[5]),
+                        price: parseFloat(parts[6]),
+                        fee: parseFloat(parts[7]),
+                        tax: parseFloat(parts[8]),
+                        note,
+                        accountId: transactionNoteIndex > 9 ? parts[9] || undefined : undefined
                     });
                 }
             } else if (section === 'DIVIDENDS') {
-                if (trimmed.startsWith('id,')) return; 
+                if (trimmed.startsWith('id,')) {
+                    const noteIndex = trimmed.split(',').indexOf('note');
+                    if (noteIndex > 0) dividendNoteIndex = noteIndex;
+                    return;
+                }
                 
                 let commaCount = 0;
                 let splitIndex = -1;
                 for(let i=0; i<trimmed.length; i++) {
                     if(trimmed[i] === ',') {
                         commaCount++;
-                        if(commaCount === 4) {
+                        if(commaCount === dividendNoteIndex) {
                             splitIndex = i;
                             break;
                         }
@@ -410,13 +901,28 @@ export default function App() {
                         note = note.slice(1, -1).replace(/""/g, '"');
                     }
 
-                    if (parts.length === 4) {
+                    if (parts.length === dividendNoteIndex) {
                         tempDividends.push({
                             id: parts[0],
                             date: parts[1],
                             ticker: parts[2],
                             amount: parseFloat(parts[3]),
-                            note: note
+                            note: note,
+                            accountId: dividendNoteIndex > 4 ? parts[4] || undefined : undefined,
+                            exDividendDate: dividendNoteIndex > 5 ? parts[5] || undefined : undefined,
+                            perUnit: dividendNoteIndex > 6 && parts[6] ? parseFloat(parts[6]) : undefined,
+                            shares: dividendNoteIndex > 7 && parts[7] ? parseFloat(parts[7]) : undefined,
+                            grossAmount: dividendNoteIndex > 8 && parts[8] ? parseFloat(parts[8]) : undefined,
+                            nhiPremium: dividendNoteIndex > 9 && parts[9] ? parseFloat(parts[9]) : undefined,
+                            transferFee: dividendNoteIndex > 10 && parts[10] ? parseFloat(parts[10]) : undefined,
+                            composition: dividendNoteIndex > 14 && parts.slice(11, 15).some(p => p)
+                                ? {
+                                    dividend: parseFloat(parts[11]) || 0,
+                                    interest: parseFloat(parts[12]) || 0,
+                                    equalization: parseFloat(parts[13]) || 0,
+                                    capitalGain: parseFloat(parts[14]) || 0,
+                                }
+                                : undefined,
                         });
                     }
                 }
@@ -429,14 +935,37 @@ export default function App() {
 
         const stats = `
           持股資料: ${tempHoldings.length} 筆
+          交易紀錄: ${tempTransactions.length} 筆
           股息紀錄: ${tempDividends.length} 筆
+          資產快照: ${tempSnapshots.length} 筆
+          證券帳戶: ${tempAccounts.length > 0 ? tempAccounts.length + ' 個' : '單一帳戶'}
+          存提款紀錄: ${tempCashFlows.length} 筆
           現金部位: ${tempCash !== null ? '$' + tempCash : '未變更'}
         `;
 
         if (confirm(`確定匯入 CSV 資料？\n這將覆蓋您目前的設定。\n${stats}`)) {
+            const today = new Date().toISOString().split('T')[0];
+            const importedProfiles = tempFeeProfiles.length > 0 ? tempFeeProfiles : feeProfiles;
             setHoldings(tempHoldings);
+            setFeeProfiles(importedProfiles);
+            // Older backups have no ledger section; their positions become opening trades
+            setTransactions(seedOpeningTransactions(
+                tempHoldings,
+                tempTransactions,
+                h => estimateOpeningDate(h, tempDividends, tempSnapshots.length > 0 ? tempSnapshots : snapshots, today),
+                importedProfiles
+            ));
             setDividendRecords(tempDividends);
-            if (tempCash !== null) setCash(tempCash);
+            setCashFlows(tempCashFlows);
+            // Older backups have no history; the current one is kept rather than wiped
+            if (tempSnapshots.length > 0) setSnapshots(tempSnapshots);
+            // Backups from before accounts existed restore into a single default account
+            if (tempAccounts.length > 0) {
+                setAccounts(tempAccounts);
+            } else {
+                setAccounts([createDefaultAccount(tempCash !== null ? tempCash : totalCash)]);
+            }
+            setActiveAccountId(ALL_ACCOUNTS);
             alert('匯入成功！');
             setShowSettingsModal(false); // Close modal on success
         }
@@ -466,22 +995,38 @@ export default function App() {
               </div>
               <div>
                 <h1 className="text-xl font-bold text-skin-text-base tracking-tight">ETF 投資組合管理</h1>
-                <p className="text-xs text-skin-text-muted hidden sm:block">目標資產: 800萬 | 股債配置: 60/40</p>
+                <p className="text-xs text-skin-text-muted hidden sm:block">目標資產: 800萬 | 股債配置: {formatAllocationLabel(allocationTarget)}</p>
               </div>
             </div>
             
             <div className="flex items-center gap-2">
+                {/* Portfolio Switcher */}
+                <div className="relative">
+                    <Briefcase size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-skin-text-muted pointer-events-none" />
+                    <select
+                        value={showHousehold ? HOUSEHOLD_VIEW : activePortfolioId}
+                        onChange={(e) => handleSwitchPortfolio(e.target.value)}
+                        className="appearance-none max-w-[9rem] sm:max-w-[12rem] truncate bg-skin-base border border-skin-border text-skin-text-base text-xs font-bold py-1.5 pl-7 pr-3 rounded-lg focus:outline-none focus:ring-1 focus:ring-skin-primary cursor-pointer"
+                        title="切換投資組合"
+                    >
+                        {portfolios.map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                        {portfolios.length > 1 && <option value={HOUSEHOLD_VIEW}>全家合計</option>}
+                    </select>
+                </div>
+
                 {/* Desktop Navigation */}
                 <nav className="hidden md:flex space-x-1 mr-2">
                 <TabButton 
-                    active={activeTab === 'overview'} 
-                    onClick={() => setActiveTab('overview')} 
+                    active={!showHousehold && activeTab === 'overview'} 
+                    onClick={() => openTab('overview')} 
                     icon={<LayoutDashboard size={18} />} 
                     label="總覽 & 持股" 
                 />
                 <TabButton 
-                    active={activeTab === 'dividends'} 
-                    onClick={() => setActiveTab('dividends')} 
+                    active={!showHousehold && activeTab === 'dividends'} 
+                    onClick={() => openTab('dividends')} 
                     icon={<Coins size={18} />} 
                     label="股息儀表板" 
                 />
@@ -503,26 +1048,75 @@ export default function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {activeTab === 'overview' && (
+        {showHousehold && (
+          <HouseholdOverview
+            overviews={householdOverviews}
+            customColors={customColors}
+            onOpenPortfolio={handleSwitchPortfolio}
+          />
+        )}
+
+        {/* Account Filter */}
+        {!showHousehold && accounts.length > 1 && (
+          <div className="mb-6 flex items-center gap-2 overflow-x-auto">
+            <Landmark size={16} className="text-skin-text-muted shrink-0" />
+            {[{ id: ALL_ACCOUNTS, name: '全部帳戶' }, ...accounts].map(a => (
+              <button
+                key={a.id}
+                onClick={() => setActiveAccountId(a.id)}
+                className={`shrink-0 px-3 py-1 rounded-full text-xs font-bold border transition-colors ${
+                  viewAccountId === a.id
+                    ? 'bg-skin-primary text-skin-primary-fg border-transparent shadow-sm'
+                    : 'bg-skin-card text-skin-text-muted border-skin-border hover:text-skin-text-base'
+                }`}
+              >
+                {a.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!showHousehold && activeTab === 'overview' && (
           <Dashboard 
             summary={summary} 
             holdings={calculatedHoldings} 
             cash={cash}
             theme={theme as any}
             customColors={customColors}
+            transactions={transactions}
+            accounts={accounts}
+            activeAccountId={viewAccountId}
+            cashFlows={viewCashFlows}
+            allocationTarget={allocationTarget}
+            driftStatuses={driftStatuses}
+            driftBreachLog={driftBreachLog}
+            snapshots={snapshots}
+            performance={performance}
+            benchmark={benchmark}
+            priceHistory={priceHistory}
+            dividendsPerShare={benchmarkDividends}
+            onUpdateBenchmark={setBenchmark}
             onUpdateHolding={handleUpdateHolding}
+            onUpdateAllocationTarget={handleUpdateAllocationTarget}
+            onClearDriftLog={handleClearDriftLog}
+            onUpdateTransactions={handleUpdateTransactions}
             onAddHolding={handleAddHolding}
             onDeleteHolding={handleDeleteHolding}
-            onUpdateCash={handleUpdateCash}
+            onUpdateCash={viewAccountId !== ALL_ACCOUNTS || accounts.length === 1 ? handleUpdateCash : undefined}
+            onUpdateCashFlows={handleUpdateCashFlows}
             onRefreshPrices={handleRefreshPrices}
+            onFetchQuote={handleFetchQuote}
             isUpdatingPrices={isUpdatingPrices}
           />
         )}
 
-        {activeTab === 'dividends' && (
+        {!showHousehold && activeTab === 'dividends' && (
           <DividendTracker 
-            holdings={holdings} 
-            records={dividendRecords}
+            holdings={calculatedHoldings} 
+            records={viewDividendRecords}
+            transactions={transactions}
+            accounts={accounts}
+            activeAccountId={viewAccountId}
             onUpdateRecords={handleUpdateRecords}
             theme={theme as any} 
             customColors={customColors}
@@ -534,20 +1128,24 @@ export default function App() {
       <div className="md:hidden fixed bottom-0 left-0 right-0 bg-skin-card border-t border-skin-border pb-safe z-30">
         <div className="flex justify-around items-center h-16">
             <MobileTabButton 
-                active={activeTab === 'overview'} 
-                onClick={() => setActiveTab('overview')} 
+                active={!showHousehold && activeTab === 'overview'} 
+                onClick={() => openTab('overview')} 
                 icon={<LayoutDashboard size={20} />} 
                 label="總覽" 
             />
             <MobileTabButton 
-                active={activeTab === 'dividends'} 
-                onClick={() => setActiveTab('dividends')} 
+                active={!showHousehold && activeTab === 'dividends'} 
+                onClick={() => openTab('dividends')} 
                 icon={<Coins size={20} />} 
                 label="股息" 
             />
         </div>
       </div>
 
+      {refreshReport && !isUpdatingPrices && (
+        <PriceRefreshReport report={refreshReport} onClose={() => setRefreshReport(null)} />
+      )}
+
       {/* Unified Settings & Data Modal */}
       {showSettingsModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
@@ -576,6 +1174,46 @@ export default function App() {
                 >
                     <Palette size={16} /> 外觀主題
                 </button>
+                <button 
+                    onClick={() => setActiveSettingsTab('portfolios')}
+                    className={`flex-1 py-3 text-sm font-bold border-b-2 transition-colors flex items-center justify-center gap-2 ${
+                        activeSettingsTab === 'portfolios' 
+                            ? 'border-skin-primary text-skin-primary bg-skin-primary-bg/10' 
+                            : 'border-transparent text-skin-text-muted hover:text-skin-text-base hover:bg-skin-base'
+                    }`}
+                >
+                    <Briefcase size={16} /> 組合
+                </button>
+                <button 
+                    onClick={() => setActiveSettingsTab('accounts')}
+                    className={`flex-1 py-3 text-sm font-bold border-b-2 transition-colors flex items-center justify-center gap-2 ${
+                        activeSettingsTab === 'accounts' 
+                            ? 'border-skin-primary text-skin-primary bg-skin-primary-bg/10' 
+                            : 'border-transparent text-skin-text-muted hover:text-skin-text-base hover:bg-skin-base'
+                    }`}
+                >
+                    <Landmark size={16} /> 帳戶
+                </button>
+                <button 
+                    onClick={() => setActiveSettingsTab('fees')}
+                    className={`flex-1 py-3 text-sm font-bold border-b-2 transition-colors flex items-center justify-center gap-2 ${
+                        activeSettingsTab === 'fees' 
+                            ? 'border-skin-primary text-skin-primary bg-skin-primary-bg/10' 
+                            : 'border-transparent text-skin-text-muted hover:text-skin-text-base hover:bg-skin-base'
+                    }`}
+                >
+                    <Receipt size={16} /> 交易成本
+                </button>
+                <button 
+                    onClick={() => setActiveSettingsTab('prices')}
+                    className={`flex-1 py-3 text-sm font-bold border-b-2 transition-colors flex items-center justify-center gap-2 ${
+                        activeSettingsTab === 'prices' 
+                            ? 'border-skin-primary text-skin-primary bg-skin-primary-bg/10' 
+                            : 'border-transparent text-skin-text-muted hover:text-skin-text-base hover:bg-skin-base'
+                    }`}
+                >
+                    <Database size={16} /> 行情資料
+                </button>
                 <button 
                     onClick={() => setActiveSettingsTab('data')}
                     className={`flex-1 py-3 text-sm font-bold border-b-2 transition-colors flex items-center justify-center gap-2 ${
@@ -667,6 +1305,58 @@ export default function App() {
                    </div>
                )}
 
+               {activeSettingsTab === 'portfolios' && (
+                   <PortfolioSettings 
+                       portfolios={portfolios}
+                       activePortfolioId={activePortfolioId}
+                       onUpdatePortfolios={handleUpdatePortfolios}
+                       onOpenPortfolio={handleSwitchPortfolio}
+                   />
+               )}
+
+               {activeSettingsTab === 'accounts' && (
+                   <AccountSettings 
+                       accounts={accounts}
+                       feeProfiles={feeProfiles}
+                       holdings={holdings}
+                       onUpdateAccounts={handleUpdateAccounts}
+                       onPatchHolding={handlePatchHolding}
+                   />
+               )}
+
+               {activeSettingsTab === 'fees' && (
+                   <FeeProfileSettings 
+                       profiles={feeProfiles}
+                       holdings={holdings}
+                       onUpdateProfiles={handleUpdateFeeProfiles}
+                       onPatchHolding={handlePatchHolding}
+                   />
+               )}
+
+               {activeSettingsTab === 'prices' && (
+                   <div className="space-y-8">
+                       <AutoRefreshSettings 
+                           settings={autoRefresh}
+                           status={autoRefreshStatus}
+                           onUpdateSettings={setAutoRefresh}
+                       />
+                       <QuoteProviderSettings 
+                           preferences={quoteProviders}
+                           testSecurities={toQuoteRequests([...holdings, ...trackedCodes.map(code => ({ code }))])}
+                           onUpdatePreferences={setQuoteProviders}
+                       />
+                       <SecurityMasterSettings 
+                           holdings={holdings}
+                           onPatchHolding={handlePatchHolding}
+                       />
+                       <PriceHistorySettings 
+                           codes={trackedCodes}
+                           defaultFrom={transactions.reduce((min, t) => (t.date < min ? t.date : min), new Date().toISOString().split('T')[0])}
+                           onHistoryChanged={() => setPriceStoreVersion(v => v + 1)}
+                       />
+                   </div>
+               )}
+
                {activeSettingsTab === 'data' && (
                    <div className="space-y-6 animate-fade-in">
                         <div className="bg-skin-base/50 p-4 rounded-xl border border-skin-border">
@@ -675,7 +1365,7 @@ export default function App() {
                                 匯出資料備份
                             </h4>
                             <p className="text-xs text-skin-text-muted mb-4">
-                                將您目前的持股設定、現金部位與股息紀錄下載為 CSV 檔案。建議定期備份以防資料遺失。
+                                將{portfolios.length > 1 ? `「${activePortfolio.name}」` : '您目前'}的持股設定、交易紀錄、現金部位與股息紀錄下載為 CSV 檔案。建議定期備份以防資料遺失。
                             </p>
                             <button 
                                 onClick={handleExportCSV}
@@ -691,7 +1381,7 @@ export default function App() {
                                 匯入還原資料
                             </h4>
                             <p className="text-xs text-skin-text-muted mb-4">
-                                上傳先前匯出的 CSV 檔案以還原資料。請注意，這將會<span className="text-skin-danger font-bold">完全覆蓋</span>目前的現有資料。
+                                上傳先前匯出的 CSV 檔案以還原資料。請注意，這將會<span className="text-skin-danger font-bold">完全覆蓋</span>{portfolios.length > 1 ? `「${activePortfolio.name}」` : '目前'}的現有資料。
                             </p>
                             <div className="flex gap-2">
                                 <button 
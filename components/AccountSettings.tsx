@@ -0,0 +1,142 @@
+import React from 'react';
+import { Account, FeeProfile, Holding } from '../types';
+import { DEFAULT_ACCOUNT_ID } from '../constants';
+import { accountOf } from '../utils/accounts';
+import { Landmark, Plus, Trash2 } from 'lucide-react';
+
+interface AccountSettingsProps {
+  accounts: Account[];
+  feeProfiles: FeeProfile[];
+  holdings: Holding[];
+  onUpdateAccounts: (accounts: Account[]) => void;
+  onPatchHolding: (id: string, patch: Partial<Pick<Holding, 'accountId'>>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm';
+
+export const AccountSettings: React.FC<AccountSettingsProps> = ({ accounts, feeProfiles, holdings, onUpdateAccounts, onPatchHolding }) => {
+  const updateAccount = (id: string, updates: Partial<Account>) => {
+    onUpdateAccounts(accounts.map(a => (a.id === id ? { ...a, ...updates } : a)));
+  };
+
+  const handleAdd = () => {
+    onUpdateAccounts([
+      ...accounts,
+      {
+        id: Date.now().toString(),
+        name: `帳戶 ${accounts.length + 1}`,
+        broker: '',
+        cash: 0,
+      },
+    ]);
+  };
+
+  const handleDelete = (account: Account) => {
+    const count = holdings.filter(h => accountOf(h) === account.id).length;
+    const defaultName = accounts.find(a => a.id === DEFAULT_ACCOUNT_ID)?.name || '主要帳戶';
+    if (!confirm(`確定刪除「${account.name}」？\n帳戶內的 ${count} 檔持股、交易與股息紀錄及現金將移至「${defaultName}」。`)) return;
+    onUpdateAccounts(accounts.filter(a => a.id !== account.id));
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider">證券帳戶</h4>
+          <button
+            onClick={handleAdd}
+            className="text-xs flex items-center gap-1 text-skin-primary font-bold hover:underline"
+          >
+            <Plus size={12} /> 新增帳戶
+          </button>
+        </div>
+        <p className="text-xs text-skin-text-muted">
+          同一檔 ETF 可分別登記在不同帳戶；帳戶的手續費設定會套用到其持股，持股仍可在「交易成本」分頁個別覆蓋。
+        </p>
+
+        {accounts.map(a => (
+          <div key={a.id} className="bg-skin-base/50 p-4 rounded-xl border border-skin-border space-y-3">
+            <div className="flex items-center gap-2">
+              <Landmark size={16} className="text-skin-primary shrink-0" />
+              <input
+                type="text"
+                className={`${inputClass} font-bold`}
+                defaultValue={a.name}
+                onBlur={e => updateAccount(a.id, { name: e.target.value.trim() || a.name })}
+              />
+              {a.id !== DEFAULT_ACCOUNT_ID && (
+                <button
+                  onClick={() => handleDelete(a)}
+                  className="p-1.5 text-skin-text-muted hover:text-skin-danger rounded-md transition-colors shrink-0"
+                  title="刪除"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">券商</label>
+                <input
+                  type="text"
+                  placeholder="例如: 元大證券"
+                  className={inputClass}
+                  defaultValue={a.broker}
+                  onBlur={e => updateAccount(a.id, { broker: e.target.value.trim() })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">手續費設定</label>
+                <select
+                  className={inputClass}
+                  value={a.feeProfileId || ''}
+                  onChange={e => updateAccount(a.id, { feeProfileId: e.target.value || undefined })}
+                >
+                  <option value="">預設</option>
+                  {feeProfiles.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">交割帳戶現金</label>
+                <input
+                  type="number"
+                  className={`${inputClass} font-mono`}
+                  value={a.cash}
+                  onFocus={e => e.target.select()}
+                  onChange={e => updateAccount(a.id, { cash: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {accounts.length > 1 && holdings.length > 0 && (
+        <div className="space-y-3 pt-4 border-t border-skin-border">
+          <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider">持股所屬帳戶</h4>
+          <div className="border border-skin-border rounded-xl divide-y divide-skin-border">
+            {holdings.map(h => (
+              <div key={h.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <span className="text-sm font-bold font-mono text-skin-text-base">{h.code}</span>
+                  <span className="text-xs text-skin-text-muted ml-2 truncate">{h.name}</span>
+                </div>
+                <select
+                  className="px-2 py-1 bg-skin-card border border-skin-border rounded-lg text-xs focus:ring-2 focus:ring-skin-primary focus:outline-none"
+                  value={accountOf(h)}
+                  onChange={e => onPatchHolding(h.id, { accountId: e.target.value })}
+                >
+                  {accounts.map(a => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
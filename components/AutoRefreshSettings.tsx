@@ -0,0 +1,99 @@
+import React from 'react';
+import { AutoRefreshPreference } from '../types';
+import {
+  AUTO_REFRESH_INTERVALS,
+  AutoRefreshStatus,
+  REGULAR_SESSION,
+  activeSession,
+  backoffMinutes,
+  holidayName,
+  nextSessionStart,
+  toTaipeiTime,
+} from '../utils/marketHours';
+import { Timer } from 'lucide-react';
+
+interface AutoRefreshSettingsProps {
+  settings: AutoRefreshPreference;
+  status: AutoRefreshStatus | null;
+  onUpdateSettings: (settings: AutoRefreshPreference) => void;
+}
+
+const selectClass = 'px-2 py-1 bg-skin-card border border-skin-border rounded-lg text-xs focus:ring-2 focus:ring-skin-primary focus:outline-none';
+
+const formatClock = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const formatTime = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString('zh-TW', { hour12: false, month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' }) : '—';
+
+export const AutoRefreshSettings: React.FC<AutoRefreshSettingsProps> = ({ settings, status, onUpdateSettings }) => {
+  const now = new Date();
+  const session = activeSession(now, settings.includeOddLot);
+  const next = nextSessionStart(now, settings.includeOddLot);
+  const holiday = holidayName(toTaipeiTime(now).date);
+
+  const marketText = session
+    ? `${session.label}時段進行中 (至 ${formatClock(session.close)})`
+    : `休市中${holiday ? ` (${holiday})` : ''}，下次開盤 ${next ? `${formatTime(next.at.toISOString())} ${next.session.label}` : '—'}`;
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider flex items-center gap-2">
+        <Timer size={14} /> 盤中自動更新
+      </h4>
+      <p className="text-xs text-skin-text-muted">
+        只在交易日的 {formatClock(REGULAR_SESSION.open)}–{formatClock(REGULAR_SESSION.close)} 一般交易時段 (可含盤後零股) 定時更新報價，
+        週末與休市日不更新。報價來源連續失敗時會自動拉長間隔。
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer font-bold text-skin-text-base">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={() => onUpdateSettings({ ...settings, enabled: !settings.enabled })}
+            className="accent-skin-primary"
+          />
+          啟用自動更新
+        </label>
+        <label className="flex items-center gap-2 text-xs text-skin-text-muted">
+          每
+          <select
+            className={selectClass}
+            value={settings.intervalMinutes}
+            onChange={e => onUpdateSettings({ ...settings, intervalMinutes: Number(e.target.value) })}
+          >
+            {AUTO_REFRESH_INTERVALS.map(m => (
+              <option key={m} value={m}>{m} 分鐘</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-skin-text-muted cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.includeOddLot}
+            onChange={() => onUpdateSettings({ ...settings, includeOddLot: !settings.includeOddLot })}
+            className="accent-skin-primary"
+          />
+          包含盤後零股時段
+        </label>
+      </div>
+
+      <div className="bg-skin-base/50 p-4 rounded-xl border border-skin-border space-y-1 text-xs">
+        <p className="font-bold text-skin-text-base">{marketText}</p>
+        {settings.enabled && status && (
+          <>
+            <p className="text-skin-text-muted">
+              最近更新 {formatTime(status.lastRunAt)} · 下次檢查 {formatTime(status.nextRunAt)}
+            </p>
+            {status.failures > 0 && (
+              <p className="text-skin-danger truncate" title={status.lastError || undefined}>
+                連續失敗 {status.failures} 次，間隔暫時拉長為 {backoffMinutes(settings.intervalMinutes, status.failures)} 分鐘
+                {status.lastError ? `：${status.lastError}` : ''}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
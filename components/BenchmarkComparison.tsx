@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, Legend, ReferenceLine } from 'recharts';
+import { Benchmark, PriceHistory, ThemeColors } from '../types';
+import { BENCHMARK_PRESETS } from '../constants';
+import { GrowthPath, formatReturn } from '../utils/performance';
+import { DividendsPerShare, compareWithBenchmark, formatBenchmarkWeights, parseBenchmarkWeights } from '../utils/benchmark';
+import { Scale, AlertTriangle, Check, X, Edit2 } from 'lucide-react';
+
+interface BenchmarkComparisonProps {
+  growthPath: GrowthPath | null;
+  benchmark: Benchmark;
+  priceHistory: PriceHistory;
+  dividendsPerShare: DividendsPerShare;
+  theme: 'light' | 'dark' | 'contrast';
+  customColors: ThemeColors;
+  onUpdateBenchmark?: (benchmark: Benchmark) => void;
+}
+
+const RANGE_PRESETS: { id: string; label: string; months?: number; ytd?: boolean }[] = [
+  { id: '3M', label: '3月', months: 3 },
+  { id: 'YTD', label: '今年', ytd: true },
+  { id: '1Y', label: '1年', months: 12 },
+  { id: 'ALL', label: '全部' },
+];
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+export const BenchmarkComparison: React.FC<BenchmarkComparisonProps> = ({
+  growthPath,
+  benchmark,
+  priceHistory,
+  dividendsPerShare,
+  theme,
+  customColors,
+  onUpdateBenchmark,
+}) => {
+  const today = toDateString(new Date());
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState(today);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState(benchmark.name);
+  const [draftWeights, setDraftWeights] = useState(formatBenchmarkWeights(benchmark.weights));
+
+  const gridColor = theme === 'light' ? '#f3f4f6' : (theme === 'contrast' ? '#333333' : '#334155');
+  const tooltipStyle = {
+    backgroundColor: theme === 'light' ? '#ffffff' : (theme === 'contrast' ? '#000000' : '#1e293b'),
+    borderColor: theme === 'light' ? '#e5e7eb' : (theme === 'contrast' ? '#ffffff' : '#334155'),
+    color: theme === 'light' ? '#374151' : '#f3f4f6',
+    borderRadius: 12,
+    fontSize: 12,
+  };
+
+  const applyPreset = (preset: typeof RANGE_PRESETS[number]) => {
+    const start = new Date();
+    if (preset.months) start.setMonth(start.getMonth() - preset.months);
+    if (preset.ytd) start.setMonth(0, 1);
+    setFrom(preset.months || preset.ytd ? toDateString(start) : '');
+    setTo(today);
+  };
+
+  const comparison = useMemo(() => {
+    if (!growthPath) return null;
+    return compareWithBenchmark(growthPath, benchmark, priceHistory, dividendsPerShare, from || growthPath.since, to || today);
+  }, [growthPath, benchmark, priceHistory, dividendsPerShare, from, to, today]);
+
+  const parsedWeights = parseBenchmarkWeights(draftWeights);
+  const handleSave = () => {
+    if (!parsedWeights || !onUpdateBenchmark) return;
+    onUpdateBenchmark({ name: draftName.trim() || formatBenchmarkWeights(parsedWeights), weights: parsedWeights });
+    setIsEditing(false);
+  };
+
+  const metricClass = (value: number | null) => (value === null ? 'text-skin-text-muted' : value >= 0 ? 'text-skin-success' : 'text-skin-danger');
+
+  return (
+    <div className="bg-skin-card p-6 rounded-xl shadow-sm border border-skin-border space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-skin-text-base flex items-center gap-2">
+            <Scale size={18} className="text-skin-primary" />
+            績效比較：{benchmark.name}
+            {onUpdateBenchmark && !isEditing && (
+              <button
+                onClick={() => { setDraftName(benchmark.name); setDraftWeights(formatBenchmarkWeights(benchmark.weights)); setIsEditing(true); }}
+                className="p-1 text-skin-text-muted hover:text-skin-primary" title="變更比較基準">
+                <Edit2 size={14} />
+              </button>
+            )}
+          </h3>
+          <p className="text-xs text-skin-text-muted">組合以時間加權計算 (排除資金進出)，基準為同日投入、股息再投入的買進持有組合</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex bg-skin-base p-0.5 rounded-lg border border-skin-border">
+            {RANGE_PRESETS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => applyPreset(p)}
+                className="px-2.5 py-1 text-xs font-bold rounded-md text-skin-text-muted hover:text-skin-text-base transition-all"
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="date"
+            value={from || growthPath?.since || ''}
+            max={to}
+            onChange={e => setFrom(e.target.value)}
+            className="px-2 py-1 bg-skin-base border border-skin-border rounded-lg text-xs font-mono focus:outline-none focus:ring-1 focus:ring-skin-primary"
+          />
+          <span className="text-xs text-skin-text-muted">~</span>
+          <input
+            type="date"
+            value={to}
+            max={today}
+            onChange={e => setTo(e.target.value)}
+            className="px-2 py-1 bg-skin-base border border-skin-border rounded-lg text-xs font-mono focus:outline-none focus:ring-1 focus:ring-skin-primary"
+          />
+        </div>
+      </div>
+
+      {isEditing && (
+        <div className="bg-skin-base/50 border border-skin-border rounded-xl p-4 space-y-3 animate-fade-in">
+          <div className="flex flex-wrap gap-2">
+            {BENCHMARK_PRESETS.map(p => (
+              <button
+                key={p.name}
+                onClick={() => { setDraftName(p.name); setDraftWeights(formatBenchmarkWeights(p.weights)); }}
+                className="px-2.5 py-1 text-xs font-bold rounded-full border border-skin-border bg-skin-card text-skin-text-muted hover:text-skin-primary hover:border-skin-primary"
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-skin-text-muted mb-1">名稱</label>
+              <input
+                type="text"
+                value={draftName}
+                onChange={e => setDraftName(e.target.value)}
+                className="w-full px-2 py-1.5 bg-skin-card border border-skin-border rounded-lg text-sm focus:ring-2 focus:ring-skin-primary focus:outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-skin-text-muted mb-1">成分與權重 (代號:權重, …)</label>
+              <input
+                type="text"
+                value={draftWeights}
+                placeholder="0050:60, 00679B:40"
+                onChange={e => setDraftWeights(e.target.value)}
+                className="w-full px-2 py-1.5 bg-skin-card border border-skin-border rounded-lg text-sm font-mono focus:ring-2 focus:ring-skin-primary focus:outline-none"
+              />
+            </div>
+          </div>
+          {!parsedWeights && <p className="text-xs text-skin-danger font-bold">格式錯誤，例如：0050:60, 00679B:40</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsEditing(false)} className="px-3 py-1.5 text-xs font-bold text-skin-text-muted hover:text-skin-text-base rounded-lg flex items-center gap-1">
+              <X size={14} /> 取消
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!parsedWeights}
+              className="px-4 py-1.5 bg-skin-primary text-skin-primary-fg rounded-lg text-xs font-bold hover:opacity-90 disabled:opacity-50 flex items-center gap-1 shadow-sm"
+            >
+              <Check size={14} /> 儲存基準
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!comparison ? (
+        <div className="h-[200px] flex items-center justify-center text-sm text-skin-text-muted text-center">
+          所選區間內的資料點不足，請擴大日期區間或待每日快照累積
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <Metric label="組合報酬" value={formatReturn(comparison.portfolioReturn)} className={metricClass(comparison.portfolioReturn)} />
+            <Metric label="基準報酬" value={formatReturn(comparison.benchmarkReturn)} className={metricClass(comparison.benchmarkReturn)} />
+            <Metric label="超額報酬" value={formatReturn(comparison.excessReturn)} className={metricClass(comparison.excessReturn)} />
+            <Metric
+              label={`追蹤差異 (${comparison.trackingDifferenceAnnualized ? '年化' : '累計'})`}
+              value={formatReturn(comparison.trackingDifference)}
+              className={metricClass(comparison.trackingDifference)}
+            />
+            <Metric
+              label="追蹤誤差 (年化)"
+              value={comparison.trackingError !== null ? `${comparison.trackingError.toFixed(2)}%` : '—'}
+              className="text-skin-text-base"
+            />
+          </div>
+
+          {comparison.missingCodes.length > 0 && (
+            <p className="text-xs text-yellow-600 flex items-center gap-1">
+              <AlertTriangle size={12} />
+              {comparison.from} 起沒有 {comparison.missingCodes.join('、')} 的價格紀錄，無法計算基準；請縮短區間或先將該標的加入追蹤。
+            </p>
+          )}
+
+          <div className="h-[280px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={comparison.series} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} axisLine={false} tickLine={false} minTickGap={24} />
+                <YAxis tick={{ fontSize: 11, fill: '#6b7280' }} axisLine={false} tickLine={false} width={40} domain={['auto', 'auto']} />
+                <ReferenceLine y={100} stroke={gridColor} strokeDasharray="4 4" />
+                <RechartsTooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: any) => (typeof value === 'number' ? value.toFixed(2) : value)}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Line type="monotone" dataKey="portfolio" name="我的組合" stroke={customColors.primary} dot={false} strokeWidth={2} />
+                <Line type="monotone" dataKey="benchmark" name={benchmark.name} stroke={customColors.bond} dot={false} strokeWidth={2} strokeDasharray="5 3" connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const Metric = ({ label, value, className }: { label: string; value: string; className: string }) => (
+  <div className="bg-skin-base/50 border border-skin-border rounded-lg p-3">
+    <p className="text-[10px] text-skin-text-muted">{label}</p>
+    <p className={`text-sm font-bold font-mono ${className}`}>{value}</p>
+  </div>
+);
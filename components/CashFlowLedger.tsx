@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import { Account, CashFlow } from '../types';
+import { ALL_ACCOUNTS } from '../constants';
+import { accountOf } from '../utils/accounts';
+import { formatCurrency } from '../utils/calculations';
+import { ArrowLeftRight, X, Plus, Trash2 } from 'lucide-react';
+
+interface CashFlowLedgerProps {
+  flows: CashFlow[];
+  accounts: Account[];
+  activeAccountId: string;
+  onUpdateFlows: (flows: CashFlow[]) => void;
+  onClose: () => void;
+}
+
+const emptyForm = () => ({
+  direction: 'in' as 'in' | 'out',
+  date: new Date().toISOString().split('T')[0],
+  amount: '',
+  note: ''
+});
+
+export const CashFlowLedger: React.FC<CashFlowLedgerProps> = ({ flows, accounts, activeAccountId, onUpdateFlows, onClose }) => {
+  const [formData, setFormData] = useState(emptyForm);
+  const [accountId, setAccountId] = useState(activeAccountId === ALL_ACCOUNTS ? accounts[0]?.id : activeAccountId);
+  const [error, setError] = useState('');
+
+  const sortedFlows = useMemo(() => [...flows].sort((a, b) => b.date.localeCompare(a.date)), [flows]);
+  const deposited = flows.filter(f => f.amount > 0).reduce((sum, f) => sum + f.amount, 0);
+  const withdrawn = flows.filter(f => f.amount < 0).reduce((sum, f) => sum - f.amount, 0);
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name || id;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(formData.amount);
+    if (!amount || amount <= 0) {
+      setError('請輸入有效的金額');
+      return;
+    }
+    const newFlow: CashFlow = {
+      id: Date.now().toString(),
+      date: formData.date,
+      amount: formData.direction === 'in' ? amount : -amount,
+      note: formData.note,
+      accountId
+    };
+    onUpdateFlows([...flows, newFlow]);
+    setFormData(prev => ({ ...emptyForm(), direction: prev.direction, date: prev.date }));
+    setError('');
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('確定要刪除這筆存提款紀錄嗎？帳戶現金將一併回沖。')) {
+      onUpdateFlows(flows.filter(f => f.id !== id));
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-skin-base border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm font-mono";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-skin-card w-full max-w-2xl rounded-xl shadow-xl border border-skin-border overflow-hidden transform transition-all max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-skin-border flex justify-between items-center bg-skin-base shrink-0">
+          <h3 className="font-bold flex items-center gap-2 text-skin-text-base">
+            <ArrowLeftRight size={18} className="text-skin-primary" /> 存提款紀錄
+          </h3>
+          <button onClick={onClose} className="text-skin-text-muted hover:text-skin-text-base">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5 flex-1">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-skin-base/50 p-3 rounded-lg border border-skin-border">
+              <p className="text-[10px] text-skin-text-muted">累計存入</p>
+              <p className="font-bold font-mono text-skin-text-base">${formatCurrency(deposited)}</p>
+            </div>
+            <div className="bg-skin-base/50 p-3 rounded-lg border border-skin-border">
+              <p className="text-[10px] text-skin-text-muted">累計提領</p>
+              <p className="font-bold font-mono text-skin-text-base">${formatCurrency(withdrawn)}</p>
+            </div>
+            <div className="bg-skin-base/50 p-3 rounded-lg border border-skin-border">
+              <p className="text-[10px] text-skin-text-muted">淨投入</p>
+              <p className="font-bold font-mono text-skin-text-base">${formatCurrency(deposited - withdrawn)}</p>
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit} className="bg-skin-base/50 p-4 rounded-xl border border-skin-border space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex bg-skin-card p-1 rounded-lg border border-skin-border">
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, direction: 'in' })}
+                  className={`px-4 py-1 text-xs font-bold rounded-md transition-all ${formData.direction === 'in' ? 'bg-skin-base text-skin-primary shadow-sm' : 'text-skin-text-muted hover:text-skin-text-base'}`}
+                >
+                  存入
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, direction: 'out' })}
+                  className={`px-4 py-1 text-xs font-bold rounded-md transition-all ${formData.direction === 'out' ? 'bg-skin-base text-skin-primary shadow-sm' : 'text-skin-text-muted hover:text-skin-text-base'}`}
+                >
+                  提領
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                {activeAccountId === ALL_ACCOUNTS && accounts.length > 1 && (
+                  <select
+                    className="px-3 py-1.5 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-xs"
+                    value={accountId}
+                    onChange={e => setAccountId(e.target.value)}
+                  >
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                )}
+                <input
+                  type="date"
+                  required
+                  className="px-3 py-1.5 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-xs font-mono"
+                  value={formData.date}
+                  onChange={e => setFormData({ ...formData, date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="number"
+                min="0"
+                placeholder="金額"
+                className={`${inputClass} sm:w-40`}
+                value={formData.amount}
+                onChange={e => setFormData({ ...formData, amount: e.target.value })}
+              />
+              <input
+                type="text"
+                placeholder="備註 (選填)"
+                className="flex-1 px-3 py-2 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm"
+                value={formData.note}
+                onChange={e => setFormData({ ...formData, note: e.target.value })}
+              />
+              <button
+                type="submit"
+                className="px-5 py-2 bg-skin-primary text-skin-primary-fg rounded-lg text-sm font-bold hover:opacity-90 flex items-center justify-center gap-2 shadow-sm transition-all"
+              >
+                <Plus size={16} /> 新增
+              </button>
+            </div>
+            {error && <p className="text-xs text-skin-danger font-bold">{error}</p>}
+            <p className="text-[10px] text-skin-text-muted">
+              存提款會同步增減帳戶現金。XIRR 與 TWR 以存提款為組合的資金進出，閒置現金一併計入報酬；
+              買進金額超過當時現金時，不足部分視為當日存入。
+            </p>
+          </form>
+
+          <div className="border border-skin-border rounded-xl overflow-hidden">
+            <table className="w-full text-xs">
+              <thead className="bg-skin-base text-skin-text-muted">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">日期</th>
+                  <th className="px-3 py-2 text-left font-medium">帳戶</th>
+                  <th className="px-3 py-2 text-right font-medium">金額</th>
+                  <th className="px-3 py-2 text-left font-medium hidden sm:table-cell">備註</th>
+                  <th className="px-3 py-2 w-8"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-skin-border">
+                {sortedFlows.length > 0 ? sortedFlows.map(f => (
+                  <tr key={f.id} className="hover:bg-skin-base/50 transition-colors group">
+                    <td className="px-3 py-2 font-mono text-skin-text-base">{f.date}</td>
+                    <td className="px-3 py-2 text-skin-text-muted">{accountName(accountOf(f))}</td>
+                    <td className="px-3 py-2 text-right font-mono font-bold text-skin-text-base">
+                      {f.amount >= 0 ? '+' : '-'}{formatCurrency(Math.abs(f.amount))}
+                    </td>
+                    <td className="px-3 py-2 hidden sm:table-cell">
+                      <div className="max-w-[160px] truncate text-skin-text-muted" title={f.note}>{f.note || '-'}</div>
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      <button
+                        onClick={() => handleDelete(f.id)}
+                        className="text-skin-text-muted hover:text-skin-danger opacity-0 group-hover:opacity-100 transition-opacity p-1"
+                        title="刪除"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-8 text-center text-skin-text-muted">
+                      尚無存提款紀錄，請由上方登記入金
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
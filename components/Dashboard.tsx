@@ -3,10 +3,19 @@ import {
   PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend,
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Sector
 } from 'recharts';
-import { AssetType, PortfolioSummary, CalculatedHolding, ThemeColors, Holding } from '../types';
+import { AssetType, PortfolioSummary, CalculatedHolding, ThemeColors, Holding, Transaction, AllocationTarget, TradeType, DriftBreachEvent, InstrumentCategory, Account, PortfolioSnapshot, Benchmark, PriceHistory, Quote, CashFlow } from '../types';
+import { ALL_ACCOUNTS } from '../constants';
 import { formatCurrency, formatPercent } from '../utils/calculations';
-import { TrendingUp, TrendingDown, Wallet, PieChart as PieChartIcon, Edit2, Info, Eye, EyeOff, RefreshCw, Coins, Target, AlertTriangle, Calculator, ArrowRight, ArrowLeftRight, PiggyBank } from 'lucide-react';
+import { calculateRebalance, calculateHoldingGaps, formatAllocationLabel, planRebalanceOrders, LotMode, DriftStatus } from '../utils/rebalance';
+import { TrendingUp, TrendingDown, Wallet, PieChart as PieChartIcon, Edit2, Info, Eye, EyeOff, RefreshCw, Coins, Target, AlertTriangle, Calculator, ArrowRight, ArrowLeftRight, PiggyBank, History, ClipboardList, Bell, CheckCircle2, Trash2 } from 'lucide-react';
 import { HoldingsTable } from './HoldingsTable';
+import { TargetSettings } from './TargetSettings';
+import { NetWorthHistory } from './NetWorthHistory';
+import { BenchmarkComparison } from './BenchmarkComparison';
+import { CashFlowLedger } from './CashFlowLedger';
+import { CATEGORY_LABELS, findUpcomingRateChange } from '../utils/tax';
+import { PortfolioPerformance, formatReturn } from '../utils/performance';
+import { DividendsPerShare } from '../utils/benchmark';
 
 interface DashboardProps {
   summary: PortfolioSummary;
@@ -14,11 +23,29 @@ interface DashboardProps {
   cash: number;
   theme: 'light' | 'dark' | 'contrast';
   customColors: ThemeColors;
+  transactions: Transaction[];
+  accounts?: Account[];
+  activeAccountId?: string;
+  cashFlows?: CashFlow[];
+  allocationTarget: AllocationTarget;
+  driftStatuses: DriftStatus[];
+  driftBreachLog: DriftBreachEvent[];
+  snapshots?: PortfolioSnapshot[];
+  performance?: PortfolioPerformance;
+  benchmark?: Benchmark;
+  priceHistory?: PriceHistory;
+  dividendsPerShare?: DividendsPerShare;
+  onUpdateBenchmark?: (benchmark: Benchmark) => void;
   onUpdateHolding: (id: string, field: 'avgPrice' | 'currentPrice' | 'quantity', value: number) => void;
+  onUpdateAllocationTarget?: (target: AllocationTarget) => void;
+  onClearDriftLog?: () => void;
+  onUpdateTransactions?: (transactions: Transaction[]) => void;
   onAddHolding?: (holding: Holding) => void;
   onDeleteHolding?: (id: string) => void;
-  onUpdateCash: (value: number) => void;
+  onUpdateCash?: (value: number) => void; // 合併檢視多個帳戶時不可直接編輯現金
+  onUpdateCashFlows?: (flows: CashFlow[]) => void;
   onRefreshPrices?: () => void;
+  onFetchQuote?: (code: string) => Promise<Quote | null>;
   isUpdatingPrices?: boolean;
 }
 
@@ -28,17 +55,43 @@ export const Dashboard: React.FC<DashboardProps> = ({
   cash, 
   theme, 
   customColors, 
+  transactions,
+  accounts,
+  activeAccountId,
+  cashFlows = [],
+  allocationTarget,
+  driftStatuses,
+  driftBreachLog,
+  snapshots = [],
+  performance,
+  benchmark,
+  priceHistory = {},
+  dividendsPerShare = {},
+  onUpdateBenchmark,
   onUpdateHolding, 
+  onUpdateAllocationTarget,
+  onClearDriftLog,
+  onUpdateTransactions,
   onAddHolding, 
   onDeleteHolding, 
   onUpdateCash,
+  onUpdateCashFlows,
   onRefreshPrices,
+  onFetchQuote,
   isUpdatingPrices
 }) => {
   const [activeIndex, setActiveIndex] = useState<number>(-1);
   const [hiddenSlices, setHiddenSlices] = useState<string[]>([]);
   const [isCashExcluded, setIsCashExcluded] = useState(false); // Toggle for Pie Chart
   const [showRebalanceModal, setShowRebalanceModal] = useState(false);
+  const [showCashFlows, setShowCashFlows] = useState(false);
+  const [isEditingTarget, setIsEditingTarget] = useState(false);
+  const [plannerUseCash, setPlannerUseCash] = useState(true);
+  const [plannerLotMode, setPlannerLotMode] = useState<LotMode>('board');
+
+  const targetStockRatio = allocationTarget.stockRatio;
+  const targetBondRatio = 100 - allocationTarget.stockRatio;
+  const allocationLabel = formatAllocationLabel(allocationTarget);
 
   // Dynamic Chart Colors based on Custom Colors & Theme
   const CHART_COLORS = {
@@ -103,58 +156,39 @@ export const Dashboard: React.FC<DashboardProps> = ({
     setActiveIndex(-1);
   };
 
-  // Logic for Stock/Bond deviation (Target 60/40)
-  const stockGap = summary.stockRatio - 60;
+  // Logic for Stock/Bond deviation from the configured target and its tolerance band
+  const stockGap = summary.stockRatio - targetStockRatio;
+  const stockDrift = driftStatuses.find(s => s.scope === 'class' && s.key === AssetType.STOCK);
+  const holdingDrifts = useMemo(() => {
+    return new Map<string, DriftStatus>(driftStatuses.filter(s => s.scope === 'holding').map(s => [s.key, s]));
+  }, [driftStatuses]);
+  const breachedStatuses = driftStatuses.filter(s => s.breached);
+  const breachedHoldings = breachedStatuses.filter(s => s.scope === 'holding');
+  const breachedCount = breachedStatuses.length;
+  const recentBreachEvents = useMemo(() => [...driftBreachLog].reverse().slice(0, 10), [driftBreachLog]);
+
+  // Tax rate changes (e.g. the bond ETF exemption sunset) coming up within a year for categories held
+  const upcomingTaxChanges = useMemo(() => {
+    const today = new Date().toISOString().split('T')[0];
+    const horizon = new Date();
+    horizon.setFullYear(horizon.getFullYear() + 1);
+    const horizonDate = horizon.toISOString().split('T')[0];
+    return Array.from(new Set<InstrumentCategory>(holdings.filter(h => h.quantity > 0).map(h => h.category)))
+      .map(category => ({ category, change: findUpcomingRateChange(category, today, horizonDate) }))
+      .filter(c => c.change !== null);
+  }, [holdings]);
+
+  const formatTolerance = (status: DriftStatus) => isFinite(status.tolerance) ? `±${status.tolerance.toFixed(1)}%` : '未設定';
   
   // Logic for Market Drop Signal
   const isMarketDropOpportunity = summary.totalRoi <= -10;
   
   // Rebalancing Logic
-  const rebalancingCalculations = useMemo(() => {
-      const investedTotal = summary.stockValue + summary.bondValue;
-      if (investedTotal === 0) return { action: 'none', amount: 0, text: '無投資部位' };
-
-      const targetStockValue = investedTotal * 0.6;
-      const diff = targetStockValue - summary.stockValue; // + means Buy Stock, - means Sell Stock (or Buy Bond)
-      
-      // Strategy 1: Switch (Sell A to Buy B)
-      const switchAmount = Math.abs(diff);
-      const switchAction = diff > 0 ? 'buy_stock' : 'buy_bond';
-
-      // Strategy 2: Inflow (Use Cash to Buy Underweight)
-      // Logic: New Total * 0.6 = (CurrentStock + X). Solve for X?
-      // Simpler: Just buy the shortfall directly? No, that changes the denominator.
-      // Formula: (S + x) / (Total + x) = 0.6
-      // S + x = 0.6T + 0.6x => 0.4x = 0.6T - S
-      // x = (0.6 * Total - Stock) / 0.4  (If buying stock)
-      // OR x = (0.4 * Total - Bond) / 0.6 (If buying bond)
-      
-      let inflowAmount = 0;
-      let inflowType = '';
-      
-      if (diff > 0) {
-          // Stock is low (e.g. 50%). Need to buy Stock.
-          // x = (0.6 * Total - Stock) / (1 - 0.6) = (TargetStock - Stock) / 0.4
-          inflowAmount = (targetStockValue - summary.stockValue) / 0.4;
-          inflowType = 'stock';
-      } else {
-          // Bond is low (Stock is high). Need to buy Bond.
-          // Target Bond = 0.4. Current Bond.
-          // x = (0.4 * Total - Bond) / (1 - 0.4) = (TargetBond - Bond) / 0.6
-          const targetBondValue = investedTotal * 0.4;
-          inflowAmount = (targetBondValue - summary.bondValue) / 0.6;
-          inflowType = 'bond';
-      }
-
-      return {
-          investedTotal,
-          diff,
-          switchAmount,
-          switchAction,
-          inflowAmount,
-          inflowType
-      };
-  }, [summary]);
+  const rebalancingCalculations = useMemo(() => calculateRebalance(summary, allocationTarget), [summary, allocationTarget]);
+  const holdingGaps = useMemo(() => calculateHoldingGaps(holdings, allocationTarget), [holdings, allocationTarget]);
+  const rebalancePlan = useMemo(() => {
+    return planRebalanceOrders(holdings, allocationTarget, cash, { useCash: plannerUseCash, lotMode: plannerLotMode });
+  }, [holdings, allocationTarget, cash, plannerUseCash, plannerLotMode]);
 
   
   // Custom Active Shape for the Pie Chart with Drop Shadow and Stroke
@@ -340,6 +374,43 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 }`}>
                 {summary.totalRoi > 0 ? '+' : ''}{summary.totalRoi.toFixed(2)}%
                 </span>
+                <span className="text-[10px] text-skin-text-muted">未實現</span>
+            </div>
+
+            {/* Money- and Time-Weighted Returns */}
+            {performance && (
+                <div className="mt-3 pt-2 border-t border-skin-border/50 grid grid-cols-2 gap-2">
+                    <div title="資金加權報酬率：考量每筆存提款的時間與金額 (含閒置現金)，年化">
+                        <p className="text-[10px] text-skin-text-muted">XIRR (年化)</p>
+                        <p className={`text-sm font-bold font-mono ${(performance.portfolio.xirr ?? 0) >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>
+                            {formatReturn(performance.portfolio.xirr)}
+                        </p>
+                    </div>
+                    <div title={`時間加權報酬率：排除資金進出時點的影響${performance.portfolio.since ? `，自 ${performance.portfolio.since} 起` : ''}`}>
+                        <p className="text-[10px] text-skin-text-muted">TWR ({performance.portfolio.twrAnnualized ? '年化' : '累計'})</p>
+                        <p className={`text-sm font-bold font-mono ${(performance.portfolio.twr ?? 0) >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>
+                            {formatReturn(performance.portfolio.twr)}
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {/* Realized P&L by Year */}
+            <div className="mt-3 pt-2 border-t border-skin-border/50 space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                    <span className="text-skin-text-muted">已實現損益</span>
+                    <span className={`font-bold font-mono ${summary.realizedProfit >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>
+                        {summary.realizedProfit > 0 ? '+' : ''}{formatCurrency(summary.realizedProfit)}
+                    </span>
+                </div>
+                {summary.realizedByYear.slice(0, 3).map(row => (
+                    <div key={row.year} className="flex items-center justify-between text-[10px] font-mono text-skin-text-muted">
+                        <span>{row.year}</span>
+                        <span className={row.profit >= 0 ? 'text-skin-success' : 'text-skin-danger'}>
+                            {row.profit > 0 ? '+' : ''}{formatCurrency(row.profit)}
+                        </span>
+                    </div>
+                ))}
             </div>
           </div>
         </div>
@@ -348,8 +419,13 @@ export const Dashboard: React.FC<DashboardProps> = ({
         <div className={`${cardBaseStyle} flex flex-col`} style={getGradientStyle(customColors.bond)}>
           <div className="p-6 flex-1 flex flex-col">
             <div className="flex items-center justify-between mb-3">
-                <h3 className="text-skin-text-muted text-sm font-medium">股債配置 (60/40)</h3>
+                <h3 className="text-skin-text-muted text-sm font-medium">股債配置 ({allocationLabel})</h3>
                 <div className="flex items-center gap-2">
+                     {breachedCount > 0 && (
+                        <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400 flex items-center gap-1" title="超出容忍區間">
+                            <Bell size={10} /> {breachedCount}
+                        </span>
+                     )}
                      <button 
                         onClick={() => setShowRebalanceModal(true)}
                         className="p-1.5 text-xs font-bold text-skin-primary bg-skin-primary/10 hover:bg-skin-primary/20 rounded-md transition-colors flex items-center gap-1"
@@ -381,8 +457,20 @@ export const Dashboard: React.FC<DashboardProps> = ({
                             <div style={{ width: `${summary.stockRatio}%`, backgroundColor: customColors.stock }} className="h-full transition-all duration-700 ease-out hover:opacity-90" title={`股票: ${summary.stockRatio.toFixed(1)}%`}></div>
                             <div style={{ width: `${summary.bondRatio}%`, backgroundColor: customColors.bond }} className="h-full transition-all duration-700 ease-out hover:opacity-90" title={`債券: ${summary.bondRatio.toFixed(1)}%`}></div>
                             
-                            {/* Target Marker Overlay (60% Line) */}
-                            <div className="absolute top-0 bottom-0 w-0.5 bg-white mix-blend-overlay z-10" style={{ left: '60%' }} title="目標 60%"></div>
+                            {/* Tolerance Band Overlay */}
+                            {stockDrift && isFinite(stockDrift.tolerance) && (
+                                <div 
+                                    className="absolute top-0 bottom-0 border-x border-dashed border-white/80 bg-white/15 z-10"
+                                    style={{ 
+                                        left: `${Math.max(0, targetStockRatio - stockDrift.tolerance)}%`, 
+                                        width: `${Math.min(100, targetStockRatio + stockDrift.tolerance) - Math.max(0, targetStockRatio - stockDrift.tolerance)}%` 
+                                    }}
+                                    title={`容忍區間 ${formatTolerance(stockDrift)}`}
+                                ></div>
+                            )}
+
+                            {/* Target Marker Overlay */}
+                            <div className="absolute top-0 bottom-0 w-0.5 bg-white mix-blend-overlay z-10" style={{ left: `${targetStockRatio}%` }} title={`目標 ${targetStockRatio}%`}></div>
                         </div>
                     </div>
 
@@ -393,28 +481,40 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                 <div className="w-1.5 h-1.5 rounded-full bg-skin-text-muted"></div> 目標
                             </span>
                             <div className="flex items-center gap-2 text-skin-text-muted">
-                                <span>60.0%</span>
+                                <span>{targetStockRatio.toFixed(1)}%</span>
                                 <span className="text-skin-border text-[10px]">|</span>
-                                <span>40.0%</span>
+                                <span>{targetBondRatio.toFixed(1)}%</span>
                             </div>
                         </div>
                         <div className="w-full h-2 bg-skin-base rounded-full overflow-hidden flex">
-                            <div style={{ width: `60%`, backgroundColor: customColors.stock }} className="h-full"></div>
-                            <div style={{ width: `40%`, backgroundColor: customColors.bond }} className="h-full"></div>
+                            <div style={{ width: `${targetStockRatio}%`, backgroundColor: customColors.stock }} className="h-full"></div>
+                            <div style={{ width: `${targetBondRatio}%`, backgroundColor: customColors.bond }} className="h-full"></div>
                         </div>
                     </div>
 
                 </div>
             </div>
 
-            <div className="text-xs mt-4 pt-3 border-t border-skin-border flex items-center justify-between">
-                <span className="text-skin-text-muted">偏離診斷:</span>
-                <span className={`${Math.abs(stockGap) < 2 ? 'text-skin-success' : 'text-skin-danger'} font-bold font-mono`}>
-                    {Math.abs(stockGap) < 1 
-                        ? '配置完美' 
-                        : (stockGap > 0 ? `股票 +${stockGap.toFixed(1)}%` : `債券 +${Math.abs(stockGap).toFixed(1)}%`)
-                    }
-                </span>
+            <div className="text-xs mt-4 pt-3 border-t border-skin-border space-y-1">
+                <div className="flex items-center justify-between">
+                    <span className="text-skin-text-muted">偏離診斷{stockDrift && ` (${formatTolerance(stockDrift)})`}:</span>
+                    <span className={`${stockDrift?.breached ? 'text-skin-danger' : 'text-skin-success'} font-bold font-mono flex items-center gap-1`}>
+                        {stockDrift?.breached && <AlertTriangle size={12} />}
+                        {Math.abs(stockGap) < 1 
+                            ? '配置完美' 
+                            : (stockGap > 0 ? `股票 +${stockGap.toFixed(1)}%` : `債券 +${Math.abs(stockGap).toFixed(1)}%`)
+                        }
+                        {stockDrift && Math.abs(stockGap) >= 1 && (stockDrift.breached ? ' 超出區間' : ' 區間內')}
+                    </span>
+                </div>
+                {breachedHoldings.length > 0 && (
+                    <div className="flex items-center justify-between">
+                        <span className="text-skin-text-muted">個別標的:</span>
+                        <span className="text-skin-danger font-bold">
+                            {breachedHoldings.map(s => s.key).join('、')} 超出區間
+                        </span>
+                    </div>
+                )}
             </div>
           </div>
         </div>
@@ -434,7 +534,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 <div className="flex items-center justify-between">
                     <h3 className="text-skin-text-muted text-sm font-medium flex items-center gap-2">
                         加碼資金 (現金)
-                        <Edit2 className="w-3 h-3 text-skin-text-muted" />
+                        {onUpdateCash && <Edit2 className="w-3 h-3 text-skin-text-muted" />}
                     </h3>
                     <div className={`p-1 rounded text-xs font-bold ${
                     (summary.cashValue / summary.totalAssets) > 0.1 
@@ -444,18 +544,34 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     {summary.totalAssets > 0 ? ((summary.cashValue / summary.totalAssets) * 100).toFixed(1) : 0}%
                     </div>
                 </div>
-                <div className="mt-2 flex items-center relative">
-                    <span className="text-xl font-bold text-skin-text-base mr-1 absolute left-0 top-1/2 -translate-y-1/2 pointer-events-none">$</span>
-                    <input 
-                        type="number" 
-                        value={cash}
-                        onFocus={(e) => e.target.select()}
-                        onChange={(e) => onUpdateCash(parseFloat(e.target.value) || 0)}
-                        className="text-2xl font-bold text-skin-text-base w-full bg-transparent border-b border-skin-border/50 hover:border-skin-primary focus:border-skin-primary focus:outline-none transition-colors font-mono pl-5 py-1 no-spinner"
-                    />
-                </div>
+                {onUpdateCash ? (
+                    <div className="mt-2 flex items-center relative">
+                        <span className="text-xl font-bold text-skin-text-base mr-1 absolute left-0 top-1/2 -translate-y-1/2 pointer-events-none">$</span>
+                        <input 
+                            type="number" 
+                            value={cash}
+                            onFocus={(e) => e.target.select()}
+                            onChange={(e) => onUpdateCash(parseFloat(e.target.value) || 0)}
+                            className="text-2xl font-bold text-skin-text-base w-full bg-transparent border-b border-skin-border/50 hover:border-skin-primary focus:border-skin-primary focus:outline-none transition-colors font-mono pl-5 py-1 no-spinner"
+                        />
+                    </div>
+                ) : (
+                    <div className="mt-2">
+                        <p className="text-2xl font-bold text-skin-text-base font-mono py-1">${formatCurrency(cash)}</p>
+                        <p className="text-[10px] text-skin-text-muted">{accounts?.length || 0} 個帳戶合計，請切換至單一帳戶修改</p>
+                    </div>
+                )}
             </div>
             
+            {onUpdateCashFlows && (
+                <button
+                    onClick={() => setShowCashFlows(true)}
+                    className="mt-2 text-xs text-skin-text-muted hover:text-skin-primary flex items-center gap-1 transition-colors"
+                >
+                    <ArrowLeftRight size={12} /> 存提款紀錄 ({cashFlows.length})
+                </button>
+            )}
+
             <p className={`text-xs mt-3 pt-2 border-t border-skin-border/30 font-bold flex items-center gap-1 ${isMarketDropOpportunity ? 'text-skin-danger' : 'text-skin-text-muted'}`}>
                 {isMarketDropOpportunity ? <TrendingDown size={14} /> : null}
                 {isMarketDropOpportunity ? '建議分批布局' : '股市跌幅 > 10% 進場準備'}
@@ -623,6 +739,22 @@ export const Dashboard: React.FC<DashboardProps> = ({
         </div>
       </div>
 
+      {/* Net Worth History */}
+      <NetWorthHistory snapshots={snapshots} theme={theme} customColors={customColors} />
+
+      {/* Benchmark Comparison */}
+      {performance && benchmark && (
+        <BenchmarkComparison
+          growthPath={performance.growthPath}
+          benchmark={benchmark}
+          priceHistory={priceHistory}
+          dividendsPerShare={dividendsPerShare}
+          theme={theme}
+          customColors={customColors}
+          onUpdateBenchmark={onUpdateBenchmark}
+        />
+      )}
+
       {/* Holdings Table Section */}
       <div className="space-y-4">
         {/* Info Alert */}
@@ -633,8 +765,14 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 </div>
                 <div className="ml-3">
                     <p className="text-sm text-skin-text-base opacity-80">
-                        提示：表格內的數值可直接點擊編輯，並會自動計算手續費與稅金。
+                        提示：市價可直接點擊編輯；股數與均價由交易紀錄推算，請點選 <History className="inline w-3.5 h-3.5 -mt-0.5" /> 新增或修正買賣紀錄。
                     </p>
+                    {upcomingTaxChanges.map(({ category, change }) => (
+                        <p key={category} className="text-xs text-yellow-700 dark:text-yellow-400 mt-1 flex items-center gap-1">
+                            <AlertTriangle size={12} className="shrink-0" />
+                            {CATEGORY_LABELS[category]}證交稅率將於 {change!.date} 起調整為 {(change!.rate * 100).toFixed(1)}%，目前現值仍以今日稅率估算。
+                        </p>
+                    ))}
                 </div>
             </div>
         </div>
@@ -642,15 +780,31 @@ export const Dashboard: React.FC<DashboardProps> = ({
         <HoldingsTable 
             holdings={holdings} 
             customColors={customColors}
+            transactions={transactions}
+            performance={performance?.holdings}
+            accounts={accounts}
+            activeAccountId={activeAccountId}
             onUpdateHolding={onUpdateHolding}
+            onUpdateTransactions={onUpdateTransactions}
             onAddHolding={onAddHolding}
             onDeleteHolding={onDeleteHolding}
             onRefreshPrices={onRefreshPrices}
+            onFetchQuote={onFetchQuote}
             isUpdatingPrices={isUpdatingPrices}
         />
       </div>
 
       {/* Rebalance Modal */}
+      {showCashFlows && onUpdateCashFlows && (
+        <CashFlowLedger
+          flows={cashFlows}
+          accounts={accounts || []}
+          activeAccountId={activeAccountId || ALL_ACCOUNTS}
+          onUpdateFlows={onUpdateCashFlows}
+          onClose={() => setShowCashFlows(false)}
+        />
+      )}
+
       {showRebalanceModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
            <div className="bg-skin-card w-full max-w-lg rounded-2xl shadow-xl border border-skin-border overflow-hidden transform transition-all flex flex-col">
@@ -659,18 +813,56 @@ export const Dashboard: React.FC<DashboardProps> = ({
                   <Calculator size={20} className="text-skin-primary" />
                   智能再平衡建議
                 </h3>
-                <button onClick={() => setShowRebalanceModal(false)} className="text-skin-text-muted hover:text-skin-text-base">
+                <button onClick={() => { setShowRebalanceModal(false); setIsEditingTarget(false); }} className="text-skin-text-muted hover:text-skin-text-base">
                   <ArrowRight size={20} className="rotate-45" /> {/* Close Icon alternative */}
                 </button>
               </div>
 
               <div className="p-6 space-y-6 overflow-y-auto max-h-[70vh]">
-                 <div className="text-sm text-skin-text-muted bg-skin-base p-3 rounded-lg border border-skin-border">
-                    目標配置為 <strong>股票 60%</strong> / <strong>債券 40%</strong>。以下提供兩種達成平衡的策略建議。
-                 </div>
+                 {isEditingTarget ? (
+                    <TargetSettings
+                        target={allocationTarget}
+                        holdings={holdings}
+                        customColors={customColors}
+                        onSave={(target) => {
+                            onUpdateAllocationTarget?.(target);
+                            setIsEditingTarget(false);
+                        }}
+                        onCancel={() => setIsEditingTarget(false)}
+                    />
+                 ) : (
+                    <div className="text-sm text-skin-text-muted bg-skin-base p-3 rounded-lg border border-skin-border flex items-start justify-between gap-2">
+                        <span>目標配置為 <strong>股票 {targetStockRatio}%</strong> / <strong>債券 {targetBondRatio}%</strong>。以下提供兩種達成平衡的策略建議。</span>
+                        {onUpdateAllocationTarget && (
+                            <button 
+                                onClick={() => setIsEditingTarget(true)}
+                                className="shrink-0 text-xs font-bold text-skin-primary hover:underline flex items-center gap-1"
+                            >
+                                <Target size={12} /> 修改
+                            </button>
+                        )}
+                    </div>
+                 )}
 
-                 {rebalancingCalculations.investedTotal > 0 ? (
+                 {rebalancingCalculations ? (
                     <>
+                        {/* Tolerance Band Verdict */}
+                        {breachedCount > 0 ? (
+                            <div className="text-xs p-3 rounded-lg border border-yellow-200 bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-300 flex items-start gap-2">
+                                <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                                <span>
+                                    {breachedStatuses.map(s => `${s.label} ${s.drift > 0 ? '+' : ''}${s.drift.toFixed(1)}% (${formatTolerance(s)})`).join('、')} 超出容忍區間，建議執行再平衡。
+                                </span>
+                            </div>
+                        ) : (
+                            <div className="text-xs p-3 rounded-lg border border-skin-border bg-skin-base text-skin-text-muted flex items-start gap-2">
+                                <CheckCircle2 size={14} className="shrink-0 mt-0.5 text-skin-success" />
+                                <span>
+                                    所有偏離都在容忍區間內{stockDrift && ` (股債 ${formatTolerance(stockDrift)})`}，依紀律暫不需再平衡；以下試算僅供參考。
+                                </span>
+                            </div>
+                        )}
+
                         {/* Strategy 1: Inflow */}
                         <div className="space-y-3">
                             <h4 className="font-bold text-skin-text-base flex items-center gap-2">
@@ -692,7 +884,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                             ${formatCurrency(rebalancingCalculations.inflowAmount)}
                                         </div>
                                         <p className="text-xs text-skin-text-muted">
-                                            若您有足夠現金，請買入上述金額的 {rebalancingCalculations.inflowType === 'stock' ? '股票 ETF' : '債券 ETF'}，即可將比例拉回 60/40。
+                                            若您有足夠現金，請買入上述金額的 {rebalancingCalculations.inflowType === 'stock' ? '股票 ETF' : '債券 ETF'}，即可將比例拉回 {allocationLabel}。
                                         </p>
                                     </>
                                 )}
@@ -738,6 +930,202 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                 </p>
                             </div>
                         </div>
+
+                        {/* Strategy 3: Order List */}
+                        {rebalancePlan && (
+                            <div className="space-y-3">
+                                <h4 className="font-bold text-skin-text-base flex items-center gap-2">
+                                    <ClipboardList size={18} className="text-skin-primary" />
+                                    策略三：下單清單
+                                </h4>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <button 
+                                        onClick={() => setPlannerUseCash(!plannerUseCash)}
+                                        className={`text-xs px-2 py-1 rounded border transition-colors ${plannerUseCash ? 'bg-skin-primary text-skin-primary-fg border-transparent' : 'bg-skin-base text-skin-text-muted border-skin-border'}`}
+                                    >
+                                        優先動用現金 (${formatCurrency(cash)})
+                                    </button>
+                                    <div className="flex bg-skin-base p-0.5 rounded-lg border border-skin-border">
+                                        <button 
+                                            onClick={() => setPlannerLotMode('board')}
+                                            className={`px-2 py-0.5 text-xs font-medium rounded-md transition-all ${plannerLotMode === 'board' ? 'bg-skin-card text-skin-primary shadow-sm' : 'text-skin-text-muted'}`}
+                                        >
+                                            整股 (張)
+                                        </button>
+                                        <button 
+                                            onClick={() => setPlannerLotMode('odd')}
+                                            className={`px-2 py-0.5 text-xs font-medium rounded-md transition-all ${plannerLotMode === 'odd' ? 'bg-skin-card text-skin-primary shadow-sm' : 'text-skin-text-muted'}`}
+                                        >
+                                            含零股
+                                        </button>
+                                    </div>
+                                </div>
+
+                                <div className="bg-skin-card border border-skin-border rounded-xl shadow-sm overflow-hidden">
+                                    {rebalancePlan.orders.length === 0 ? (
+                                        <div className="text-center text-skin-success font-bold py-4 text-sm">
+                                            {plannerLotMode === 'board' ? '差額不足一張，無需下單' : '目前配置完美，無需調整！'}
+                                        </div>
+                                    ) : (
+                                        <table className="w-full text-xs">
+                                            <thead className="bg-skin-base text-skin-text-muted">
+                                                <tr>
+                                                    <th className="px-3 py-2 text-left font-medium">委託</th>
+                                                    <th className="px-3 py-2 text-right font-medium">股數</th>
+                                                    <th className="px-3 py-2 text-right font-medium">金額</th>
+                                                    <th className="px-3 py-2 text-right font-medium">費用/稅</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-skin-border">
+                                                {rebalancePlan.orders.map(o => (
+                                                    <tr key={`${o.side}-${o.holdingId}`}>
+                                                        <td className="px-3 py-2">
+                                                            <div className="flex items-center gap-1.5">
+                                                                <span className={`px-1.5 py-0.5 rounded font-bold ${o.side === TradeType.BUY ? 'text-skin-success bg-red-50 dark:bg-red-900/20' : 'text-skin-danger bg-green-50 dark:bg-green-900/20'}`}>
+                                                                    {o.side === TradeType.BUY ? '買' : '賣'}
+                                                                </span>
+                                                                <span className="font-bold text-skin-text-base">{o.code}</span>
+                                                            </div>
+                                                            <div className="text-[10px] text-skin-text-muted mt-0.5">@ {o.price}</div>
+                                                        </td>
+                                                        <td className="px-3 py-2 text-right font-mono">
+                                                            <div className="font-bold text-skin-text-base">{formatCurrency(o.shares)}</div>
+                                                            <div className="text-[10px] text-skin-text-muted">
+                                                                {o.boardLots > 0 && `${o.boardLots} 張`}
+                                                                {o.boardLots > 0 && o.oddShares > 0 && ' + '}
+                                                                {o.oddShares > 0 && `${o.oddShares} 零股`}
+                                                            </div>
+                                                        </td>
+                                                        <td className="px-3 py-2 text-right font-mono text-skin-text-base">${formatCurrency(o.amount)}</td>
+                                                        <td className="px-3 py-2 text-right font-mono text-skin-text-muted">
+                                                            {formatCurrency(o.fee)}{o.tax > 0 && ` / ${formatCurrency(o.tax)}`}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                    <div className="p-3 bg-skin-base/50 border-t border-skin-border space-y-1 text-xs font-mono">
+                                        <div className="flex justify-between">
+                                            <span className="text-skin-text-muted">賣出收入 / 買進支出</span>
+                                            <span className="text-skin-text-base">${formatCurrency(rebalancePlan.totalSell)} / ${formatCurrency(rebalancePlan.totalBuy)}</span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                            <span className="text-skin-text-muted">手續費 + 交易稅</span>
+                                            <span className="text-skin-text-base">${formatCurrency(rebalancePlan.totalFee + rebalancePlan.totalTax)}</span>
+                                        </div>
+                                        {rebalancePlan.totalRebate > 0 && (
+                                            <div className="flex justify-between">
+                                                <span className="text-skin-text-muted">次月退還手續費</span>
+                                                <span className="text-skin-text-base">${formatCurrency(rebalancePlan.totalRebate)}</span>
+                                            </div>
+                                        )}
+                                        <div className="flex justify-between">
+                                            <span className="text-skin-text-muted">{rebalancePlan.cashUsed >= 0 ? '動用現金' : '現金增加'}</span>
+                                            <span className="text-skin-text-base">${formatCurrency(Math.abs(rebalancePlan.cashUsed))}</span>
+                                        </div>
+                                        <div className="flex justify-between pt-1 border-t border-skin-border/50">
+                                            <span className="text-skin-text-muted">下單後配置</span>
+                                            <span className="font-bold">
+                                                <span style={{ color: customColors.stock }}>{rebalancePlan.resultingStockRatio.toFixed(1)}%</span>
+                                                <span className="text-skin-border mx-1">|</span>
+                                                <span style={{ color: customColors.bond }}>{rebalancePlan.resultingBondRatio.toFixed(1)}%</span>
+                                            </span>
+                                        </div>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-skin-text-muted text-center">
+                                    以目前市價試算，整股以 1000 股為一張，買進會扣除費用後無條件捨去。
+                                </p>
+                            </div>
+                        )}
+
+                        {/* Per-Holding Targets */}
+                        {holdingGaps.length > 0 && (
+                            <div className="space-y-3">
+                                <h4 className="font-bold text-skin-text-base flex items-center gap-2">
+                                    <Target size={18} className="text-skin-primary" />
+                                    個別標的目標
+                                </h4>
+                                <div className="border border-skin-border rounded-xl overflow-hidden">
+                                    <table className="w-full text-xs">
+                                        <thead className="bg-skin-base text-skin-text-muted">
+                                            <tr>
+                                                <th className="px-3 py-2 text-left font-medium">標的</th>
+                                                <th className="px-3 py-2 text-right font-medium">目標 / 區間</th>
+                                                <th className="px-3 py-2 text-right font-medium">目前</th>
+                                                <th className="px-3 py-2 text-right font-medium">調整金額</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-skin-border">
+                                            {holdingGaps.map(g => {
+                                                const drift = holdingDrifts.get(g.code);
+                                                return (
+                                                <tr key={g.code}>
+                                                    <td className="px-3 py-2">
+                                                        <div className="font-bold text-skin-text-base flex items-center gap-1">
+                                                            {g.code}
+                                                            {drift?.breached && <AlertTriangle size={12} className="text-skin-danger" />}
+                                                        </div>
+                                                        <div className="text-[10px] text-skin-text-muted">{g.name}</div>
+                                                    </td>
+                                                    <td className="px-3 py-2 text-right font-mono">
+                                                        <div>{g.targetRatio.toFixed(1)}%</div>
+                                                        {drift && <div className="text-[10px] text-skin-text-muted">{formatTolerance(drift)}</div>}
+                                                    </td>
+                                                    <td className={`px-3 py-2 text-right font-mono font-bold ${drift?.breached ? 'text-skin-danger' : 'text-skin-text-base'}`}>
+                                                        {g.actualRatio.toFixed(1)}%
+                                                    </td>
+                                                    <td className="px-3 py-2 text-right font-mono">
+                                                        {g.gapAmount > 0 ? '賣出 ' : '買入 '}${formatCurrency(Math.abs(g.gapAmount))}
+                                                    </td>
+                                                </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Drift Breach Log */}
+                        <div className="space-y-3">
+                            <div className="flex items-center justify-between">
+                                <h4 className="font-bold text-skin-text-base flex items-center gap-2">
+                                    <Bell size={18} className="text-skin-primary" />
+                                    偏離警示紀錄
+                                </h4>
+                                {onClearDriftLog && driftBreachLog.length > 0 && (
+                                    <button 
+                                        onClick={() => { if (confirm('確定清除所有警示紀錄？')) onClearDriftLog(); }}
+                                        className="text-xs text-skin-text-muted hover:text-skin-danger flex items-center gap-1"
+                                    >
+                                        <Trash2 size={12} /> 清除
+                                    </button>
+                                )}
+                            </div>
+                            {recentBreachEvents.length === 0 ? (
+                                <p className="text-xs text-skin-text-muted text-center py-2">尚無超出區間的紀錄</p>
+                            ) : (
+                                <ul className="border border-skin-border rounded-xl divide-y divide-skin-border text-xs">
+                                    {recentBreachEvents.map(e => (
+                                        <li key={e.id} className="px-3 py-2 flex items-center justify-between gap-2">
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                <span className={`shrink-0 px-1.5 py-0.5 rounded font-bold ${e.status === 'breached' ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400' : 'bg-skin-base text-skin-text-muted'}`}>
+                                                    {e.status === 'breached' ? '超出' : '回復'}
+                                                </span>
+                                                <span className="font-bold text-skin-text-base truncate">{e.scope === 'holding' ? e.key : e.label}</span>
+                                                <span className="font-mono text-skin-text-muted">
+                                                    {e.actualRatio.toFixed(1)}% / 目標 {e.targetRatio.toFixed(1)}%
+                                                    {e.rule && ` (${e.rule === 'absolute' ? '絕對' : '相對'})`}
+                                                </span>
+                                            </div>
+                                            <span className="shrink-0 font-mono text-skin-text-muted">{e.timestamp.slice(0, 10)}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
                     </>
                  ) : (
                     <div className="text-center py-8 text-skin-text-muted">
@@ -748,7 +1136,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
               
               <div className="p-4 bg-skin-base border-t border-skin-border flex justify-end">
                 <button 
-                    onClick={() => setShowRebalanceModal(false)}
+                    onClick={() => { setShowRebalanceModal(false); setIsEditingTarget(false); }}
                     className="px-6 py-2 bg-skin-primary text-skin-primary-fg rounded-lg font-medium shadow-sm hover:opacity-90 transition-opacity"
                 >
                     了解
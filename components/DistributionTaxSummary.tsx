@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DistributionComposition, DividendRecord } from '../types';
+import { INCOME_TAX_BRACKETS, SEPARATE_DIVIDEND_TAX_RATE } from '../constants';
+import { COMPOSITION_KEYS, COMPOSITION_LABELS, applyCompositions, compositionTotal, emptyComposition, parseCompositionCsv } from '../utils/dividends';
+import { compareDividendTaxOptions } from '../utils/tax';
+import { formatCurrency } from '../utils/calculations';
+import { ChevronDown, ChevronUp, FileUp, Scale } from 'lucide-react';
+
+interface DistributionTaxSummaryProps {
+  records: DividendRecord[];
+  year: number;
+  onUpdateRecords: (records: DividendRecord[]) => void;
+}
+
+const COMPOSITION_NOTES: Record<keyof DistributionComposition, string> = {
+  dividend: '可選 8.5% 抵減或 28% 分開計稅',
+  interest: '併入綜合所得課稅',
+  equalization: '依投信所得分配明細，通常不計入所得',
+  capitalGain: '證券交易所得停徵',
+};
+
+const gross = (r: DividendRecord) => r.grossAmount ?? r.amount;
+
+export const DistributionTaxSummary: React.FC<DistributionTaxSummaryProps> = ({ records, year, onUpdateRecords }) => {
+  const [marginalRate, setMarginalRate] = useState<number>(() => {
+    const saved = localStorage.getItem('income_tax_bracket');
+    return saved ? parseFloat(saved) : INCOME_TAX_BRACKETS[0];
+  });
+  const [showEditor, setShowEditor] = useState(false);
+  const [status, setStatus] = useState<{ text: string; error?: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    localStorage.setItem('income_tax_bracket', marginalRate.toString());
+  }, [marginalRate]);
+
+  // Tax year follows the payment date
+  const yearRecords = useMemo(() => records.filter(r => r.date.startsWith(`${year}-`)), [records, year]);
+
+  const { totals, unclassified } = useMemo(() => {
+    const sums = emptyComposition();
+    let rest = 0;
+    yearRecords.forEach(r => {
+      if (!r.composition) {
+        rest += gross(r);
+        return;
+      }
+      COMPOSITION_KEYS.forEach(k => { sums[k] += r.composition![k]; });
+    });
+    return { totals: sums, unclassified: rest };
+  }, [yearRecords]);
+
+  const comparison = compareDividendTaxOptions(totals.dividend, marginalRate);
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = e => {
+      try {
+        const rows = parseCompositionCsv(e.target?.result as string);
+        if (rows.length === 0) throw new Error('檔案中沒有可用的配息組成');
+        const result = applyCompositions(records, rows);
+        onUpdateRecords(result.records);
+        const matched = rows.length - result.unmatched.length;
+        setStatus({
+          text: `已套用 ${matched} 次配息的組成${result.unmatched.length > 0
+            ? `；找不到對應紀錄：${result.unmatched.map(x => `${x.code} ${x.date}`).join('、')}`
+            : ''}`,
+          error: matched === 0,
+        });
+      } catch (err: any) {
+        setStatus({ text: `匯入失敗：${err?.message || err}`, error: true });
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleEdit = (id: string, key: keyof DistributionComposition, value: number) => {
+    onUpdateRecords(records.map(r => r.id === id ? { ...r, composition: { ...(r.composition || emptyComposition()), [key]: value } } : r));
+  };
+
+  return (
+    <div className="bg-skin-card rounded-xl shadow-sm border border-skin-border overflow-hidden">
+      <div className="p-4 bg-skin-base border-b border-skin-border flex flex-wrap justify-between items-center gap-2">
+        <h3 className="font-bold text-skin-text-base flex items-center gap-2">
+          <Scale size={16} className="text-skin-primary" /> {year} 配息組成與報稅試算
+        </h3>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 bg-skin-card border border-skin-border hover:border-skin-primary hover:text-skin-primary rounded-lg text-xs font-bold transition-all flex items-center gap-1"
+          title="CSV 欄位：代號、除息日 (或發放日)、股利所得、利息所得、收益平準金、資本利得"
+        >
+          <FileUp size={12} /> 匯入所得分配明細
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv" className="hidden" />
+      </div>
+
+      <div className="p-4 space-y-4">
+        {status && <p className={`text-xs font-bold ${status.error ? 'text-skin-danger' : 'text-skin-text-base'}`}>{status.text}</p>}
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {COMPOSITION_KEYS.map(k => (
+            <div key={k} className="bg-skin-base/50 p-3 rounded-lg border border-skin-border/50">
+              <p className="text-[10px] text-skin-text-muted">{COMPOSITION_LABELS[k]}</p>
+              <p className="font-mono font-bold text-skin-text-base">${formatCurrency(totals[k])}</p>
+              <p className="text-[10px] text-skin-text-muted mt-1">{COMPOSITION_NOTES[k]}</p>
+            </div>
+          ))}
+          <div className="bg-skin-base/50 p-3 rounded-lg border border-dashed border-skin-border">
+            <p className="text-[10px] text-skin-text-muted">尚未分類</p>
+            <p className="font-mono font-bold text-yellow-600">${formatCurrency(unclassified)}</p>
+            <p className="text-[10px] text-skin-text-muted mt-1">未填配息組成的紀錄總額</p>
+          </div>
+        </div>
+
+        <div className="bg-skin-base/50 p-4 rounded-lg border border-skin-border/50 space-y-3 text-sm">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="font-bold text-skin-text-base">股利所得課稅方式比較</span>
+            <label className="flex items-center gap-2 text-xs text-skin-text-muted">
+              綜所稅邊際稅率
+              <select
+                className="px-2 py-1 bg-skin-card border border-skin-border rounded-lg text-xs focus:ring-2 focus:ring-skin-primary focus:outline-none"
+                value={marginalRate}
+                onChange={e => setMarginalRate(parseFloat(e.target.value))}
+              >
+                {INCOME_TAX_BRACKETS.map(rate => (
+                  <option key={rate} value={rate}>{(rate * 100).toFixed(0)}%</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className={`p-3 rounded-lg border ${comparison.better === 'combined' ? 'border-skin-primary bg-skin-primary/5' : 'border-skin-border'}`}>
+              <p className="text-xs text-skin-text-muted">合併計稅 (8.5% 抵減，上限 8 萬)</p>
+              <p className="font-mono font-bold text-skin-text-base">
+                {comparison.combined < 0 ? `可退 $${formatCurrency(-comparison.combined)}` : `$${formatCurrency(comparison.combined)}`}
+              </p>
+              <p className="text-[10px] text-skin-text-muted">抵減稅額 ${formatCurrency(comparison.credit)}</p>
+            </div>
+            <div className={`p-3 rounded-lg border ${comparison.better === 'separate' ? 'border-skin-primary bg-skin-primary/5' : 'border-skin-border'}`}>
+              <p className="text-xs text-skin-text-muted">分開計稅 ({(SEPARATE_DIVIDEND_TAX_RATE * 100).toFixed(0)}% 單一稅率)</p>
+              <p className="font-mono font-bold text-skin-text-base">${formatCurrency(comparison.separate)}</p>
+              <p className="text-[10px] text-skin-text-muted">不併入綜合所得</p>
+            </div>
+          </div>
+          <p className="text-[10px] text-skin-text-muted">
+            僅試算本頁紀錄中的股利所得；抵減上限以每戶計算，實際申報請合併個股股利等其他所得，以國稅局試算為準。
+          </p>
+        </div>
+
+        {yearRecords.length > 0 && (
+          <div>
+            <button
+              onClick={() => setShowEditor(!showEditor)}
+              className="text-xs font-bold text-skin-text-muted hover:text-skin-primary flex items-center gap-1"
+            >
+              {showEditor ? <ChevronUp size={14} /> : <ChevronDown size={14} />} 逐筆編輯配息組成
+            </button>
+            {showEditor && (
+              <div className="mt-2 overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="text-skin-text-muted">
+                    <tr>
+                      <th className="text-left py-1 font-medium">入帳日 / 標的</th>
+                      <th className="text-right py-1 font-medium">總額</th>
+                      {COMPOSITION_KEYS.map(k => (
+                        <th key={k} className="text-right py-1 font-medium">{COMPOSITION_LABELS[k]}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-skin-border">
+                    {yearRecords.map(r => {
+                      const mismatch = r.composition && Math.abs(compositionTotal(r.composition) - gross(r)) >= 1;
+                      return (
+                        <tr key={r.id}>
+                          <td className="py-1.5">
+                            <span className="font-mono">{r.date}</span>
+                            <span className="ml-2 font-bold text-skin-text-base">{r.ticker}</span>
+                          </td>
+                          <td className={`py-1.5 text-right font-mono ${mismatch ? 'text-skin-danger' : ''}`} title={mismatch ? '各項合計與總額不符' : undefined}>
+                            {formatCurrency(gross(r))}
+                          </td>
+                          {COMPOSITION_KEYS.map(k => (
+                            <td key={k} className="py-1.5 text-right">
+                              <input
+                                type="number"
+                                min="0"
+                                className="w-20 bg-transparent border-b border-skin-border focus:border-skin-primary focus:outline-none text-right font-mono no-spinner"
+                                value={r.composition?.[k] ?? ''}
+                                placeholder="-"
+                                onChange={e => handleEdit(r.id, k, parseFloat(e.target.value) || 0)}
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { DividendEvent, EVENT_KIND_LABELS, toICalendar } from '../utils/dividendCalendar';
+import { formatCurrency } from '../utils/calculations';
+import { CalendarDays, ChevronLeft, ChevronRight, Download } from 'lucide-react';
+
+interface DividendCalendarProps {
+  events: DividendEvent[];
+  today: string;
+}
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+const shiftMonth = (month: string, delta: number) => {
+  const d = new Date(`${month}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + delta);
+  return d.toISOString().slice(0, 7);
+};
+
+export const DividendCalendar: React.FC<DividendCalendarProps> = ({ events, today }) => {
+  const [month, setMonth] = useState(today.slice(0, 7));
+
+  // Leading blanks for the weekday of the 1st, then one cell per day
+  const cells = useMemo(() => {
+    const first = new Date(`${month}-01T00:00:00Z`);
+    const days = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+    const byDate = new Map<string, DividendEvent[]>();
+    events.forEach(e => {
+      if (!e.date.startsWith(month)) return;
+      if (!byDate.has(e.date)) byDate.set(e.date, []);
+      byDate.get(e.date)!.push(e);
+    });
+    return [
+      ...Array.from({ length: first.getUTCDay() }, () => null),
+      ...Array.from({ length: days }, (_, i) => {
+        const date = `${month}-${String(i + 1).padStart(2, '0')}`;
+        return { date, day: i + 1, events: byDate.get(date) || [] };
+      }),
+    ];
+  }, [events, month]);
+
+  const upcoming = events.filter(e => e.date >= today);
+
+  const handleExport = () => {
+    const blob = new Blob([toICalendar(upcoming)], { type: 'text/calendar;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `dividend_calendar_${today}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="bg-skin-card rounded-xl shadow-sm border border-skin-border overflow-hidden">
+      <div className="p-4 bg-skin-base border-b border-skin-border flex flex-wrap justify-between items-center gap-2">
+        <h3 className="font-bold text-skin-text-base flex items-center gap-2">
+          <CalendarDays size={16} className="text-skin-primary" /> 除息與入帳行事曆
+        </h3>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setMonth(m => shiftMonth(m, -1))} className="p-1 text-skin-text-muted hover:text-skin-primary" title="上個月">
+            <ChevronLeft size={16} />
+          </button>
+          <button onClick={() => setMonth(today.slice(0, 7))} className="font-mono font-bold text-sm text-skin-text-base w-20 text-center" title="回到本月">
+            {month}
+          </button>
+          <button onClick={() => setMonth(m => shiftMonth(m, 1))} className="p-1 text-skin-text-muted hover:text-skin-primary" title="下個月">
+            <ChevronRight size={16} />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={upcoming.length === 0}
+            className="ml-2 px-3 py-1.5 bg-skin-card border border-skin-border hover:border-skin-primary hover:text-skin-primary rounded-lg text-xs font-bold transition-all disabled:opacity-50 flex items-center gap-1"
+            title="匯出今天起的除息與入帳日 (.ics)"
+          >
+            <Download size={12} /> 匯出 .ics
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 text-center text-[10px] text-skin-text-muted border-b border-skin-border">
+        {WEEKDAYS.map(w => <div key={w} className="py-1">{w}</div>)}
+      </div>
+      <div className="grid grid-cols-7">
+        {cells.map((cell, i) => (
+          <div
+            key={cell ? cell.date : `blank-${i}`}
+            className={`min-h-[72px] border-b border-r border-skin-border/50 p-1 ${cell?.date === today ? 'bg-skin-primary/5' : ''}`}
+          >
+            {cell && (
+              <>
+                <div className={`text-[10px] font-mono ${cell.date === today ? 'text-skin-primary font-bold' : 'text-skin-text-muted'}`}>{cell.day}</div>
+                <div className="space-y-0.5">
+                  {cell.events.map(e => (
+                    <div
+                      key={`${e.kind}-${e.code}-${e.forecast}`}
+                      className={`text-[10px] leading-tight px-1 py-0.5 rounded truncate ${
+                        e.kind === 'EX' ? 'bg-blue-500/10 text-blue-600' : 'bg-green-500/10 text-green-600'
+                      } ${e.forecast ? 'border border-dashed border-current opacity-70' : ''}`}
+                      title={`${e.code} ${e.name} ${EVENT_KIND_LABELS[e.kind]}${e.forecast ? ' (預估)' : ''} $${formatCurrency(e.amount)}`}
+                    >
+                      {EVENT_KIND_LABELS[e.kind][0]} {e.code}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="px-4 py-2 flex flex-wrap gap-4 text-[10px] text-skin-text-muted">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded bg-blue-500/60"></span> 除息</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded bg-green-500/60"></span> 入帳</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-2 rounded border border-dashed border-skin-text-muted"></span> 預估 (尚未公告)</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { DividendForecast, FREQUENCY_LABELS } from '../utils/dividends';
+import { formatCurrency } from '../utils/calculations';
+import { Hourglass } from 'lucide-react';
+
+interface DividendForecastPanelProps {
+  forecasts: DividendForecast[];
+  uncovered: string[]; // 持有中但無法預估的代號 (缺少配息頻率或每單位配息)
+}
+
+export const DividendForecastPanel: React.FC<DividendForecastPanelProps> = ({ forecasts, uncovered }) => {
+  const total = forecasts.reduce((sum, f) => sum + f.total, 0);
+
+  return (
+    <div className="bg-skin-card rounded-xl shadow-sm border border-skin-border overflow-hidden">
+      <div className="p-4 bg-skin-base border-b border-skin-border flex justify-between items-center">
+        <h3 className="font-bold text-skin-text-base flex items-center gap-2">
+          <Hourglass size={16} className="text-yellow-500" /> 未來 12 個月股息預估
+        </h3>
+        <span className="font-mono font-bold text-skin-text-base">${formatCurrency(total)}</span>
+      </div>
+      {forecasts.length === 0 ? (
+        <p className="p-4 text-xs text-skin-text-muted">
+          以每單位配息登錄股息紀錄後，即可依配息頻率與目前持股預估未來的股息。
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-skin-text-muted">
+              <tr>
+                <th className="px-4 py-2 font-medium">標的</th>
+                <th className="px-4 py-2 font-medium">頻率</th>
+                <th className="px-4 py-2 text-right font-medium">每單位</th>
+                <th className="px-4 py-2 text-right font-medium hidden sm:table-cell">持有股數</th>
+                <th className="px-4 py-2 font-medium hidden md:table-cell">預估入帳月份</th>
+                <th className="px-4 py-2 text-right font-medium" title="已扣健保補充費與匯費">預估實領</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-skin-border">
+              {forecasts.map(f => (
+                <tr key={f.code}>
+                  <td className="px-4 py-2">
+                    <div className="font-bold text-skin-text-base">{f.code}</div>
+                    <div className="text-[10px] text-skin-text-muted">{f.name}</div>
+                  </td>
+                  <td className="px-4 py-2 text-xs text-skin-text-base">
+                    {FREQUENCY_LABELS[f.frequency]}
+                    {f.frequencyInferred && <span className="text-[10px] text-skin-text-muted ml-1">(推估)</span>}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-xs">{f.perUnit.toFixed(3)}</td>
+                  <td className="px-4 py-2 text-right font-mono text-xs hidden sm:table-cell">{f.quantity.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-[11px] text-skin-text-muted hidden md:table-cell">
+                    {f.payments.map(p => `${parseInt(p.date.slice(5, 7), 10)}月`).join('、') || '-'}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono font-bold text-skin-text-base">${formatCurrency(f.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {uncovered.length > 0 && (
+        <p className="px-4 py-2 border-t border-skin-border text-[10px] text-skin-text-muted">
+          未納入預估：{uncovered.join('、')} (缺少配息頻率或每單位配息紀錄)
+        </p>
+      )}
+    </div>
+  );
+};
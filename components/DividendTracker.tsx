@@ -1,6 +1,13 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { DividendRecord, Holding, ThemeColors, AssetType } from '../types';
+import { DividendRecord, Holding, ThemeColors, AssetType, Account, Transaction, DividendDeductionSettings } from '../types';
+import { ALL_ACCOUNTS, DEFAULT_DIVIDEND_DEDUCTIONS } from '../constants';
+import { accountOf, sharesOnExDate } from '../utils/accounts';
 import { formatCurrency } from '../utils/calculations';
+import { forecastDividends, splitDividend } from '../utils/dividends';
+import { buildDividendEvents } from '../utils/dividendCalendar';
+import { DividendForecastPanel } from './DividendForecastPanel';
+import { DividendCalendar } from './DividendCalendar';
+import { DistributionTaxSummary } from './DistributionTaxSummary';
 import { Plus, Trash2, Coins, Calendar, TrendingUp, BarChart3, GripHorizontal, ArrowRight, Percent, DollarSign, CheckCircle2, Hourglass, Filter, ZoomOut, Target, Edit2, Info } from 'lucide-react';
 import { 
   BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Cell, ReferenceLine, Brush, ReferenceArea
@@ -9,12 +16,15 @@ import {
 interface DividendTrackerProps {
   holdings: Holding[];
   records: DividendRecord[];
+  transactions?: Transaction[]; // 推算除息日持股用
+  accounts?: Account[];
+  activeAccountId?: string;
   onUpdateRecords: (records: DividendRecord[]) => void;
   theme: 'light' | 'dark' | 'contrast';
   customColors: ThemeColors;
 }
 
-export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, records, onUpdateRecords, theme, customColors }) => {
+export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, records, transactions = [], accounts = [], activeAccountId = ALL_ACCOUNTS, onUpdateRecords, theme, customColors }) => {
   const currentSystemYear = new Date().getFullYear();
   const [selectedYear, setSelectedYear] = useState<number>(currentSystemYear);
   const [trendTicker, setTrendTicker] = useState<string>('ALL');
@@ -27,14 +37,38 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
   const [isEditingGoal, setIsEditingGoal] = useState(false);
   const [tempGoal, setTempGoal] = useState(monthlyGoal.toString());
 
+  // NHI premium threshold/rate and the usual transfer fee
+  const [deductions, setDeductions] = useState<DividendDeductionSettings>(() => {
+    const saved = localStorage.getItem('dividend_deductions');
+    return saved ? { ...DEFAULT_DIVIDEND_DEDUCTIONS, ...JSON.parse(saved) } : DEFAULT_DIVIDEND_DEDUCTIONS;
+  });
+  const [isEditingDeductions, setIsEditingDeductions] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem('dividend_deductions', JSON.stringify(deductions));
+  }, [deductions]);
+
   const [formData, setFormData] = useState({
     date: new Date().toISOString().split('T')[0],
     exDividendDate: '', // New field in form
     ticker: holdings[0]?.code || '',
-    amount: '',
+    accountId: '', // blank: the current account view, or the account holding the ticker
+    amount: '', // 配息總額 (扣除補充保費與匯費前)
+    perUnit: '', // 每單位配息；搭配除息日自動計算金額
+    transferFee: deductions.transferFee.toString(),
     note: ''
   });
 
+  // The same ticker can be held in several accounts; list it once
+  const tickerOptions = useMemo(() => {
+    const seen = new Set<string>();
+    return holdings.filter(h => {
+      if (seen.has(h.code)) return false;
+      seen.add(h.code);
+      return true;
+    });
+  }, [holdings]);
+
   const [chartView, setChartView] = useState<'yearly' | 'monthly'>('monthly');
 
   // --- Zoom & Pan State ---
@@ -84,6 +118,7 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
     .reduce((sum, r) => sum + r.amount, 0);
     
   const totalInSelectedYear = receivedInSelectedYear + pendingInSelectedYear;
+  const nhiPremiumInSelectedYear = selectedYearRecords.reduce((sum, r) => sum + (r.nhiPremium || 0), 0);
   
   const totalDividendsAllTime = records.reduce((sum, r) => sum + r.amount, 0);
   const totalReceivedAllTime = records
@@ -96,6 +131,29 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
   const avgMonthlyIncome = totalInSelectedYear / 12;
   const goalProgress = (avgMonthlyIncome / monthlyGoal) * 100;
 
+  // 3. Next 12 months: distributions already recorded as pending plus the projection
+  const forecasts = useMemo(() => forecastDividends(holdings, records, today, deductions), [holdings, records, today, deductions]);
+  const uncoveredTickers = useMemo(() => {
+    const covered = new Set<string>(forecasts.map(f => f.code));
+    return Array.from(new Set<string>(holdings.filter(h => h.quantity > 0).map(h => h.code))).filter(code => !covered.has(code));
+  }, [holdings, forecasts]);
+  const projectedMonthlyIncome = useMemo(() => {
+    const horizon = new Date(`${today}T00:00:00Z`);
+    horizon.setUTCFullYear(horizon.getUTCFullYear() + 1);
+    const recordedAhead = records
+      .filter(r => r.date > today && r.date <= horizon.toISOString().split('T')[0])
+      .reduce((sum, r) => sum + r.amount, 0);
+    return (recordedAhead + forecasts.reduce((sum, f) => sum + f.total, 0)) / 12;
+  }, [records, forecasts, today]);
+  const projectedGoalProgress = (projectedMonthlyIncome / monthlyGoal) * 100;
+
+  // 4. Calendar events: recorded ex/pay dates plus the forecast
+  const calendarEvents = useMemo(() => {
+    const names: Record<string, string> = {};
+    holdings.forEach(h => { names[h.code] = h.name; });
+    return buildDividendEvents(records, forecasts, names);
+  }, [holdings, records, forecasts]);
+
   // 5. Chart Data Preparation
   const yearlyTrendData = useMemo(() => {
     const filteredRecords = trendTicker === 'ALL' 
@@ -107,11 +165,12 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
       const existing = acc.find(x => x.year === year);
       if (existing) {
         existing.amount += curr.amount;
+        existing.nhiPremium += curr.nhiPremium || 0;
       } else {
-        acc.push({ year, amount: curr.amount });
+        acc.push({ year, amount: curr.amount, nhiPremium: curr.nhiPremium || 0 });
       }
       return acc;
-    }, [] as { year: string; amount: number }[])
+    }, [] as { year: string; amount: number; nhiPremium: number }[])
     .sort((a, b) => parseInt(a.year) - parseInt(b.year));
   }, [records, trendTicker]);
 
@@ -141,7 +200,7 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
             ? ((item.amount - prev.amount) / prev.amount) * 100 
             : 0;
         const diff = prev ? item.amount - prev.amount : 0;
-        return { year: item.year, amount: item.amount, growth, diff, hasPrev: !!prev };
+        return { year: item.year, amount: item.amount, nhiPremium: item.nhiPremium, growth, diff, hasPrev: !!prev };
     });
     return dataWithGrowth.reverse();
   }, [yearlyTrendData]);
@@ -153,10 +212,15 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
         const value = selectedYearRecords
             .filter(r => new Date(r.date).getMonth() === i)
             .reduce((sum, r) => sum + r.amount, 0);
-        return { name: monthStr, value, monthNum };
+        const monthKey = `${selectedYear}-${String(monthNum).padStart(2, '0')}`;
+        const projected = forecasts
+            .flatMap(f => f.payments)
+            .filter(p => p.date.startsWith(monthKey))
+            .reduce((sum, p) => sum + p.amount, 0);
+        return { name: monthStr, value, projected, monthNum };
     });
     return months;
-  }, [selectedYearRecords]);
+  }, [selectedYearRecords, forecasts, selectedYear]);
 
   const tickerData = useMemo(() => {
     return selectedYearRecords.reduce((acc, curr) => {
@@ -172,17 +236,49 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
 
 
   // --- Handlers ---
+  const resolveRecordAccount = (ticker: string) => {
+    if (activeAccountId !== ALL_ACCOUNTS) return activeAccountId;
+    const holding = holdings.find(h => h.code === ticker);
+    return holding ? accountOf(holding) : accounts[0]?.id;
+  };
+
+  // Shares held the day before the ex-date, in the account the record will be booked to
+  const eligibleShares = formData.exDividendDate && formData.ticker
+    ? sharesOnExDate(transactions, formData.ticker, formData.exDividendDate, formData.accountId || resolveRecordAccount(formData.ticker))
+    : null;
+
+  // Recompute the amount whenever an input of "per unit × shares" changes; a typed amount
+  // stays until one of them does
+  const updateForm = (patch: Partial<typeof formData>) => {
+    setFormData(prev => {
+      const next = { ...prev, ...patch };
+      const perUnit = parseFloat(next.perUnit);
+      if (next.exDividendDate && next.ticker && perUnit > 0) {
+        const shares = sharesOnExDate(transactions, next.ticker, next.exDividendDate, next.accountId || resolveRecordAccount(next.ticker));
+        next.amount = String(Math.round(perUnit * shares));
+      }
+      return next;
+    });
+  };
+
+  const formGross = parseFloat(formData.amount) || 0;
+  const formSplit = splitDividend(formGross, parseFloat(formData.transferFee) || 0, deductions);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.amount || !formData.ticker) return;
 
+    const perUnit = parseFloat(formData.perUnit);
     const newRecord: DividendRecord = {
       id: Date.now().toString(),
       date: formData.date,
       exDividendDate: formData.exDividendDate || undefined,
       ticker: formData.ticker,
-      amount: parseFloat(formData.amount),
-      note: formData.note
+      ...formSplit,
+      perUnit: perUnit > 0 ? perUnit : undefined,
+      shares: perUnit > 0 && eligibleShares !== null ? eligibleShares : undefined,
+      note: formData.note,
+      accountId: formData.accountId || resolveRecordAccount(formData.ticker),
     };
 
     const newRecords = [newRecord, ...records].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -195,20 +291,18 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
         }
     }
     
-    setFormData(prev => ({ ...prev, amount: '', note: '', exDividendDate: '' }));
+    setFormData(prev => ({ ...prev, amount: '', perUnit: '', transferFee: deductions.transferFee.toString(), note: '', exDividendDate: '' }));
   };
 
   const handleExDateChange = (dateStr: string) => {
-    setFormData(prev => {
-        // Simple logic: auto-set payment date to ~30 days after ex-date if it's currently default or empty
-        const nextState = { ...prev, exDividendDate: dateStr };
-        if (dateStr) {
-            const date = new Date(dateStr);
-            date.setDate(date.getDate() + 30);
-            nextState.date = date.toISOString().split('T')[0];
-        }
-        return nextState;
-    });
+    // Simple logic: auto-set payment date to ~30 days after ex-date if it's currently default or empty
+    const patch: Partial<typeof formData> = { exDividendDate: dateStr };
+    if (dateStr) {
+        const date = new Date(dateStr);
+        date.setDate(date.getDate() + 30);
+        patch.date = date.toISOString().split('T')[0];
+    }
+    updateForm(patch);
   };
 
   const handleUpdateRecord = (id: string, field: keyof DividendRecord, value: any) => {
@@ -216,6 +310,11 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
     onUpdateRecords(updated);
   };
 
+  // Records with a gross amount are edited by their gross; premium and net follow
+  const handleUpdateGross = (id: string, gross: number) => {
+    onUpdateRecords(records.map(r => r.id === id ? { ...r, ...splitDividend(gross, r.transferFee || 0, deductions) } : r));
+  };
+
   const handleDelete = (id: string) => {
     if (confirm('確定要刪除這筆紀錄嗎？')) {
       onUpdateRecords(records.filter(r => r.id !== id));
@@ -365,6 +464,7 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
                 </div>
                 <div className="flex justify-between text-[10px] text-skin-text-muted mt-1 font-mono">
                     <span>達成率: {totalInSelectedYear > 0 ? Math.round((receivedInSelectedYear / totalInSelectedYear) * 100) : 0}%</span>
+                    {nhiPremiumInSelectedYear > 0 && <span>健保補充費 ${formatCurrency(nhiPremiumInSelectedYear)}</span>}
                 </div>
             </div>
         </div>
@@ -408,6 +508,16 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
                             style={{ width: `${Math.min(goalProgress, 100)}%` }}
                         />
                     </div>
+                    <div className="mt-2 flex items-center justify-between text-[10px] text-skin-text-muted">
+                        <span>未來 12 個月預估月領 ${formatCurrency(Math.round(projectedMonthlyIncome))}</span>
+                        <span className="font-mono">{projectedGoalProgress.toFixed(0)}%</span>
+                    </div>
+                    <div className="mt-1 w-full bg-skin-base rounded-full h-1 overflow-hidden">
+                        <div 
+                            className="h-full bg-yellow-500/60 transition-all duration-700" 
+                            style={{ width: `${Math.min(projectedGoalProgress, 100)}%` }}
+                        />
+                    </div>
                 </div>
             )}
         </div>
@@ -444,7 +554,7 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
                                     className="appearance-none bg-skin-base border border-skin-border text-skin-text-base text-xs font-bold py-1.5 pl-3 pr-8 rounded-lg focus:outline-none focus:ring-1 focus:ring-skin-primary cursor-pointer transition-all"
                                 >
                                     <option value="ALL">全部標的</option>
-                                    {holdings.map(h => (
+                                    {tickerOptions.map(h => (
                                         <option key={h.code} value={h.code}>{h.name} ({h.code})</option>
                                     ))}
                                 </select>
@@ -495,19 +605,26 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
                                             <div style={{ backgroundColor: CHART_COLORS.TOOLTIP_BG, borderColor: CHART_COLORS.GRID, color: CHART_COLORS.TOOLTIP_TEXT }} className="p-2 border rounded shadow-lg text-sm">
                                                 <div className="font-bold mb-1">{payload[0].payload.name}</div>
                                                 <div className="font-mono text-skin-primary font-bold">
-                                                    ${formatCurrency(payload[0].value as number)}
+                                                    ${formatCurrency(payload[0].payload.value)}
                                                 </div>
+                                                {payload[0].payload.projected > 0 && (
+                                                    <div className="font-mono text-xs text-yellow-600">
+                                                        預估 +${formatCurrency(payload[0].payload.projected)}
+                                                    </div>
+                                                )}
                                             </div>
                                         );
                                     }
                                     return null;
                                 }}
                             />
-                            <Bar dataKey="value" radius={[4, 4, 0, 0]} animationDuration={1000} activeBar={{ fill: CHART_COLORS.BAR_HOVER, opacity: 0.8 }}>
+                            <Bar dataKey="value" stackId="month" radius={[4, 4, 0, 0]} animationDuration={1000} activeBar={{ fill: CHART_COLORS.BAR_HOVER, opacity: 0.8 }}>
                                 {monthlyData.map((entry, index) => (
-                                    <Cell key={`cell-${index}`} fill={entry.value > 0 ? CHART_COLORS.BAR : CHART_COLORS.GRID} />
+                                    <Cell key={`cell-${index}`} fill={entry.value > 0 || entry.projected > 0 ? CHART_COLORS.BAR : CHART_COLORS.GRID} />
                                 ))}
                             </Bar>
+                            {/* Projected distributions stack on top as faded, dashed "pending" bars */}
+                            <Bar dataKey="projected" stackId="month" radius={[4, 4, 0, 0]} fill={CHART_COLORS.BAR} fillOpacity={0.3} stroke={CHART_COLORS.BAR} strokeDasharray="3 3" animationDuration={1000} />
                         </BarChart>
                     ) : (
                         <LineChart data={yearlyTrendData} margin={{ top: 10, right: 20, left: 10, bottom: 30 }} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp}>
@@ -560,6 +677,7 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
                             <tr>
                                 <th className="text-left py-2 font-medium">年度</th>
                                 <th className="text-right py-2 font-medium">總領股息</th>
+                                <th className="text-right py-2 font-medium">健保補充費</th>
                                 <th className="text-right py-2 font-medium">YoY 成長</th>
                             </tr>
                         </thead>
@@ -568,6 +686,7 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
                                 <tr key={row.year} className="group hover:bg-skin-base/50 transition-colors">
                                     <td className="py-2.5 font-bold text-skin-text-base">{row.year}</td>
                                     <td className="py-2.5 text-right font-mono text-skin-text-base">${formatCurrency(row.amount)}</td>
+                                    <td className="py-2.5 text-right font-mono text-skin-text-muted">{row.nhiPremium > 0 ? `$${formatCurrency(row.nhiPremium)}` : '-'}</td>
                                     <td className="py-2.5 text-right font-mono">
                                         {row.hasPrev ? (
                                             <div className={`flex items-center justify-end gap-1 ${row.growth >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>
@@ -584,6 +703,12 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
         </div>
       </div>
 
+      <DividendForecastPanel forecasts={forecasts} uncovered={uncoveredTickers} />
+
+      <DividendCalendar events={calendarEvents} today={today} />
+
+      <DistributionTaxSummary records={records} year={selectedYear} onUpdateRecords={onUpdateRecords} />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Updated Add Form with Dual Dates */}
         <div className="lg:col-span-1 bg-skin-card p-6 rounded-xl shadow-sm border border-skin-border h-fit">
@@ -628,26 +753,124 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
                     <select 
                         className="w-full px-3 py-2 border border-skin-border bg-skin-base text-skin-text-base rounded-lg focus:outline-none focus:ring-2 focus:ring-skin-primary text-sm"
                         value={formData.ticker}
-                        onChange={(e) => setFormData({ ...formData, ticker: e.target.value })}
+                        onChange={(e) => updateForm({ ticker: e.target.value })}
                     >
-                        {holdings.map(h => (
+                        {tickerOptions.map(h => (
                             <option key={h.code} value={h.code}>{h.name} ({h.code})</option>
                         ))}
                     </select>
                 </div>
                 <div>
-                    <label className="block text-xs font-medium text-skin-text-muted mb-1">金額 (TWD)</label>
+                    <label className="block text-xs font-medium text-skin-text-muted mb-1">每單位配息 (元)</label>
                     <input 
                         type="number" 
-                        required
                         min="0"
-                        placeholder="0"
+                        step="any"
+                        placeholder="選填"
                         className="w-full px-3 py-2 border border-skin-border bg-skin-base text-skin-text-base rounded-lg focus:outline-none focus:ring-2 focus:ring-skin-primary text-sm font-mono"
-                        value={formData.amount}
-                        onChange={e => setFormData({...formData, amount: e.target.value})}
+                        value={formData.perUnit}
+                        onChange={e => updateForm({ perUnit: e.target.value })}
                     />
                 </div>
             </div>
+            <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">配息總額 (TWD)</label>
+                <input 
+                    type="number" 
+                    required
+                    min="0"
+                    placeholder="0"
+                    className="w-full px-3 py-2 border border-skin-border bg-skin-base text-skin-text-base rounded-lg focus:outline-none focus:ring-2 focus:ring-skin-primary text-sm font-mono"
+                    value={formData.amount}
+                    onChange={e => setFormData({...formData, amount: e.target.value})}
+                />
+                {parseFloat(formData.perUnit) > 0 && (
+                    <p className="text-[10px] text-skin-text-muted mt-1">
+                        {eligibleShares === null
+                            ? '填入除息日期後，依當時持股自動計算金額'
+                            : `除息前一日持有 ${eligibleShares.toLocaleString()} 股 × ${formData.perUnit} 元`}
+                    </p>
+                )}
+            </div>
+            <div className="bg-skin-base/50 p-3 rounded-lg border border-skin-border/50 space-y-2 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-skin-text-muted">二代健保補充保費</span>
+                    <span className="font-mono">
+                        {formSplit.nhiPremium > 0 ? `-$${formatCurrency(formSplit.nhiPremium)}` : '未達門檻'}
+                    </span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-skin-text-muted">匯費</span>
+                    <input 
+                        type="number" 
+                        min="0"
+                        className="w-20 px-2 py-0.5 border border-skin-border bg-skin-base text-skin-text-base rounded text-right font-mono text-xs focus:outline-none focus:ring-2 focus:ring-skin-primary"
+                        value={formData.transferFee}
+                        onChange={e => setFormData({...formData, transferFee: e.target.value})}
+                    />
+                </div>
+                <div className="flex items-center justify-between gap-2 border-t border-skin-border/50 pt-2 font-bold">
+                    <span className="text-skin-text-base">實收金額</span>
+                    <span className="font-mono text-skin-text-base">${formatCurrency(formSplit.amount)}</span>
+                </div>
+                <button 
+                    type="button"
+                    onClick={() => setIsEditingDeductions(!isEditingDeductions)}
+                    className="text-[10px] text-skin-text-muted hover:text-skin-primary"
+                >
+                    單次達 ${formatCurrency(deductions.nhiThreshold)} 扣 {(deductions.nhiRate * 100).toFixed(2)}% · 調整設定
+                </button>
+                {isEditingDeductions && (
+                    <div className="grid grid-cols-3 gap-2 animate-fade-in">
+                        <label className="text-[10px] text-skin-text-muted">
+                            扣費門檻
+                            <input 
+                                type="number" 
+                                min="0"
+                                className="w-full mt-0.5 px-2 py-1 border border-skin-border bg-skin-base text-skin-text-base rounded font-mono text-xs"
+                                value={deductions.nhiThreshold}
+                                onChange={e => setDeductions({ ...deductions, nhiThreshold: parseFloat(e.target.value) || 0 })}
+                            />
+                        </label>
+                        <label className="text-[10px] text-skin-text-muted">
+                            費率 (%)
+                            <input 
+                                type="number" 
+                                min="0"
+                                step="0.01"
+                                className="w-full mt-0.5 px-2 py-1 border border-skin-border bg-skin-base text-skin-text-base rounded font-mono text-xs"
+                                value={+(deductions.nhiRate * 100).toFixed(4)}
+                                onChange={e => setDeductions({ ...deductions, nhiRate: (parseFloat(e.target.value) || 0) / 100 })}
+                            />
+                        </label>
+                        <label className="text-[10px] text-skin-text-muted">
+                            預設匯費
+                            <input 
+                                type="number" 
+                                min="0"
+                                className="w-full mt-0.5 px-2 py-1 border border-skin-border bg-skin-base text-skin-text-base rounded font-mono text-xs"
+                                value={deductions.transferFee}
+                                onChange={e => setDeductions({ ...deductions, transferFee: parseFloat(e.target.value) || 0 })}
+                            />
+                        </label>
+                    </div>
+                )}
+            </div>
+            {accounts.length > 1 && activeAccountId === ALL_ACCOUNTS && (
+                <div>
+                    <label className="block text-xs font-medium text-skin-text-muted mb-1">入帳帳戶</label>
+                    <select 
+                        className="w-full px-3 py-2 border border-skin-border bg-skin-base text-skin-text-base rounded-lg focus:outline-none focus:ring-2 focus:ring-skin-primary text-sm"
+                        value={formData.accountId}
+                        onChange={(e) => updateForm({ accountId: e.target.value })}
+                    >
+                        <option value="">依持股所屬帳戶</option>
+                        {accounts.map(a => (
+                            <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
             <div>
               <label className="block text-xs font-medium text-skin-text-muted mb-1">備註 (選填)</label>
               <input 
@@ -727,11 +950,25 @@ export const DividendTracker: React.FC<DividendTrackerProps> = ({ holdings, reco
                                             <input 
                                                 type="number"
                                                 className="bg-transparent border-b border-transparent hover:border-skin-border focus:border-skin-primary focus:outline-none text-right w-24 no-spinner transition-all font-mono font-bold text-sm text-skin-text-base"
-                                                value={r.amount}
+                                                value={r.grossAmount ?? r.amount}
                                                 onFocus={handleFocus}
-                                                onChange={(e) => handleUpdateRecord(r.id, 'amount', parseFloat(e.target.value) || 0)}
+                                                onChange={(e) => r.grossAmount !== undefined
+                                                    ? handleUpdateGross(r.id, parseFloat(e.target.value) || 0)
+                                                    : handleUpdateRecord(r.id, 'amount', parseFloat(e.target.value) || 0)}
                                             />
                                         </div>
+                                        {r.grossAmount !== undefined && (r.nhiPremium || r.transferFee) ? (
+                                            <div className="text-[10px] font-normal text-skin-text-muted" title="總額 − 二代健保補充保費 − 匯費">
+                                                {r.nhiPremium ? `健保 -${formatCurrency(r.nhiPremium)} ` : ''}
+                                                {r.transferFee ? `匯費 -${r.transferFee} ` : ''}
+                                                實收 ${formatCurrency(r.amount)}
+                                            </div>
+                                        ) : null}
+                                        {r.perUnit !== undefined && (
+                                            <div className="text-[10px] font-normal text-skin-text-muted">
+                                                每單位 {r.perUnit} 元{r.shares !== undefined && ` × ${r.shares.toLocaleString()} 股`}
+                                            </div>
+                                        )}
                                     </td>
                                     <td className="px-6 py-3 hidden sm:table-cell">
                                         <div className="max-w-[120px] truncate text-[11px] text-skin-text-muted" title={r.note}>
@@ -0,0 +1,197 @@
+import React from 'react';
+import { FeeProfile, Holding, InstrumentCategory, RebateMode } from '../types';
+import { DEFAULT_FEE_PROFILE_ID, SECURITIES_TAX_RULES } from '../constants';
+import { CATEGORY_LABELS, resolveInstrumentCategory } from '../utils/tax';
+import { Receipt, Plus, Trash2 } from 'lucide-react';
+
+interface FeeProfileSettingsProps {
+  profiles: FeeProfile[];
+  holdings: Holding[];
+  onUpdateProfiles: (profiles: FeeProfile[]) => void;
+  onPatchHolding: (id: string, patch: Partial<Pick<Holding, 'feeProfileId' | 'category'>>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm font-mono';
+
+export const FeeProfileSettings: React.FC<FeeProfileSettingsProps> = ({ profiles, holdings, onUpdateProfiles, onPatchHolding }) => {
+  const updateProfile = (id: string, updates: Partial<FeeProfile>) => {
+    onUpdateProfiles(profiles.map(p => (p.id === id ? { ...p, ...updates } : p)));
+  };
+
+  const handleAdd = () => {
+    onUpdateProfiles([
+      ...profiles,
+      {
+        id: Date.now().toString(),
+        name: `券商 ${profiles.length + 1}`,
+        discount: 0.6,
+        minFee: 20,
+        oddLotMinFee: 1,
+        rebate: RebateMode.INSTANT,
+      },
+    ]);
+  };
+
+  const handleDelete = (profile: FeeProfile) => {
+    const assigned = holdings.filter(h => h.feeProfileId === profile.id).length;
+    if (assigned > 0 && !confirm(`「${profile.name}」仍套用於 ${assigned} 檔持股，刪除後將改用預設設定。確定刪除？`)) return;
+    onUpdateProfiles(profiles.filter(p => p.id !== profile.id));
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider">券商手續費設定</h4>
+          <button
+            onClick={handleAdd}
+            className="text-xs flex items-center gap-1 text-skin-primary font-bold hover:underline"
+          >
+            <Plus size={12} /> 新增券商
+          </button>
+        </div>
+        <p className="text-xs text-skin-text-muted">
+          手續費 = 成交金額 × 0.1425% × 折數，整股與零股分別適用最低手續費。月退制券商成交時先收原價，折讓於次月退還。
+        </p>
+
+        {profiles.map(p => (
+          <div key={p.id} className="bg-skin-base/50 p-4 rounded-xl border border-skin-border space-y-3">
+            <div className="flex items-center gap-2">
+              <Receipt size={16} className="text-skin-primary shrink-0" />
+              <input
+                type="text"
+                className={`${inputClass} font-sans font-bold`}
+                defaultValue={p.name}
+                onBlur={e => updateProfile(p.id, { name: e.target.value.trim() || p.name })}
+              />
+              {p.id !== DEFAULT_FEE_PROFILE_ID && (
+                <button
+                  onClick={() => handleDelete(p)}
+                  className="p-1.5 text-skin-text-muted hover:text-skin-danger rounded-md transition-colors shrink-0"
+                  title="刪除"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">折數 (折)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="10"
+                  step="0.1"
+                  className={inputClass}
+                  defaultValue={+(p.discount * 10).toFixed(2)}
+                  onBlur={e => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value) && value > 0 && value <= 10) updateProfile(p.id, { discount: value / 10 });
+                  }}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">整股最低 (元)</label>
+                <input
+                  type="number"
+                  min="0"
+                  className={inputClass}
+                  defaultValue={p.minFee}
+                  onBlur={e => updateProfile(p.id, { minFee: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">零股最低 (元)</label>
+                <input
+                  type="number"
+                  min="0"
+                  className={inputClass}
+                  defaultValue={p.oddLotMinFee}
+                  onBlur={e => updateProfile(p.id, { oddLotMinFee: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">折讓方式</label>
+                <div className="flex bg-skin-card p-0.5 rounded-lg border border-skin-border">
+                  {([RebateMode.INSTANT, RebateMode.MONTHLY]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => updateProfile(p.id, { rebate: mode })}
+                      className={`flex-1 py-1 text-xs font-bold rounded-md transition-all ${p.rebate === mode ? 'bg-skin-primary text-skin-primary-fg shadow-sm' : 'text-skin-text-muted'}`}
+                    >
+                      {mode === RebateMode.INSTANT ? '即時' : '月退'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3 pt-4 border-t border-skin-border">
+        <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider">證券交易稅率</h4>
+        <p className="text-xs text-skin-text-muted">賣出時依成交日適用的稅率計算，持有現值以今日稅率估算。</p>
+        <div className="border border-skin-border rounded-xl overflow-hidden">
+          <table className="w-full text-xs">
+            <thead className="bg-skin-base text-skin-text-muted">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">類別</th>
+                <th className="px-3 py-2 text-left font-medium">適用期間</th>
+                <th className="px-3 py-2 text-right font-medium">稅率</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-skin-border">
+              {SECURITIES_TAX_RULES.map((r, i) => (
+                <tr key={i}>
+                  <td className="px-3 py-2 font-bold text-skin-text-base">{CATEGORY_LABELS[r.category]}</td>
+                  <td className="px-3 py-2 font-mono text-skin-text-muted">
+                    {r.from || r.to ? `${r.from || '—'} ~ ${r.to || '—'}` : '不限'}
+                  </td>
+                  <td className="px-3 py-2 text-right font-mono text-skin-text-base">{(r.rate * 100).toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {holdings.length > 0 && (
+        <div className="space-y-3 pt-4 border-t border-skin-border">
+          <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider">持股套用設定</h4>
+          <div className="border border-skin-border rounded-xl divide-y divide-skin-border">
+            {holdings.map(h => (
+              <div key={h.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-3 py-2">
+                <div className="min-w-0">
+                  <span className="text-sm font-bold font-mono text-skin-text-base">{h.code}</span>
+                  <span className="text-xs text-skin-text-muted ml-2 truncate">{h.name}</span>
+                </div>
+                <div className="flex gap-2">
+                  <select
+                    className="px-2 py-1 bg-skin-card border border-skin-border rounded-lg text-xs focus:ring-2 focus:ring-skin-primary focus:outline-none"
+                    value={h.feeProfileId || DEFAULT_FEE_PROFILE_ID}
+                    onChange={e => onPatchHolding(h.id, { feeProfileId: e.target.value === DEFAULT_FEE_PROFILE_ID ? undefined : e.target.value })}
+                  >
+                    {profiles.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="px-2 py-1 bg-skin-card border border-skin-border rounded-lg text-xs focus:ring-2 focus:ring-skin-primary focus:outline-none"
+                    value={h.category || ''}
+                    onChange={e => onPatchHolding(h.id, { category: (e.target.value as InstrumentCategory) || undefined })}
+                  >
+                    <option value="">自動 ({CATEGORY_LABELS[resolveInstrumentCategory({ ...h, category: undefined })]})</option>
+                    {Object.values(InstrumentCategory).map(c => (
+                      <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,28 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { AssetType, CalculatedHolding, ThemeColors, Holding } from '../types';
+import { AssetType, CalculatedHolding, ThemeColors, Holding, Transaction, TradeType, Account, SecurityInfo, Quote } from '../types';
+import { ALL_ACCOUNTS } from '../constants';
+import { accountOf } from '../utils/accounts';
 import { formatCurrency } from '../utils/calculations';
-import { ArrowUpDown, ArrowUp, ArrowDown, Search, ListFilter, X, Filter, Trash2, Plus, Save, RefreshCw, Check, ListOrdered, ChevronUp, ChevronDown, MoreHorizontal, Edit2 } from 'lucide-react';
+import { ReturnMetrics, formatReturn } from '../utils/performance';
+import { PRICE_TYPE_LABELS, evaluateQuoteFreshness } from '../utils/quotes';
+import { ArrowUpDown, ArrowUp, ArrowDown, Search, ListFilter, X, Filter, Trash2, Plus, Save, RefreshCw, Check, ListOrdered, ChevronUp, ChevronDown, MoreHorizontal, Edit2, History, HandCoins } from 'lucide-react';
+import { TransactionLedger } from './TransactionLedger';
+import { TickerPicker } from './TickerPicker';
 
 interface HoldingsTableProps {
   holdings: CalculatedHolding[];
   customColors: ThemeColors;
+  transactions?: Transaction[];
+  accounts?: Account[];
+  activeAccountId?: string; // 目前檢視的帳戶，新增持股時預設歸入此帳戶
   onUpdateHolding?: (id: string, field: 'avgPrice' | 'currentPrice' | 'quantity', value: number) => void;
+  onUpdateTransactions?: (transactions: Transaction[]) => void;
   onAddHolding?: (holding: Holding) => void;
   onDeleteHolding?: (id: string) => void;
   onRefreshPrices?: () => void;
+  onFetchQuote?: (code: string) => Promise<Quote | null>; // 新增持股時帶入現價
   isUpdatingPrices?: boolean;
+  performance?: Record<string, ReturnMetrics>; // 各持股 XIRR / TWR，以持股 id 索引
 }
 
 // Multi-sort configuration
@@ -90,11 +102,17 @@ const PriceInput = ({
 export const HoldingsTable: React.FC<HoldingsTableProps> = ({ 
   holdings, 
   customColors, 
+  transactions = [],
+  accounts = [],
+  activeAccountId = ALL_ACCOUNTS,
   onUpdateHolding, 
+  onUpdateTransactions,
   onAddHolding, 
   onDeleteHolding, 
   onRefreshPrices,
-  isUpdatingPrices
+  onFetchQuote,
+  isUpdatingPrices,
+  performance = {}
 }) => {
   // --- State: Sorting ---
   // We use an array to support multi-column sorting
@@ -124,6 +142,16 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
     avgPrice: 0,
     currentPrice: 0
   });
+  const [autoFetchQuote, setAutoFetchQuote] = useState(true);
+  const [isFetchingQuote, setIsFetchingQuote] = useState(false);
+
+  // Account names are only worth showing when holdings from several accounts are listed together
+  const showAccountBadge = accounts.length > 1 && activeAccountId === ALL_ACCOUNTS;
+  const accountName = (h: Holding) => accounts.find(a => a.id === accountOf(h))?.name || '';
+
+  // --- State: Trade Ledger Modal ---
+  const [ledgerTarget, setLedgerTarget] = useState<{ holdingId: string; type: TradeType } | null>(null);
+  const ledgerHolding = holdings.find(h => h.id === ledgerTarget?.holdingId) || null;
 
   // Calculate Grand Total for Weight calculation
   const grandTotalValue = useMemo(() => {
@@ -142,6 +170,10 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
     { value: 'presentValue', label: '現值' },
     { value: 'profit', label: '損益' },
     { value: 'roi', label: '報酬率' },
+    { value: 'dividendsReceived', label: '已領股息' },
+    { value: 'totalReturn', label: '含息損益' },
+    { value: 'totalReturnRoi', label: '含息報酬率' },
+    { value: 'breakEvenPrice', label: '含息成本價' },
   ];
 
   // --- Handlers: Sorting Logic ---
@@ -247,6 +279,25 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
   };
 
   // --- Handlers: Add Holding ---
+  const handlePickTicker = async (security: SecurityInfo) => {
+    setNewHoldingData(prev => ({ ...prev, name: security.name, code: security.code, type: security.type }));
+    if (!autoFetchQuote || !onFetchQuote) return;
+
+    setIsFetchingQuote(true);
+    try {
+      const quote = await onFetchQuote(security.code);
+      if (quote) {
+        const { price, ...info } = quote;
+        // Ignore the answer if another ticker was picked in the meantime
+        setNewHoldingData(prev => (prev.code === security.code ? { ...prev, currentPrice: price, quote: info } : prev));
+      }
+    } catch (error) {
+      console.warn('Quote lookup failed:', error);
+    } finally {
+      setIsFetchingQuote(false);
+    }
+  };
+
   const handleAddSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (onAddHolding && newHoldingData.name && newHoldingData.code) {
@@ -258,6 +309,8 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
             quantity: newHoldingData.quantity || 0,
             avgPrice: newHoldingData.avgPrice || 0,
             currentPrice: newHoldingData.currentPrice || 0,
+            quote: newHoldingData.quote,
+            accountId: newHoldingData.accountId || (activeAccountId !== ALL_ACCOUNTS ? activeAccountId : accounts[0]?.id),
         });
         setIsAddModalOpen(false);
         setNewHoldingData({
@@ -347,12 +400,19 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
   const totalValue = sortedHoldings.reduce((sum, h) => sum + h.presentValue, 0);
   const totalProfit = totalValue - totalCost;
   const totalRoi = totalCost === 0 ? 0 : (totalProfit / totalCost) * 100;
+  const totalDividends = sortedHoldings.reduce((sum, h) => sum + h.dividendsReceived, 0);
+  const totalReturn = totalProfit + totalDividends;
+  const totalReturnRoi = totalCost === 0 ? 0 : (totalReturn / totalCost) * 100;
   const totalWeight = grandTotalValue === 0 ? 0 : (totalValue / grandTotalValue) * 100;
 
   // Helper for filter options
   const fieldOptions: { value: FilterField; label: string }[] = [
     { value: 'profit', label: '損益 ($)' },
     { value: 'roi', label: '報酬率 (%)' },
+    { value: 'dividendsReceived', label: '已領股息 ($)' },
+    { value: 'totalReturn', label: '含息損益 ($)' },
+    { value: 'totalReturnRoi', label: '含息報酬率 (%)' },
+    { value: 'breakEvenPrice', label: '含息成本價' },
     { value: 'presentValue', label: '現值 ($)' },
     { value: 'cost', label: '成本 ($)' },
     { value: 'weight', label: '權重 (%)' },
@@ -361,6 +421,38 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
   ];
 
   // Helper to render Profit/ROI with visual indicators
+  // Annualized XIRR and TWR under the simple ROI
+  const renderReturnMetrics = (id: string) => {
+    const metrics = performance[id];
+    if (!metrics || (metrics.xirr === null && metrics.twr === null)) return null;
+    return (
+      <div className="mt-1 text-[10px] text-skin-text-muted font-mono whitespace-nowrap" title={metrics.since ? `自 ${metrics.since} 起` : undefined}>
+        XIRR {formatReturn(metrics.xirr)} · TWR{metrics.twrAnnualized ? '' : '累計'} {formatReturn(metrics.twr)}
+      </div>
+    );
+  };
+
+  // Flags prices that are not a fresh last trade; manually entered prices carry no quote info
+  const renderQuoteBadge = (h: CalculatedHolding, align: 'left' | 'right' = 'right') => {
+    if (!h.quote) return null;
+    const freshness = evaluateQuoteFreshness(h.quote);
+    if (!freshness.stale && !freshness.derived) return null;
+    return (
+      <div className={`mt-1 flex gap-1 ${align === 'right' ? 'justify-end' : ''}`} title={freshness.detail}>
+        {freshness.derived && (
+          <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400">
+            {PRICE_TYPE_LABELS[h.quote.priceType]}
+          </span>
+        )}
+        {freshness.stale && (
+          <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-skin-base text-skin-text-muted border border-skin-border">
+            過時
+          </span>
+        )}
+      </div>
+    );
+  };
+
   const renderTrendValue = (value: number, isPercent: boolean) => {
     const isPositive = value > 0;
     const isNegative = value < 0;
@@ -754,7 +846,11 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
               <SortHeader field="presentValue" label="現值" className="min-w-[110px]" />
               <SortHeader field="profit" label="損益" className="min-w-[110px]" />
               <SortHeader field="roi" label="報酬率" className="min-w-[100px]" />
-              {onDeleteHolding && <th className="px-4 py-4 w-10"></th>}
+              <SortHeader field="dividendsReceived" label="已領股息" className="min-w-[100px]" />
+              <SortHeader field="totalReturn" label="含息損益" className="min-w-[110px]" />
+              <SortHeader field="totalReturnRoi" label="含息報酬率" className="min-w-[100px]" />
+              <SortHeader field="breakEvenPrice" label="含息成本價" className="min-w-[100px]" />
+              {(onDeleteHolding || onUpdateTransactions) && <th className="px-4 py-4 w-10"></th>}
             </tr>
           </thead>
           <tbody className="divide-y divide-skin-border">
@@ -768,7 +864,10 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                             {/* Name & Code */}
                             <td className="px-4 py-3">
                                 <div className="font-bold text-skin-text-base">{h.name}</div>
-                                <div className="text-xs text-skin-text-muted font-mono">{h.code}</div>
+                                <div className="text-xs text-skin-text-muted font-mono">
+                                    {h.code}
+                                    {showAccountBadge && <span className="ml-2 font-sans px-1.5 py-0.5 rounded bg-skin-base border border-skin-border text-[10px]">{accountName(h)}</span>}
+                                </div>
                             </td>
                             
                             {/* Type Badge */}
@@ -798,27 +897,35 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                                 </div>
                             </td>
                             
-                            {/* Quantity Input */}
+                            {/* Quantity (derived from ledger when available) */}
                             <td className="px-4 py-3 text-right">
-                                <input 
-                                    type="number"
-                                    className="w-full text-right bg-transparent border-b border-transparent hover:border-skin-border focus:border-skin-primary px-0 py-1 font-mono text-skin-text-base transition-all no-spinner focus:outline-none"
-                                    value={h.quantity}
-                                    onFocus={handleFocus}
-                                    onChange={(e) => onUpdateHolding?.(h.id, 'quantity', parseFloat(e.target.value) || 0)}
-                                />
+                                {h.hasLedger ? (
+                                    <span className="font-mono text-skin-text-base" title="由交易紀錄推算">{formatCurrency(h.quantity)}</span>
+                                ) : (
+                                    <input 
+                                        type="number"
+                                        className="w-full text-right bg-transparent border-b border-transparent hover:border-skin-border focus:border-skin-primary px-0 py-1 font-mono text-skin-text-base transition-all no-spinner focus:outline-none"
+                                        value={h.quantity}
+                                        onFocus={handleFocus}
+                                        onChange={(e) => onUpdateHolding?.(h.id, 'quantity', parseFloat(e.target.value) || 0)}
+                                    />
+                                )}
                             </td>
 
-                            {/* Avg Price Input */}
+                            {/* Avg Price (derived from ledger when available) */}
                             <td className="px-4 py-3 text-right">
-                                <input 
-                                    type="number"
-                                    step="0.01"
-                                    className="w-full text-right bg-transparent border-b border-transparent hover:border-skin-border focus:border-skin-primary px-0 py-1 text-skin-text-muted font-mono transition-all no-spinner focus:outline-none"
-                                    value={h.avgPrice}
-                                    onFocus={handleFocus}
-                                    onChange={(e) => onUpdateHolding?.(h.id, 'avgPrice', parseFloat(e.target.value) || 0)}
-                                />
+                                {h.hasLedger ? (
+                                    <span className="text-skin-text-muted font-mono" title="由交易紀錄推算">{h.avgPrice.toFixed(2)}</span>
+                                ) : (
+                                    <input 
+                                        type="number"
+                                        step="0.01"
+                                        className="w-full text-right bg-transparent border-b border-transparent hover:border-skin-border focus:border-skin-primary px-0 py-1 text-skin-text-muted font-mono transition-all no-spinner focus:outline-none"
+                                        value={h.avgPrice}
+                                        onFocus={handleFocus}
+                                        onChange={(e) => onUpdateHolding?.(h.id, 'avgPrice', parseFloat(e.target.value) || 0)}
+                                    />
+                                )}
                             </td>
                             
                             {/* Cost (Moved) */}
@@ -833,6 +940,7 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                                     onFocus={handleFocus}
                                     onChange={(val) => onUpdateHolding?.(h.id, 'currentPrice', val)}
                                 />
+                                {renderQuoteBadge(h)}
                             </td>
 
                             {/* Present Value */}
@@ -848,18 +956,57 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                             {/* ROI with Icon & Background */}
                             <td className="px-4 py-3 text-right font-medium font-mono">
                                 {renderTrendValue(h.roi, true)}
+                                {renderReturnMetrics(h.id)}
                             </td>
 
-                             {/* Delete Action */}
-                             {onDeleteHolding && (
+                            {/* Total Return incl. Dividends */}
+                            <td className="px-4 py-3 text-right font-mono text-skin-text-base">
+                                {h.dividendsReceived > 0 ? formatCurrency(h.dividendsReceived) : <span className="text-skin-text-muted">-</span>}
+                            </td>
+                            <td className="px-4 py-3 text-right font-bold font-mono">
+                                {renderTrendValue(h.totalReturn, false)}
+                            </td>
+                            <td className="px-4 py-3 text-right font-medium font-mono">
+                                {renderTrendValue(h.totalReturnRoi, true)}
+                            </td>
+                            <td className="px-4 py-3 text-right font-mono text-skin-text-base" title="扣除已領股息後的損益兩平價">
+                                {h.quantity > 0 ? h.breakEvenPrice.toFixed(2) : <span className="text-skin-text-muted">-</span>}
+                            </td>
+
+                             {/* Row Actions */}
+                             {(onDeleteHolding || onUpdateTransactions) && (
                                 <td className="px-4 py-3 text-center">
-                                    <button 
-                                        onClick={() => onDeleteHolding(h.id)}
-                                        className="text-skin-text-muted hover:text-skin-danger opacity-0 group-hover:opacity-100 transition-all p-1.5 rounded-md hover:bg-skin-base"
-                                        title="刪除"
-                                    >
-                                        <Trash2 size={16} />
-                                    </button>
+                                    <div className="flex items-center justify-center gap-1">
+                                        {onUpdateTransactions && (
+                                            <>
+                                                <button 
+                                                    onClick={() => setLedgerTarget({ holdingId: h.id, type: TradeType.BUY })}
+                                                    className="text-skin-text-muted hover:text-skin-primary transition-all p-1.5 rounded-md hover:bg-skin-base"
+                                                    title="交易紀錄"
+                                                >
+                                                    <History size={16} />
+                                                </button>
+                                                {h.quantity > 0 && (
+                                                    <button 
+                                                        onClick={() => setLedgerTarget({ holdingId: h.id, type: TradeType.SELL })}
+                                                        className="text-skin-text-muted hover:text-skin-danger opacity-0 group-hover:opacity-100 transition-all p-1.5 rounded-md hover:bg-skin-base"
+                                                        title="賣出"
+                                                    >
+                                                        <HandCoins size={16} />
+                                                    </button>
+                                                )}
+                                            </>
+                                        )}
+                                        {onDeleteHolding && (
+                                            <button 
+                                                onClick={() => onDeleteHolding(h.id)}
+                                                className="text-skin-text-muted hover:text-skin-danger opacity-0 group-hover:opacity-100 transition-all p-1.5 rounded-md hover:bg-skin-base"
+                                                title="刪除"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        )}
+                                    </div>
                                 </td>
                             )}
                         </tr>
@@ -867,7 +1014,7 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                 })
             ) : (
                 <tr>
-                    <td colSpan={onDeleteHolding ? 11 : 10} className="px-4 py-12 text-center text-skin-text-muted flex flex-col items-center justify-center">
+                    <td colSpan={(onDeleteHolding || onUpdateTransactions) ? 15 : 14} className="px-4 py-12 text-center text-skin-text-muted flex flex-col items-center justify-center">
                         <div className="bg-skin-base p-4 rounded-full mb-3">
                             <Search className="w-6 h-6 text-skin-text-muted" />
                         </div>
@@ -899,7 +1046,17 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
               <td className="px-4 py-4 text-right font-mono">
                  {renderTrendValue(totalRoi, true)}
               </td>
-              {onDeleteHolding && <td></td>}
+
+              {/* Totals incl. Dividends */}
+              <td className="px-4 py-4 text-right font-mono">{formatCurrency(totalDividends)}</td>
+              <td className="px-4 py-4 text-right font-mono">
+                 {renderTrendValue(totalReturn, false)}
+              </td>
+              <td className="px-4 py-4 text-right font-mono">
+                 {renderTrendValue(totalReturnRoi, true)}
+              </td>
+              <td></td>
+              {(onDeleteHolding || onUpdateTransactions) && <td></td>}
             </tr>
           </tfoot>
         </table>
@@ -921,7 +1078,10 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                                     <div className="w-1 self-stretch rounded-full" style={{ backgroundColor: accentColor }}></div>
                                     <div>
                                         <div className="font-bold text-base text-skin-text-base">{h.name}</div>
-                                        <div className="text-xs text-skin-text-muted font-mono">{h.code}</div>
+                                        <div className="text-xs text-skin-text-muted font-mono">
+                                            {h.code}
+                                            {showAccountBadge && <span className="ml-2 font-sans px-1.5 py-0.5 rounded bg-skin-base border border-skin-border text-[10px]">{accountName(h)}</span>}
+                                        </div>
                                     </div>
                                 </div>
                                 <span 
@@ -948,23 +1108,31 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                             <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
                                 <div className="space-y-1">
                                     <p className="text-xs text-skin-text-muted">股數</p>
-                                    <input 
-                                        type="number" 
-                                        className="w-full bg-transparent border-b border-skin-border/50 py-0.5 font-mono font-medium focus:border-skin-primary focus:outline-none"
-                                        value={h.quantity}
-                                        onFocus={handleFocus}
-                                        onChange={(e) => onUpdateHolding?.(h.id, 'quantity', parseFloat(e.target.value) || 0)}
-                                    />
+                                    {h.hasLedger ? (
+                                        <p className="font-mono font-medium py-0.5 border-b border-transparent">{formatCurrency(h.quantity)}</p>
+                                    ) : (
+                                        <input 
+                                            type="number" 
+                                            className="w-full bg-transparent border-b border-skin-border/50 py-0.5 font-mono font-medium focus:border-skin-primary focus:outline-none"
+                                            value={h.quantity}
+                                            onFocus={handleFocus}
+                                            onChange={(e) => onUpdateHolding?.(h.id, 'quantity', parseFloat(e.target.value) || 0)}
+                                        />
+                                    )}
                                 </div>
                                 <div className="space-y-1">
                                     <p className="text-xs text-skin-text-muted">均價</p>
-                                    <input 
-                                        type="number" 
-                                        className="w-full bg-transparent border-b border-skin-border/50 py-0.5 font-mono font-medium focus:border-skin-primary focus:outline-none"
-                                        value={h.avgPrice}
-                                        onFocus={handleFocus}
-                                        onChange={(e) => onUpdateHolding?.(h.id, 'avgPrice', parseFloat(e.target.value) || 0)}
-                                    />
+                                    {h.hasLedger ? (
+                                        <p className="font-mono font-medium py-0.5 border-b border-transparent">{h.avgPrice.toFixed(2)}</p>
+                                    ) : (
+                                        <input 
+                                            type="number" 
+                                            className="w-full bg-transparent border-b border-skin-border/50 py-0.5 font-mono font-medium focus:border-skin-primary focus:outline-none"
+                                            value={h.avgPrice}
+                                            onFocus={handleFocus}
+                                            onChange={(e) => onUpdateHolding?.(h.id, 'avgPrice', parseFloat(e.target.value) || 0)}
+                                        />
+                                    )}
                                 </div>
                                 <div className="space-y-1">
                                     <p className="text-xs text-skin-text-muted flex justify-between">
@@ -981,6 +1149,7 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                                         onFocus={handleFocus}
                                         onChange={(val) => onUpdateHolding?.(h.id, 'currentPrice', val)}
                                     />
+                                    {renderQuoteBadge(h, 'left')}
                                 </div>
                                 <div className="space-y-1">
                                     <p className="text-xs text-skin-text-muted">持有現值</p>
@@ -990,6 +1159,15 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                                 </div>
                             </div>
 
+                            {/* Dividends & Total Return */}
+                            {h.dividendsReceived > 0 && (
+                                <div className="flex items-center justify-between text-xs mb-3 px-2 py-1.5 rounded bg-skin-base/50">
+                                    <span className="text-skin-text-muted">已領股息 <span className="font-mono text-skin-text-base">{formatCurrency(h.dividendsReceived)}</span></span>
+                                    <span className="text-skin-text-muted">含息 <span className={`font-mono font-bold ${h.totalReturn >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>{h.totalReturnRoi > 0 ? '+' : ''}{h.totalReturnRoi.toFixed(2)}%</span></span>
+                                    {h.quantity > 0 && <span className="text-skin-text-muted">兩平價 <span className="font-mono text-skin-text-base">{h.breakEvenPrice.toFixed(2)}</span></span>}
+                                </div>
+                            )}
+
                             {/* Footer: Profit & Actions */}
                             <div className="flex items-center justify-between pt-3 border-t border-skin-border/50">
                                 <div className="flex items-center gap-2 flex-1">
@@ -998,13 +1176,32 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                                     </div>
                                     <div className="flex-1">
                                         {renderTrendValue(h.roi, true)}
+                                        {renderReturnMetrics(h.id)}
                                     </div>
                                 </div>
                                 
+                                {onUpdateTransactions && (
+                                    <>
+                                        <button 
+                                            onClick={() => setLedgerTarget({ holdingId: h.id, type: TradeType.BUY })}
+                                            className="ml-2 p-2 text-skin-text-muted hover:text-skin-primary hover:bg-skin-base rounded-full"
+                                        >
+                                            <History size={16} />
+                                        </button>
+                                        {h.quantity > 0 && (
+                                            <button 
+                                                onClick={() => setLedgerTarget({ holdingId: h.id, type: TradeType.SELL })}
+                                                className="p-2 text-skin-text-muted hover:text-skin-danger hover:bg-skin-base rounded-full"
+                                            >
+                                                <HandCoins size={16} />
+                                            </button>
+                                        )}
+                                    </>
+                                )}
                                 {onDeleteHolding && (
                                     <button 
                                         onClick={() => onDeleteHolding(h.id)}
-                                        className="ml-2 p-2 text-skin-text-muted hover:text-skin-danger hover:bg-skin-base rounded-full"
+                                        className="p-2 text-skin-text-muted hover:text-skin-danger hover:bg-skin-base rounded-full"
                                     >
                                         <Trash2 size={16} />
                                     </button>
@@ -1039,6 +1236,17 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
         </div>
       </div>
 
+       {/* Trade Ledger Modal */}
+       {ledgerHolding && ledgerTarget && onUpdateTransactions && (
+        <TransactionLedger
+            holding={ledgerHolding}
+            transactions={transactions}
+            initialType={ledgerTarget.type}
+            onUpdateTransactions={onUpdateTransactions}
+            onClose={() => setLedgerTarget(null)}
+        />
+      )}
+
        {/* Add Holding Modal */}
        {isAddModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
@@ -1054,6 +1262,17 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
             </div>
             
             <form onSubmit={handleAddSubmit} className="p-5 space-y-4">
+               <div>
+                  <label className="block text-xs font-medium text-skin-text-muted mb-1">搜尋標的</label>
+                  <TickerPicker onSelect={handlePickTicker} autoFocus />
+                  {onFetchQuote && (
+                    <label className="flex items-center gap-1.5 mt-1.5 text-xs text-skin-text-muted cursor-pointer">
+                      <input type="checkbox" checked={autoFetchQuote} onChange={e => setAutoFetchQuote(e.target.checked)} className="accent-skin-primary" />
+                      選取後自動帶入現價
+                      {isFetchingQuote && <RefreshCw size={12} className="animate-spin text-skin-primary" />}
+                    </label>
+                  )}
+               </div>
                <div>
                   <label className="block text-xs font-medium text-skin-text-muted mb-1">名稱</label>
                   <input 
@@ -1089,12 +1308,26 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                     </select>
                   </div>
                </div>
+               {accounts.length > 1 && (
+                  <div>
+                    <label className="block text-xs font-medium text-skin-text-muted mb-1">證券帳戶</label>
+                    <select 
+                        className="w-full px-3 py-2 bg-skin-base border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm"
+                        value={newHoldingData.accountId || (activeAccountId !== ALL_ACCOUNTS ? activeAccountId : accounts[0].id)}
+                        onChange={e => setNewHoldingData({...newHoldingData, accountId: e.target.value})}
+                    >
+                        {accounts.map(a => (
+                            <option key={a.id} value={a.id}>{a.name}{a.broker ? ` (${a.broker})` : ''}</option>
+                        ))}
+                    </select>
+                  </div>
+               )}
                
                <div className="h-px bg-skin-border my-2"></div>
                
                <div className="grid grid-cols-3 gap-3">
                   <div>
-                    <label className="block text-xs font-medium text-skin-text-muted mb-1">股數</label>
+                    <label className="block text-xs font-medium text-skin-text-muted mb-1">首筆買進股數</label>
                     <input 
                         type="number" 
                         min="0"
@@ -1122,7 +1355,7 @@ export const HoldingsTable: React.FC<HoldingsTableProps> = ({
                         min="0"
                         className="w-full px-3 py-2 bg-skin-base border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm font-mono"
                         value={newHoldingData.currentPrice}
-                        onChange={e => setNewHoldingData({...newHoldingData, currentPrice: parseFloat(e.target.value) || 0})}
+                        onChange={e => setNewHoldingData({...newHoldingData, currentPrice: parseFloat(e.target.value) || 0, quote: undefined})}
                     />
                   </div>
                </div>
@@ -0,0 +1,199 @@
+import React, { useMemo } from 'react';
+import { AssetType, ThemeColors } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { combineSummaries, PortfolioOverview } from '../utils/portfolios';
+import { Users, Wallet, TrendingUp, TrendingDown, PieChart as PieChartIcon, ChevronRight, Coins } from 'lucide-react';
+
+interface HouseholdOverviewProps {
+  overviews: PortfolioOverview[];
+  customColors: ThemeColors;
+  onOpenPortfolio: (id: string) => void;
+}
+
+// One row per ticker across every portfolio
+interface CombinedPosition {
+  code: string;
+  name: string;
+  type: AssetType;
+  quantity: number;
+  presentValue: number;
+  portfolios: string[];
+}
+
+export const HouseholdOverview: React.FC<HouseholdOverviewProps> = ({ overviews, customColors, onOpenPortfolio }) => {
+  const summary = useMemo(() => combineSummaries(overviews.map(o => o.summary)), [overviews]);
+  const investedValue = summary.stockValue + summary.bondValue;
+
+  const positions = useMemo(() => {
+    const byCode = new Map<string, CombinedPosition>();
+    overviews.forEach(({ portfolio, holdings }) => {
+      holdings.forEach(h => {
+        if (h.quantity <= 0) return;
+        const existing = byCode.get(h.code);
+        if (existing) {
+          existing.quantity += h.quantity;
+          existing.presentValue += h.presentValue;
+          if (!existing.portfolios.includes(portfolio.name)) existing.portfolios.push(portfolio.name);
+        } else {
+          byCode.set(h.code, { code: h.code, name: h.name, type: h.type, quantity: h.quantity, presentValue: h.presentValue, portfolios: [portfolio.name] });
+        }
+      });
+    });
+    return Array.from(byCode.values()).sort((a, b) => b.presentValue - a.presentValue);
+  }, [overviews]);
+
+  const cashRatio = summary.totalAssets === 0 ? 0 : (summary.cashValue / summary.totalAssets) * 100;
+  const isProfit = summary.totalProfit >= 0;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center gap-2">
+        <Users size={20} className="text-skin-primary" />
+        <h2 className="text-lg font-bold text-skin-text-base">全家合計</h2>
+        <span className="text-xs text-skin-text-muted">{overviews.length} 個投資組合</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-skin-card rounded-xl shadow-sm border border-skin-border p-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-skin-text-muted text-sm font-medium">總資產現值</h3>
+            <div className="p-2 bg-skin-primary/10 rounded-lg text-skin-primary">
+              <Wallet className="w-4 h-4" />
+            </div>
+          </div>
+          <p className="text-2xl font-bold text-skin-text-base mt-2 font-mono">${formatCurrency(summary.totalAssets)}</p>
+          <p className="text-xs text-skin-text-muted mt-1">包含 {formatCurrency(summary.cashValue)} 定存與現金</p>
+        </div>
+
+        <div className="bg-skin-card rounded-xl shadow-sm border border-skin-border p-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-skin-text-muted text-sm font-medium">未實現損益</h3>
+            <div className={`p-2 rounded-lg ${isProfit ? 'text-skin-success bg-skin-success/10' : 'text-skin-danger bg-skin-danger/10'}`}>
+              {isProfit ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+            </div>
+          </div>
+          <p className={`text-2xl font-bold mt-2 font-mono ${isProfit ? 'text-skin-success' : 'text-skin-danger'}`}>
+            {isProfit ? '+' : ''}{formatCurrency(summary.totalProfit)}
+          </p>
+          <p className="text-xs text-skin-text-muted mt-1">報酬率 {formatPercent(summary.totalRoi)}</p>
+        </div>
+
+        <div className="bg-skin-card rounded-xl shadow-sm border border-skin-border p-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-skin-text-muted text-sm font-medium">已實現損益</h3>
+            <div className="p-2 bg-skin-base rounded-lg text-skin-text-muted">
+              <Coins className="w-4 h-4" />
+            </div>
+          </div>
+          <p className={`text-2xl font-bold mt-2 font-mono ${summary.realizedProfit >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>
+            {summary.realizedProfit >= 0 ? '+' : ''}{formatCurrency(summary.realizedProfit)}
+          </p>
+          <p className="text-xs text-skin-text-muted mt-1">累計賣出結算</p>
+        </div>
+
+        <div className="bg-skin-card rounded-xl shadow-sm border border-skin-border p-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-skin-text-muted text-sm font-medium">合併股債比</h3>
+            <div className="p-2 bg-skin-base rounded-lg text-skin-text-muted">
+              <PieChartIcon className="w-4 h-4" />
+            </div>
+          </div>
+          <p className="text-2xl font-bold text-skin-text-base mt-2 font-mono">
+            {summary.stockRatio.toFixed(0)} : {summary.bondRatio.toFixed(0)}
+          </p>
+          <div className="mt-2 h-2 rounded-full overflow-hidden flex bg-skin-base">
+            <div style={{ width: `${(summary.stockValue / (summary.totalAssets || 1)) * 100}%`, backgroundColor: customColors.stock }} />
+            <div style={{ width: `${(summary.bondValue / (summary.totalAssets || 1)) * 100}%`, backgroundColor: customColors.bond }} />
+            <div style={{ width: `${cashRatio}%`, backgroundColor: customColors.cash }} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-skin-card rounded-xl shadow-sm border border-skin-border overflow-hidden">
+        <div className="p-4 bg-skin-base border-b border-skin-border">
+          <h3 className="font-bold text-skin-text-base">各投資組合</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-skin-text-muted">
+              <tr>
+                <th className="px-4 py-2 font-medium">組合</th>
+                <th className="px-4 py-2 font-medium text-right">總資產</th>
+                <th className="px-4 py-2 font-medium text-right">佔全家</th>
+                <th className="px-4 py-2 font-medium text-right">股 : 債</th>
+                <th className="px-4 py-2 font-medium text-right">未實現損益</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-skin-border">
+              {overviews.map(({ portfolio, summary: s }) => (
+                <tr key={portfolio.id} className="hover:bg-skin-base/50 transition-colors">
+                  <td className="px-4 py-3 font-bold text-skin-text-base">{portfolio.name}</td>
+                  <td className="px-4 py-3 text-right font-mono">${formatCurrency(s.totalAssets)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-skin-text-muted">
+                    {formatPercent(summary.totalAssets === 0 ? 0 : (s.totalAssets / summary.totalAssets) * 100)}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono text-skin-text-muted">{s.stockRatio.toFixed(0)} : {s.bondRatio.toFixed(0)}</td>
+                  <td className={`px-4 py-3 text-right font-mono ${s.totalProfit >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>
+                    {s.totalProfit >= 0 ? '+' : ''}{formatCurrency(s.totalProfit)}
+                    <span className="text-xs ml-1">({formatPercent(s.totalRoi)})</span>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => onOpenPortfolio(portfolio.id)}
+                      className="text-xs font-bold text-skin-primary hover:underline inline-flex items-center gap-0.5"
+                    >
+                      開啟 <ChevronRight size={12} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {positions.length > 0 && (
+        <div className="bg-skin-card rounded-xl shadow-sm border border-skin-border overflow-hidden">
+          <div className="p-4 bg-skin-base border-b border-skin-border">
+            <h3 className="font-bold text-skin-text-base">合併持股</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-skin-text-muted">
+                <tr>
+                  <th className="px-4 py-2 font-medium">標的</th>
+                  <th className="px-4 py-2 font-medium text-right">股數</th>
+                  <th className="px-4 py-2 font-medium text-right">市值</th>
+                  <th className="px-4 py-2 font-medium text-right">佔投資部位</th>
+                  <th className="px-4 py-2 font-medium">持有組合</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-skin-border">
+                {positions.map(p => (
+                  <tr key={p.code}>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <div className="w-1 h-6 rounded-full" style={{ backgroundColor: p.type === AssetType.STOCK ? customColors.stock : customColors.bond }}></div>
+                        <div>
+                          <div className="font-bold font-mono text-skin-text-base">{p.code}</div>
+                          <div className="text-xs text-skin-text-muted">{p.name}</div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono">{formatCurrency(p.quantity)}</td>
+                    <td className="px-4 py-3 text-right font-mono">${formatCurrency(p.presentValue)}</td>
+                    <td className="px-4 py-3 text-right font-mono text-skin-text-muted">
+                      {formatPercent(investedValue === 0 ? 0 : (p.presentValue / investedValue) * 100)}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-skin-text-muted">{p.portfolios.join('、')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
+import { PortfolioSnapshot, ThemeColors } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { LineChart as LineChartIcon } from 'lucide-react';
+
+interface NetWorthHistoryProps {
+  snapshots: PortfolioSnapshot[];
+  theme: 'light' | 'dark' | 'contrast';
+  customColors: ThemeColors;
+}
+
+type HistoryRange = '1M' | '3M' | '1Y' | 'ALL';
+
+const RANGE_OPTIONS: { id: HistoryRange; label: string; days?: number }[] = [
+  { id: '1M', label: '1月', days: 31 },
+  { id: '3M', label: '3月', days: 92 },
+  { id: '1Y', label: '1年', days: 366 },
+  { id: 'ALL', label: '全部' },
+];
+
+export const NetWorthHistory: React.FC<NetWorthHistoryProps> = ({ snapshots, theme, customColors }) => {
+  const [range, setRange] = useState<HistoryRange>('3M');
+
+  const gridColor = theme === 'light' ? '#f3f4f6' : (theme === 'contrast' ? '#333333' : '#334155');
+  const tooltipStyle = {
+    backgroundColor: theme === 'light' ? '#ffffff' : (theme === 'contrast' ? '#000000' : '#1e293b'),
+    borderColor: theme === 'light' ? '#e5e7eb' : (theme === 'contrast' ? '#ffffff' : '#334155'),
+    color: theme === 'light' ? '#374151' : '#f3f4f6',
+  };
+
+  const data = useMemo(() => {
+    const days = RANGE_OPTIONS.find(r => r.id === range)?.days;
+    if (!days) return snapshots;
+    const from = new Date();
+    from.setDate(from.getDate() - days);
+    const fromStr = from.toISOString().split('T')[0];
+    return snapshots.filter(s => s.date >= fromStr);
+  }, [snapshots, range]);
+
+  const HistoryTooltip = ({ active, payload, label }: any) => {
+    if (!active || !payload || !payload.length) return null;
+    const s: PortfolioSnapshot = payload[0].payload;
+    return (
+      <div className="rounded-xl shadow-lg border p-3 text-xs font-mono space-y-1" style={tooltipStyle}>
+        <div className="font-bold text-sm mb-1">{label}</div>
+        <div className="flex justify-between gap-4"><span className="opacity-70">總資產:</span><span className="font-bold">${formatCurrency(s.totalAssets)}</span></div>
+        <div className="flex justify-between gap-4"><span className="opacity-70">投入成本:</span><span>${formatCurrency(s.totalCost)}</span></div>
+        <div className="flex justify-between gap-4"><span className="opacity-70">現金:</span><span>${formatCurrency(s.cashValue)}</span></div>
+        <div className="flex justify-between gap-4"><span className="opacity-70">股 : 債:</span><span>{s.stockRatio.toFixed(1)} : {s.bondRatio.toFixed(1)}</span></div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-skin-card p-6 rounded-xl shadow-sm border border-skin-border">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-skin-text-base flex items-center gap-2">
+            <LineChartIcon size={18} className="text-skin-primary" />
+            資產走勢
+          </h3>
+          <p className="text-xs text-skin-text-muted">每日開啟或更新報價後自動記錄 (整個組合，含所有帳戶)</p>
+        </div>
+        <div className="flex bg-skin-base p-0.5 rounded-lg border border-skin-border self-start">
+          {RANGE_OPTIONS.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRange(r.id)}
+              className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${range === r.id ? 'bg-skin-primary text-skin-primary-fg shadow-sm' : 'text-skin-text-muted'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {data.length < 2 ? (
+        <div className="h-[260px] flex items-center justify-center text-sm text-skin-text-muted text-center">
+          快照累積兩天以上後即可顯示走勢<br />
+          (目前共 {snapshots.length} 筆)
+        </div>
+      ) : (
+        <div className="h-[300px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+              <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} axisLine={false} tickLine={false} minTickGap={24} />
+              <YAxis
+                yAxisId="value"
+                tick={{ fontSize: 11, fill: '#6b7280' }}
+                axisLine={false}
+                tickLine={false}
+                width={56}
+                tickFormatter={(v: number) => `${Math.round(v / 10000)}萬`}
+              />
+              <YAxis
+                yAxisId="ratio"
+                orientation="right"
+                domain={[0, 100]}
+                tick={{ fontSize: 11, fill: '#6b7280' }}
+                axisLine={false}
+                tickLine={false}
+                width={36}
+                tickFormatter={(v: number) => `${v}%`}
+              />
+              <RechartsTooltip content={<HistoryTooltip />} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Area yAxisId="value" type="monotone" dataKey="totalAssets" name="總資產" stroke={customColors.primary} fill={customColors.primary} fillOpacity={0.12} strokeWidth={2} />
+              <Line yAxisId="value" type="monotone" dataKey="totalCost" name="投入成本" stroke={customColors.cash} strokeDasharray="4 4" dot={false} strokeWidth={2} />
+              <Line yAxisId="ratio" type="monotone" dataKey="stockRatio" name="股票比例" stroke={customColors.stock} dot={false} strokeWidth={1.5} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Portfolio } from '../types';
+import { DEFAULT_PORTFOLIO_ID } from '../constants';
+import { Briefcase, Plus, Trash2, ChevronRight } from 'lucide-react';
+
+interface PortfolioSettingsProps {
+  portfolios: Portfolio[];
+  activePortfolioId: string;
+  onUpdatePortfolios: (portfolios: Portfolio[]) => void;
+  onOpenPortfolio: (id: string) => void;
+}
+
+export const PortfolioSettings: React.FC<PortfolioSettingsProps> = ({ portfolios, activePortfolioId, onUpdatePortfolios, onOpenPortfolio }) => {
+  const handleAdd = () => {
+    onUpdatePortfolios([
+      ...portfolios,
+      {
+        id: Date.now().toString(),
+        name: `投資組合 ${portfolios.length + 1}`,
+      },
+    ]);
+  };
+
+  const handleDelete = (portfolio: Portfolio) => {
+    if (!confirm(`確定刪除「${portfolio.name}」？\n此組合的持股、交易、股息紀錄與目標配置將一併刪除且無法復原，建議先匯出備份。`)) return;
+    onUpdatePortfolios(portfolios.filter(p => p.id !== portfolio.id));
+  };
+
+  return (
+    <div className="space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider">投資組合</h4>
+        <button
+          onClick={handleAdd}
+          className="text-xs flex items-center gap-1 text-skin-primary font-bold hover:underline"
+        >
+          <Plus size={12} /> 新增組合
+        </button>
+      </div>
+      <p className="text-xs text-skin-text-muted">
+        每個組合各自保存持股、現金、股息紀錄與目標配置；外觀與手續費設定為所有組合共用。可在頁首切換組合或檢視全家合計。
+      </p>
+
+      {portfolios.map(p => (
+        <div key={p.id} className="bg-skin-base/50 p-4 rounded-xl border border-skin-border flex items-center gap-2">
+          <Briefcase size={16} className="text-skin-primary shrink-0" />
+          <input
+            type="text"
+            className="w-full px-2 py-1.5 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm font-bold"
+            defaultValue={p.name}
+            onBlur={e => onUpdatePortfolios(portfolios.map(x => (x.id === p.id ? { ...x, name: e.target.value.trim() || x.name } : x)))}
+          />
+          {p.id === activePortfolioId ? (
+            <span className="shrink-0 px-2 py-1 text-[10px] font-bold rounded-md bg-skin-primary/10 text-skin-primary">目前</span>
+          ) : (
+            <button
+              onClick={() => onOpenPortfolio(p.id)}
+              className="shrink-0 text-xs font-bold text-skin-primary hover:underline flex items-center gap-0.5"
+            >
+              開啟 <ChevronRight size={12} />
+            </button>
+          )}
+          {p.id !== DEFAULT_PORTFOLIO_ID && (
+            <button
+              onClick={() => handleDelete(p)}
+              className="p-1.5 text-skin-text-muted hover:text-skin-danger rounded-md transition-colors shrink-0"
+              title="刪除"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  PRICE_HISTORY_PROVIDERS,
+  StoredCodeSummary,
+  backfillPriceHistory,
+  deletePriceBars,
+  parsePriceCsv,
+  savePriceBars,
+  summarizePriceStore,
+} from '../utils/priceHistory';
+import { Database, DownloadCloud, FileUp, Loader2, Trash2 } from 'lucide-react';
+
+interface PriceHistorySettingsProps {
+  codes: string[];       // 持股與比較基準的代號，預設回補對象
+  defaultFrom: string;   // 預設回補起日 (第一筆交易)
+  onHistoryChanged: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm';
+
+export const PriceHistorySettings: React.FC<PriceHistorySettingsProps> = ({ codes, defaultFrom, onHistoryChanged }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [summaries, setSummaries] = useState<StoredCodeSummary[]>([]);
+  const [providerId, setProviderId] = useState(PRICE_HISTORY_PROVIDERS[0].id);
+  const [from, setFrom] = useState(defaultFrom);
+  const [importCode, setImportCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ text: string; error?: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setSummaries(await summarizePriceStore());
+    } catch (e: any) {
+      setStatus({ text: `無法讀取價格資料庫：${e?.message || e}`, error: true });
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleBackfill = async () => {
+    const provider = PRICE_HISTORY_PROVIDERS.find(p => p.id === providerId) || PRICE_HISTORY_PROVIDERS[0];
+    setBusy(true);
+    setStatus({ text: `正在從 ${provider.name} 回補 ${codes.length} 檔標的…` });
+    const results = await backfillPriceHistory(codes, provider, from, today);
+    const added = results.reduce((sum, r) => sum + r.added, 0);
+    const failed = results.filter(r => r.error);
+    setStatus({
+      text: `新增 ${added} 筆日價格` + (failed.length > 0 ? `；失敗：${failed.map(r => `${r.code} (${r.error})`).join('、')}` : ''),
+      error: failed.length > 0,
+    });
+    setBusy(false);
+    await refresh();
+    onHistoryChanged();
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async e => {
+      try {
+        const parsed = parsePriceCsv(e.target?.result as string, importCode.trim().toUpperCase() || undefined);
+        const entries = Object.entries(parsed);
+        if (entries.length === 0) throw new Error('檔案中沒有可用的價格');
+        for (const [code, bars] of entries) {
+          await savePriceBars(code, bars, 'csv');
+        }
+        setStatus({ text: `已匯入 ${entries.map(([code, bars]) => `${code} ${bars.length} 筆`).join('、')}` });
+        await refresh();
+        onHistoryChanged();
+      } catch (err: any) {
+        setStatus({ text: `匯入失敗：${err?.message || err}`, error: true });
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleDelete = async (code: string) => {
+    if (!confirm(`確定刪除 ${code} 的所有歷史價格？`)) return;
+    await deletePriceBars(code);
+    await refresh();
+    onHistoryChanged();
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-2">
+        <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider flex items-center gap-2">
+          <Database size={14} /> 歷史價格資料庫
+        </h4>
+        <p className="text-xs text-skin-text-muted">
+          每日收盤價儲存在瀏覽器的 IndexedDB，供績效、資產走勢與比較基準離線使用。不會包含在 CSV 備份中。
+        </p>
+      </div>
+
+      <div className="bg-skin-base/50 p-4 rounded-xl border border-skin-border space-y-3">
+        <h5 className="font-bold text-skin-text-base text-sm flex items-center gap-2">
+          <DownloadCloud size={16} className="text-skin-primary" /> 從資料來源回補
+        </h5>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-skin-text-muted mb-1">資料來源</label>
+            <select className={inputClass} value={providerId} onChange={e => setProviderId(e.target.value)}>
+              {PRICE_HISTORY_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-skin-text-muted mb-1">起始日期</label>
+            <input type="date" className={`${inputClass} font-mono`} value={from} max={today} onChange={e => setFrom(e.target.value)} />
+          </div>
+        </div>
+        <p className="text-xs text-skin-text-muted">對象：{codes.length > 0 ? codes.join('、') : '—'}。已有的日期不會重複下載。</p>
+        <button
+          onClick={handleBackfill}
+          disabled={busy || codes.length === 0 || !from}
+          className="px-4 py-2 bg-skin-primary text-skin-primary-fg rounded-lg text-sm font-bold hover:opacity-90 disabled:opacity-50 transition-all shadow-sm flex items-center gap-2"
+        >
+          {busy ? <Loader2 size={16} className="animate-spin" /> : <DownloadCloud size={16} />} 開始回補
+        </button>
+      </div>
+
+      <div className="bg-skin-base/50 p-4 rounded-xl border border-skin-border space-y-3">
+        <h5 className="font-bold text-skin-text-base text-sm flex items-center gap-2">
+          <FileUp size={16} className="text-skin-primary" /> 匯入 CSV
+        </h5>
+        <p className="text-xs text-skin-text-muted">
+          需有標題列，至少包含日期 (date / 日期) 與收盤價 (close / 收盤價) 欄位；可直接使用證交所個股日成交資訊 (民國年日期)。檔案沒有代號欄位時，請填寫代號。
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            className={`${inputClass} sm:w-40 font-mono`}
+            placeholder="代號 (選填)"
+            value={importCode}
+            onChange={e => setImportCode(e.target.value)}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="px-4 py-2 bg-skin-card border border-skin-border hover:border-skin-primary hover:text-skin-primary rounded-lg text-sm font-bold transition-all shadow-sm disabled:opacity-50"
+          >
+            選擇檔案
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv" className="hidden" />
+        </div>
+      </div>
+
+      {status && (
+        <p className={`text-xs font-bold ${status.error ? 'text-skin-danger' : 'text-skin-text-base'}`}>{status.text}</p>
+      )}
+
+      <div className="space-y-2">
+        <h5 className="text-xs font-bold text-skin-text-muted">已儲存</h5>
+        {summaries.length === 0 ? (
+          <p className="text-xs text-skin-text-muted">尚無歷史價格</p>
+        ) : (
+          <div className="border border-skin-border rounded-xl overflow-hidden">
+            <table className="w-full text-xs">
+              <thead className="bg-skin-base text-skin-text-muted">
+                <tr>
+                  <th className="px-3 py-2 text-left">代號</th>
+                  <th className="px-3 py-2 text-right">筆數</th>
+                  <th className="px-3 py-2 text-left">期間</th>
+                  <th className="px-3 py-2 text-left">來源</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map(s => (
+                  <tr key={s.code} className="border-t border-skin-border">
+                    <td className="px-3 py-2 font-bold font-mono">{s.code}</td>
+                    <td className="px-3 py-2 text-right font-mono">{s.count}</td>
+                    <td className="px-3 py-2 font-mono">{s.first} ~ {s.last}</td>
+                    <td className="px-3 py-2 text-skin-text-muted">{s.sources.join(', ')}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button onClick={() => handleDelete(s.code)} className="p-1 text-skin-text-muted hover:text-skin-danger" title="刪除">
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
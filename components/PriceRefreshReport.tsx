@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { PriceRefreshReport as Report, PRICE_TYPE_LABELS } from '../utils/quotes';
+import { getQuoteProviderName } from '../utils/quoteProviders';
+import { QuotePriceType } from '../types';
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronUp, X } from 'lucide-react';
+
+interface PriceRefreshReportProps {
+  report: Report;
+  onClose: () => void;
+}
+
+// A clean report disappears by itself unless the user opened the details
+const AUTO_DISMISS_MS = 6000;
+
+export const PriceRefreshReport: React.FC<PriceRefreshReportProps> = ({ report, onClose }) => {
+  const [expanded, setExpanded] = useState(false);
+  const hasFailures = report.failed.length > 0;
+  const providers = Array.from(new Set<string>(report.updated.map(u => u.source))).map(getQuoteProviderName);
+
+  useEffect(() => {
+    setExpanded(false);
+  }, [report]);
+
+  useEffect(() => {
+    if (hasFailures || expanded) return;
+    const timer = setTimeout(onClose, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [report, hasFailures, expanded]);
+
+  const title = report.updated.length === 0
+    ? '未能取得最新價格'
+    : `已更新 ${report.updated.length} 檔${hasFailures ? `，${report.failed.length} 檔失敗` : ''}`;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 w-[calc(100%-3rem)] max-w-md animate-fade-in">
+      <div className="bg-skin-card/95 backdrop-blur-md border border-skin-border rounded-xl shadow-xl overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-3">
+          <div className={`p-1.5 rounded-full shrink-0 ${hasFailures ? 'bg-yellow-500/10 text-yellow-600' : 'bg-skin-primary/10 text-skin-primary'}`}>
+            {hasFailures ? <AlertTriangle size={16} /> : <CheckCircle2 size={16} />}
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-bold text-skin-text-base">{title}</p>
+            <p className="text-[10px] text-skin-text-muted truncate">
+              {new Date(report.finishedAt).toLocaleTimeString('zh-TW', { hour12: false })}
+              {providers.length > 0 && ` · 來源 ${providers.join('、')}`}
+            </p>
+          </div>
+          <button
+            onClick={() => setExpanded(e => !e)}
+            className="p-1 text-skin-text-muted hover:text-skin-primary shrink-0"
+            title={expanded ? '收合明細' : '查看明細'}
+          >
+            {expanded ? <ChevronDown size={16} /> : <ChevronUp size={16} />}
+          </button>
+          <button onClick={onClose} className="p-1 text-skin-text-muted hover:text-skin-primary shrink-0" title="關閉">
+            <X size={16} />
+          </button>
+        </div>
+
+        {expanded && (
+          <div className="max-h-72 overflow-y-auto border-t border-skin-border divide-y divide-skin-border text-xs">
+            {report.updated.map(u => (
+              <div key={u.code} className="flex items-center justify-between gap-2 px-4 py-2">
+                <div className="min-w-0">
+                  <span className="font-mono font-bold text-skin-text-base">{u.code}</span>
+                  <span className="ml-2 text-skin-text-muted truncate">{u.name}</span>
+                  <p className="text-[10px] text-skin-text-muted">
+                    {getQuoteProviderName(u.source)}
+                    {u.priceType !== QuotePriceType.LAST && ` · ${PRICE_TYPE_LABELS[u.priceType]}`}
+                  </p>
+                </div>
+                <div className="text-right font-mono shrink-0">
+                  <p className="text-skin-text-base">
+                    <span className="text-skin-text-muted">{u.previousPrice.toFixed(2)} → </span>
+                    <span className="font-bold">{u.price.toFixed(2)}</span>
+                  </p>
+                  <p className={u.changePercent > 0 ? 'text-skin-success' : u.changePercent < 0 ? 'text-skin-danger' : 'text-skin-text-muted'}>
+                    {u.changePercent > 0 ? '+' : ''}{u.changePercent.toFixed(2)}%
+                  </p>
+                </div>
+              </div>
+            ))}
+            {report.failed.map(f => (
+              <div key={f.code} className="px-4 py-2">
+                <span className="font-mono font-bold text-skin-danger">{f.code}</span>
+                <span className="ml-2 text-skin-text-muted">{f.name}</span>
+                <p className="text-[10px] text-skin-danger break-words">{f.reason}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { QuoteProviderPreference } from '../types';
+import {
+  ProviderHealth,
+  QuoteRequest,
+  averageLatency,
+  fetchFromProvider,
+  getQuoteProviders,
+  loadProviderHealth,
+  resetProviderHealth,
+  resolveProviderPreferences,
+  successRate,
+} from '../utils/quoteProviders';
+import { Activity, ChevronDown, ChevronUp, Loader2, RotateCcw } from 'lucide-react';
+
+interface QuoteProviderSettingsProps {
+  preferences: QuoteProviderPreference[];
+  testSecurities: QuoteRequest[]; // 測試連線時查詢的標的
+  onUpdatePreferences: (preferences: QuoteProviderPreference[]) => void;
+}
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString('zh-TW', { hour12: false }) : '—');
+
+export const QuoteProviderSettings: React.FC<QuoteProviderSettingsProps> = ({ preferences, testSecurities, onUpdatePreferences }) => {
+  const [health, setHealth] = useState<Record<string, ProviderHealth>>(loadProviderHealth);
+  const [testing, setTesting] = useState<string | null>(null);
+  const providers = getQuoteProviders();
+  const resolved = resolveProviderPreferences(preferences);
+
+  const move = (index: number, delta: number) => {
+    const next = [...resolved];
+    const [item] = next.splice(index, 1);
+    next.splice(index + delta, 0, item);
+    onUpdatePreferences(next);
+  };
+
+  const toggle = (id: string) => {
+    onUpdatePreferences(resolved.map(p => (p.id === id ? { ...p, enabled: !p.enabled } : p)));
+  };
+
+  const handleTest = async (id: string) => {
+    const provider = providers.find(p => p.id === id);
+    if (!provider) return;
+    setTesting(id);
+    try {
+      await fetchFromProvider(provider, testSecurities);
+    } catch {
+      // Recorded in the health stats shown below
+    }
+    setHealth(loadProviderHealth());
+    setTesting(null);
+  };
+
+  const handleReset = () => {
+    if (!confirm('確定清除所有報價來源的統計？')) return;
+    resetProviderHealth();
+    setHealth({});
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider flex items-center gap-2">
+          <Activity size={14} /> 報價來源
+        </h4>
+        <button onClick={handleReset} className="text-xs flex items-center gap-1 text-skin-text-muted font-bold hover:text-skin-primary">
+          <RotateCcw size={12} /> 重設統計
+        </button>
+      </div>
+      <p className="text-xs text-skin-text-muted">
+        更新報價時依序嘗試已啟用的來源，取得報價即停止。統計包含每次嘗試的成功、失敗與回應時間。
+      </p>
+
+      {resolved.map((pref, index) => {
+        const provider = providers.find(p => p.id === pref.id)!;
+        const h = health[pref.id];
+        const rate = h ? successRate(h) : null;
+        const latency = h ? averageLatency(h) : null;
+        return (
+          <div
+            key={pref.id}
+            className={`bg-skin-base/50 p-4 rounded-xl border border-skin-border space-y-3 ${pref.enabled ? '' : 'opacity-60'}`}
+          >
+            <div className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full bg-skin-primary-bg text-skin-primary text-xs font-bold flex items-center justify-center shrink-0">
+                {index + 1}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-skin-text-base text-sm">{provider.name}</p>
+                {provider.description && <p className="text-xs text-skin-text-muted truncate">{provider.description}</p>}
+              </div>
+              <label className="flex items-center gap-1 text-xs text-skin-text-muted cursor-pointer shrink-0">
+                <input type="checkbox" checked={pref.enabled} onChange={() => toggle(pref.id)} className="accent-skin-primary" />
+                啟用
+              </label>
+              <div className="flex flex-col shrink-0">
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="p-0.5 text-skin-text-muted hover:text-skin-primary disabled:opacity-30"
+                  title="提前"
+                >
+                  <ChevronUp size={14} />
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === resolved.length - 1}
+                  className="p-0.5 text-skin-text-muted hover:text-skin-primary disabled:opacity-30"
+                  title="延後"
+                >
+                  <ChevronDown size={14} />
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+              <div>
+                <p className="text-skin-text-muted">成功 / 失敗</p>
+                <p className="font-mono font-bold">{h ? `${h.successes} / ${h.failures}` : '—'}</p>
+              </div>
+              <div>
+                <p className="text-skin-text-muted">成功率</p>
+                <p className={`font-mono font-bold ${rate === null ? '' : rate >= 80 ? 'text-skin-success' : 'text-skin-danger'}`}>
+                  {rate === null ? '—' : `${rate.toFixed(0)}%`}
+                </p>
+              </div>
+              <div>
+                <p className="text-skin-text-muted">平均 / 最近回應</p>
+                <p className="font-mono font-bold">
+                  {latency === null ? '—' : `${Math.round(latency)} / ${h.lastLatencyMs} ms`}
+                </p>
+              </div>
+              <div>
+                <p className="text-skin-text-muted">最近成功</p>
+                <p className="font-mono">{formatTime(h?.lastSuccessAt ?? null)}</p>
+              </div>
+            </div>
+
+            {h?.lastError && (
+              <p className="text-xs text-skin-danger truncate" title={h.lastError}>
+                最近錯誤 ({formatTime(h.lastFailureAt)})：{h.lastError}
+              </p>
+            )}
+
+            <button
+              onClick={() => handleTest(pref.id)}
+              disabled={testing !== null || testSecurities.length === 0}
+              className="px-3 py-1.5 bg-skin-card border border-skin-border hover:border-skin-primary hover:text-skin-primary rounded-lg text-xs font-bold transition-all disabled:opacity-50 flex items-center gap-1"
+            >
+              {testing === pref.id && <Loader2 size={12} className="animate-spin" />} 測試連線
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Holding, Market } from '../types';
+import { fetchSecurityList } from '../utils/api';
+import { MARKET_LABELS, findSecurity, loadSecurityMaster, mergeSecurities, resetSecurityMaster, resolveMarket, saveSecurityMaster } from '../utils/securities';
+import { BookOpen, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+
+interface SecurityMasterSettingsProps {
+  holdings: Holding[];
+  onPatchHolding: (id: string, patch: Partial<Pick<Holding, 'market'>>) => void;
+}
+
+const selectClass = 'px-2 py-1 bg-skin-card border border-skin-border rounded-lg text-xs focus:ring-2 focus:ring-skin-primary focus:outline-none';
+
+export const SecurityMasterSettings: React.FC<SecurityMasterSettingsProps> = ({ holdings, onPatchHolding }) => {
+  const [master, setMaster] = useState(loadSecurityMaster);
+  const [updating, setUpdating] = useState(false);
+  const [status, setStatus] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const handleUpdate = async () => {
+    setUpdating(true);
+    setStatus(null);
+    try {
+      const fetched = await fetchSecurityList();
+      const next = saveSecurityMaster(mergeSecurities(master.securities, fetched));
+      setMaster(next);
+      setStatus({ text: `已更新，共 ${next.securities.length} 檔證券` });
+    } catch (e: any) {
+      setStatus({ text: `更新失敗：${e?.message || e}`, error: true });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!confirm('確定還原為內建的證券主檔？')) return;
+    setMaster(resetSecurityMaster());
+    setStatus(null);
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-skin-text-muted uppercase tracking-wider flex items-center gap-2">
+          <BookOpen size={14} /> 證券主檔
+        </h4>
+        {master.updatedAt && (
+          <button onClick={handleReset} className="text-xs flex items-center gap-1 text-skin-text-muted font-bold hover:text-skin-primary">
+            <RotateCcw size={12} /> 還原內建
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-skin-text-muted">
+        報價依主檔中的掛牌市場 (上市 / 上櫃) 查詢。目前共 {master.securities.length} 檔，
+        {master.updatedAt ? `最後更新於 ${new Date(master.updatedAt).toLocaleString('zh-TW', { hour12: false })}` : '僅含內建的常見 ETF'}。
+      </p>
+      <button
+        onClick={handleUpdate}
+        disabled={updating}
+        className="px-4 py-2 bg-skin-card border border-skin-border hover:border-skin-primary hover:text-skin-primary rounded-lg text-sm font-bold transition-all shadow-sm disabled:opacity-50 flex items-center gap-2"
+      >
+        {updating ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />} 從證交所 / 櫃買中心更新
+      </button>
+      {status && <p className={`text-xs font-bold ${status.error ? 'text-skin-danger' : 'text-skin-text-base'}`}>{status.text}</p>}
+
+      {holdings.length > 0 && (
+        <div className="border border-skin-border rounded-xl divide-y divide-skin-border">
+          {holdings.map(h => {
+            const known = findSecurity(h.code);
+            return (
+              <div key={h.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-3 py-2">
+                <div className="min-w-0">
+                  <span className="text-sm font-bold font-mono text-skin-text-base">{h.code}</span>
+                  <span className="text-xs text-skin-text-muted ml-2 truncate">{h.name}</span>
+                  {!known && <span className="text-[10px] text-yellow-600 ml-2">不在主檔中</span>}
+                </div>
+                <select
+                  className={selectClass}
+                  value={h.market || ''}
+                  onChange={e => onPatchHolding(h.id, { market: (e.target.value as Market) || undefined })}
+                >
+                  <option value="">自動 ({MARKET_LABELS[resolveMarket(h.code)]})</option>
+                  {Object.values(Market).map(m => (
+                    <option key={m} value={m}>{MARKET_LABELS[m]}</option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
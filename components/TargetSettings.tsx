@@ -0,0 +1,258 @@
+import React, { useState, useMemo } from 'react';
+import { AllocationTarget, AssetType, CalculatedHolding, DriftBand, ThemeColors } from '../types';
+import { Target, Check, X, AlertTriangle } from 'lucide-react';
+
+// Draft of a band while editing; blank strings mean "no limit"
+interface BandDraft {
+  absolute: string;
+  relative: string;
+}
+
+const toBandDraft = (band?: DriftBand): BandDraft => ({
+  absolute: band?.absolute !== undefined ? band.absolute.toString() : '',
+  relative: band?.relative !== undefined ? band.relative.toString() : '',
+});
+
+const fromBandDraft = (draft: BandDraft): DriftBand => {
+  const band: DriftBand = {};
+  const absolute = parseFloat(draft.absolute);
+  const relative = parseFloat(draft.relative);
+  if (!isNaN(absolute) && absolute > 0) band.absolute = absolute;
+  if (!isNaN(relative) && relative > 0) band.relative = relative;
+  return band;
+};
+
+const bandInputClass = 'w-14 text-right bg-transparent border-b border-skin-border/50 focus:border-skin-primary focus:outline-none text-xs font-mono no-spinner';
+
+interface TargetSettingsProps {
+  target: AllocationTarget;
+  holdings: CalculatedHolding[];
+  customColors: ThemeColors;
+  onSave: (target: AllocationTarget) => void;
+  onCancel: () => void;
+}
+
+export const TargetSettings: React.FC<TargetSettingsProps> = ({ target, holdings, customColors, onSave, onCancel }) => {
+  const [stockRatio, setStockRatio] = useState(target.stockRatio.toString());
+  // Blank means "no per-holding target"
+  const [holdingTargets, setHoldingTargets] = useState<Record<string, string>>(() => {
+    const draft: Record<string, string> = {};
+    Object.entries(target.holdingTargets).forEach(([code, ratio]) => { draft[code] = ratio.toString(); });
+    return draft;
+  });
+  const [classBands, setClassBands] = useState<Record<AssetType, BandDraft>>(() => ({
+    [AssetType.STOCK]: toBandDraft(target.classBands[AssetType.STOCK]),
+    [AssetType.BOND]: toBandDraft(target.classBands[AssetType.BOND]),
+  }));
+  const [holdingBand, setHoldingBand] = useState<BandDraft>(() => toBandDraft(target.holdingBand));
+  const [holdingBands, setHoldingBands] = useState<Record<string, BandDraft>>(() => {
+    const draft: Record<string, BandDraft> = {};
+    Object.keys(target.holdingBands).forEach(code => { draft[code] = toBandDraft(target.holdingBands[code]); });
+    return draft;
+  });
+
+  // One row per code, even if the same ticker is held more than once
+  const uniqueHoldings = useMemo(() => {
+    const seen = new Set<string>();
+    return holdings.filter(h => {
+      if (seen.has(h.code)) return false;
+      seen.add(h.code);
+      return true;
+    });
+  }, [holdings]);
+
+  const parsedStock = parseFloat(stockRatio);
+  const isStockValid = !isNaN(parsedStock) && parsedStock > 0 && parsedStock < 100;
+
+  const sumByType = (type: AssetType) => uniqueHoldings
+    .filter(h => h.type === type)
+    .reduce((sum, h) => sum + (parseFloat(holdingTargets[h.code]) || 0), 0);
+  const stockHoldingSum = sumByType(AssetType.STOCK);
+  const bondHoldingSum = sumByType(AssetType.BOND);
+  const exceedsStock = isStockValid && stockHoldingSum > parsedStock + 0.001;
+  const exceedsBond = isStockValid && bondHoldingSum > 100 - parsedStock + 0.001;
+
+  const updateHoldingBand = (code: string, field: keyof BandDraft, value: string) => {
+    setHoldingBands(prev => ({ ...prev, [code]: { ...(prev[code] || { absolute: '', relative: '' }), [field]: value } }));
+  };
+
+  const handleSave = () => {
+    if (!isStockValid) return;
+    const cleaned: Record<string, number> = {};
+    Object.keys(holdingTargets).forEach(code => {
+      const ratio = parseFloat(holdingTargets[code]);
+      if (!isNaN(ratio) && ratio > 0) cleaned[code] = ratio;
+    });
+    // Per-holding overrides are only kept when they set something
+    const cleanedBands: Record<string, DriftBand> = {};
+    Object.keys(holdingBands).forEach(code => {
+      const band = fromBandDraft(holdingBands[code]);
+      if (band.absolute !== undefined || band.relative !== undefined) cleanedBands[code] = band;
+    });
+    onSave({
+      ...target,
+      stockRatio: parsedStock,
+      holdingTargets: cleaned,
+      classBands: {
+        [AssetType.STOCK]: fromBandDraft(classBands[AssetType.STOCK]),
+        [AssetType.BOND]: fromBandDraft(classBands[AssetType.BOND]),
+      },
+      holdingBand: fromBandDraft(holdingBand),
+      holdingBands: cleanedBands,
+    });
+  };
+
+  return (
+    <div className="bg-skin-base/50 border border-skin-border rounded-xl p-4 space-y-4 animate-fade-in">
+      <h4 className="font-bold text-skin-text-base flex items-center gap-2">
+        <Target size={18} className="text-skin-primary" />
+        目標配置設定
+      </h4>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-skin-text-muted mb-1">股票 ETF (%)</label>
+          <input
+            type="number"
+            min="1"
+            max="99"
+            className="w-full px-3 py-2 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm font-mono"
+            style={{ color: customColors.stock }}
+            value={stockRatio}
+            onChange={e => setStockRatio(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-skin-text-muted mb-1">債券 ETF (%)</label>
+          <div className="w-full px-3 py-2 bg-skin-card border border-skin-border rounded-lg text-sm font-mono" style={{ color: customColors.bond }}>
+            {isStockValid ? (100 - parsedStock).toString() : '-'}
+          </div>
+        </div>
+      </div>
+      {!isStockValid && <p className="text-xs text-skin-danger font-bold">股票比例需介於 1% 至 99% 之間</p>}
+
+      <div className="space-y-2">
+        <p className="text-xs font-bold text-skin-text-muted">容忍區間 (偏離超出才需再平衡，留空代表不限；兩者皆設定時取較嚴者)</p>
+        <div className="bg-skin-card border border-skin-border rounded-lg overflow-hidden">
+          <table className="w-full text-xs">
+            <thead className="bg-skin-base text-skin-text-muted">
+              <tr>
+                <th className="px-3 py-1.5 text-left font-medium">對象</th>
+                <th className="px-3 py-1.5 text-right font-medium">± 絕對 (百分點)</th>
+                <th className="px-3 py-1.5 text-right font-medium">± 相對 (% of 目標)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-skin-border">
+              {([AssetType.STOCK, AssetType.BOND] as const).map(type => (
+                <tr key={type}>
+                  <td className="px-3 py-1.5 font-bold" style={{ color: type === AssetType.STOCK ? customColors.stock : customColors.bond }}>
+                    {type === AssetType.STOCK ? '股票 ETF' : '債券 ETF'}
+                  </td>
+                  {(['absolute', 'relative'] as const).map(field => (
+                    <td key={field} className="px-3 py-1.5 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        placeholder="-"
+                        className={bandInputClass}
+                        value={classBands[type][field]}
+                        onChange={e => setClassBands(prev => ({ ...prev, [type]: { ...prev[type], [field]: e.target.value } }))}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <td className="px-3 py-1.5 font-bold text-skin-text-base">個別標的 (預設)</td>
+                {(['absolute', 'relative'] as const).map(field => (
+                  <td key={field} className="px-3 py-1.5 text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      placeholder="-"
+                      className={bandInputClass}
+                      value={holdingBand[field]}
+                      onChange={e => setHoldingBand(prev => ({ ...prev, [field]: e.target.value }))}
+                    />
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {uniqueHoldings.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-skin-text-muted">個別標的目標 (佔投資部位 %，可留空；區間留空則套用預設)</p>
+          <div className="bg-skin-card border border-skin-border rounded-lg overflow-hidden">
+            <table className="w-full text-xs">
+              <thead className="bg-skin-base text-skin-text-muted">
+                <tr>
+                  <th className="px-3 py-1.5 text-left font-medium">代號</th>
+                  <th className="px-3 py-1.5 text-right font-medium">目標 %</th>
+                  <th className="px-3 py-1.5 text-right font-medium">± 絕對</th>
+                  <th className="px-3 py-1.5 text-right font-medium">± 相對</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-skin-border">
+                {uniqueHoldings.map(h => (
+                  <tr key={h.code}>
+                    <td className="px-3 py-1.5">
+                      <div className="flex items-center gap-2">
+                        <div className="w-1 h-4 rounded-full" style={{ backgroundColor: h.type === AssetType.STOCK ? customColors.stock : customColors.bond }}></div>
+                        <span className="font-mono font-bold text-skin-text-base">{h.code}</span>
+                      </div>
+                    </td>
+                    <td className="px-3 py-1.5 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        placeholder="-"
+                        className={bandInputClass}
+                        value={holdingTargets[h.code] || ''}
+                        onChange={e => setHoldingTargets(prev => ({ ...prev, [h.code]: e.target.value }))}
+                      />
+                    </td>
+                    {(['absolute', 'relative'] as const).map(field => (
+                      <td key={field} className="px-3 py-1.5 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          placeholder={holdingBand[field] || '-'}
+                          className={bandInputClass}
+                          value={holdingBands[h.code]?.[field] || ''}
+                          onChange={e => updateHoldingBand(h.code, field, e.target.value)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {(exceedsStock || exceedsBond) && (
+            <p className="text-xs text-yellow-600 flex items-center gap-1">
+              <AlertTriangle size={12} />
+              {exceedsStock ? '股票' : '債券'}標的目標合計超過該類別的目標比例
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1.5 text-xs font-bold text-skin-text-muted hover:text-skin-text-base rounded-lg flex items-center gap-1">
+          <X size={14} /> 取消
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isStockValid}
+          className="px-4 py-1.5 bg-skin-primary text-skin-primary-fg rounded-lg text-xs font-bold hover:opacity-90 disabled:opacity-50 flex items-center gap-1 shadow-sm"
+        >
+          <Check size={14} /> 儲存目標
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { AssetType, SecurityInfo } from '../types';
+import { MARKET_LABELS, searchSecurities } from '../utils/securities';
+import { Search } from 'lucide-react';
+
+interface TickerPickerProps {
+  onSelect: (security: SecurityInfo) => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+export const TickerPicker: React.FC<TickerPickerProps> = ({ onSelect, placeholder = '輸入代號或名稱搜尋，例如 0050、高股息', autoFocus }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const results = useMemo(() => searchSecurities(query), [query]);
+
+  const choose = (security: SecurityInfo) => {
+    onSelect(security);
+    setQuery(`${security.code} ${security.name}`);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || results.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % results.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      // Enter picks the highlighted ticker instead of submitting the surrounding form
+      e.preventDefault();
+      choose(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-skin-text-muted pointer-events-none" />
+      <input
+        type="text"
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        className="w-full pl-8 pr-3 py-2 bg-skin-base border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm"
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setHighlighted(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {isOpen && query.trim() && (
+        <div className="absolute z-10 mt-1 w-full bg-skin-card border border-skin-border rounded-lg shadow-lg overflow-hidden">
+          {results.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-skin-text-muted">證券主檔中找不到「{query.trim()}」，可直接手動填寫</p>
+          ) : (
+            results.map((s, i) => (
+              <button
+                key={s.code}
+                type="button"
+                // Keep focus in the input so the blur does not close the list before the click lands
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => choose(s)}
+                onMouseEnter={() => setHighlighted(i)}
+                className={`w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm ${i === highlighted ? 'bg-skin-primary-bg text-skin-primary' : 'text-skin-text-base'}`}
+              >
+                <span className="min-w-0 truncate">
+                  <span className="font-mono font-bold">{s.code}</span>
+                  <span className="ml-2">{s.name}</span>
+                </span>
+                <span className="text-[10px] text-skin-text-muted shrink-0">
+                  {MARKET_LABELS[s.market]} · {s.type === AssetType.BOND ? '債券型' : '股票型'}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,335 @@
+import React, { useState, useMemo } from 'react';
+import { CalculatedHolding, Transaction, TradeType, RebateMode } from '../types';
+import { formatCurrency, calculateTradeCharges } from '../utils/calculations';
+import { sortTransactions, findOversoldTransaction, calculateRealizedGains, RealizedGain } from '../utils/ledger';
+import { CATEGORY_LABELS, getTransactionTaxRate } from '../utils/tax';
+import { History, X, Plus, Trash2, AlertTriangle } from 'lucide-react';
+
+interface TransactionLedgerProps {
+  holding: CalculatedHolding;
+  transactions: Transaction[];
+  initialType?: TradeType;
+  onUpdateTransactions: (transactions: Transaction[]) => void;
+  onClose: () => void;
+}
+
+const emptyForm = (type: TradeType = TradeType.BUY) => ({
+  type,
+  date: new Date().toISOString().split('T')[0],
+  shares: '',
+  price: '',
+  fee: '',
+  tax: '',
+  note: ''
+});
+
+export const TransactionLedger: React.FC<TransactionLedgerProps> = ({ holding, transactions, initialType = TradeType.BUY, onUpdateTransactions, onClose }) => {
+  // Selling starts from the current quote so only the share count needs to be filled in
+  const [formData, setFormData] = useState(() => ({
+    ...emptyForm(initialType),
+    price: initialType === TradeType.SELL && holding.currentPrice > 0 ? holding.currentPrice.toString() : ''
+  }));
+  const [error, setError] = useState('');
+  const [editError, setEditError] = useState('');
+
+  const holdingTransactions = useMemo(() => {
+    return sortTransactions(transactions.filter(t => t.holdingId === holding.id)).reverse();
+  }, [transactions, holding.id]);
+
+  const oversold = useMemo(() => findOversoldTransaction(holdingTransactions), [holdingTransactions]);
+
+  const realizedGains = useMemo(() => calculateRealizedGains(holdingTransactions), [holdingTransactions]);
+  const realizedById = new Map<string, RealizedGain>(realizedGains.map(g => [g.transactionId, g]));
+  const totalRealized = realizedGains.reduce((sum, g) => sum + g.profit, 0);
+
+  // Preview of the gain this sell would book, at the current average cost
+  const sellPreview = useMemo(() => {
+    const shares = parseFloat(formData.shares) || 0;
+    const price = parseFloat(formData.price) || 0;
+    if (formData.type !== TradeType.SELL || shares <= 0 || price <= 0 || holding.quantity <= 0) return null;
+    const soldShares = Math.min(shares, holding.quantity);
+    const proceeds = soldShares * price - (parseFloat(formData.fee) || 0) - (parseFloat(formData.tax) || 0);
+    const costBasis = holding.cost * (soldShares / holding.quantity);
+    return Math.round(proceeds - costBasis);
+  }, [formData, holding.quantity, holding.cost]);
+
+  // Re-estimate fee & tax whenever the trade itself changes; the user can still overwrite them
+  const updateTrade = (updates: Partial<typeof formData>) => {
+    setFormData(prev => {
+      const next = { ...prev, ...updates };
+      const shares = parseFloat(next.shares) || 0;
+      const price = parseFloat(next.price) || 0;
+      if (shares > 0 && price > 0) {
+        const charges = calculateTradeCharges(next.type, holding.category, shares, price, holding.feeProfile, next.date);
+        next.fee = charges.fee.toString();
+        next.tax = charges.tax.toString();
+      }
+      return next;
+    });
+    setError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const shares = parseFloat(formData.shares);
+    const price = parseFloat(formData.price);
+    if (!shares || shares <= 0 || !price || price <= 0) {
+      setError('請輸入有效的股數與成交價');
+      return;
+    }
+
+    const newTransaction: Transaction = {
+      id: Date.now().toString(),
+      holdingId: holding.id,
+      code: holding.code,
+      type: formData.type,
+      date: formData.date,
+      shares,
+      price,
+      fee: parseFloat(formData.fee) || 0,
+      tax: parseFloat(formData.tax) || 0,
+      note: formData.note,
+      accountId: holding.accountId
+    };
+
+    const candidate = [...holdingTransactions, newTransaction];
+    if (findOversoldTransaction(candidate)) {
+      setError('賣出股數超過該日持有股數，請確認成交日期與股數');
+      return;
+    }
+
+    onUpdateTransactions([...transactions, newTransaction]);
+    setFormData(prev => ({ ...emptyForm(prev.type), date: prev.date }));
+  };
+
+  // Inline edits re-estimate fee & tax the same way the form does. An edit that oversells is
+  // still saved, since it may be halfway through being typed, but flagged on its row.
+  const handleUpdate = (id: string, field: keyof Transaction, value: any) => {
+    const updated = transactions.map(t => {
+      if (t.id !== id) return t;
+      const next = { ...t, [field]: value };
+      if (['type', 'date', 'shares', 'price'].includes(field) && next.shares > 0 && next.price > 0) {
+        const charges = calculateTradeCharges(next.type, holding.category, next.shares, next.price, holding.feeProfile, next.date);
+        next.fee = charges.fee;
+        next.tax = charges.tax;
+      }
+      return next;
+    });
+    const offending = findOversoldTransaction(updated.filter(t => t.holdingId === holding.id));
+    setEditError(offending ? `修改後 ${offending.date} 的賣出股數超過當時持有股數，請確認成交日期與股數` : '');
+    onUpdateTransactions(updated);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('確定要刪除這筆交易紀錄嗎？持有股數與均價將重新計算。')) {
+      onUpdateTransactions(transactions.filter(t => t.id !== id));
+    }
+  };
+
+  const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => e.target.select();
+
+  const inputClass = "w-full px-3 py-2 bg-skin-base border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm font-mono";
+  const cellInputClass = "w-full text-right bg-transparent border-b border-transparent hover:border-skin-border focus:border-skin-primary focus:outline-none py-0.5 font-mono no-spinner transition-all";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-skin-card w-full max-w-3xl rounded-xl shadow-xl border border-skin-border overflow-hidden transform transition-all max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b border-skin-border flex justify-between items-center bg-skin-base shrink-0">
+          <h3 className="font-bold flex items-center gap-2 text-skin-text-base">
+            <History size={18} className="text-skin-primary" />
+            交易紀錄 · {holding.name} <span className="font-mono text-skin-text-muted text-sm">{holding.code}</span>
+          </h3>
+          <button onClick={onClose} className="text-skin-text-muted hover:text-skin-text-base">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5 flex-1">
+          {/* Derived Position */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="bg-skin-base/50 p-3 rounded-lg border border-skin-border">
+              <p className="text-[10px] text-skin-text-muted">持有股數</p>
+              <p className="font-bold font-mono text-skin-text-base">{formatCurrency(holding.quantity)}</p>
+            </div>
+            <div className="bg-skin-base/50 p-3 rounded-lg border border-skin-border">
+              <p className="text-[10px] text-skin-text-muted">平均成交價</p>
+              <p className="font-bold font-mono text-skin-text-base">{holding.avgPrice.toFixed(2)}</p>
+            </div>
+            <div className="bg-skin-base/50 p-3 rounded-lg border border-skin-border">
+              <p className="text-[10px] text-skin-text-muted">持有成本 (含手續費)</p>
+              <p className="font-bold font-mono text-skin-text-base">${formatCurrency(holding.cost)}</p>
+            </div>
+            <div className="bg-skin-base/50 p-3 rounded-lg border border-skin-border">
+              <p className="text-[10px] text-skin-text-muted">累計已實現損益</p>
+              <p className={`font-bold font-mono ${totalRealized >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>
+                {totalRealized > 0 ? '+' : ''}{formatCurrency(totalRealized)}
+              </p>
+            </div>
+          </div>
+
+          {oversold && (
+            <div className="bg-skin-danger/10 text-skin-danger border border-skin-danger/30 p-3 rounded-lg text-xs flex items-center gap-2">
+              <AlertTriangle size={14} className="shrink-0" />
+              <span>{editError || `${oversold.date} 的賣出股數超過當時持有股數，超出部分將被忽略。`}</span>
+            </div>
+          )}
+
+          {/* Add Trade Form */}
+          <form onSubmit={handleSubmit} className="bg-skin-base/50 p-4 rounded-xl border border-skin-border space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex bg-skin-card p-1 rounded-lg border border-skin-border">
+                <button
+                  type="button"
+                  onClick={() => updateTrade({ type: TradeType.BUY })}
+                  className={`px-4 py-1 text-xs font-bold rounded-md transition-all ${formData.type === TradeType.BUY ? 'bg-skin-base text-skin-success shadow-sm' : 'text-skin-text-muted hover:text-skin-text-base'}`}
+                >
+                  買進
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateTrade({ type: TradeType.SELL })}
+                  className={`px-4 py-1 text-xs font-bold rounded-md transition-all ${formData.type === TradeType.SELL ? 'bg-skin-base text-skin-danger shadow-sm' : 'text-skin-text-muted hover:text-skin-text-base'}`}
+                >
+                  賣出
+                </button>
+              </div>
+              <input
+                type="date"
+                required
+                className="px-3 py-1.5 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-xs font-mono"
+                value={formData.date}
+                onChange={e => updateTrade({ date: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">股數</label>
+                <input type="number" min="0" placeholder="0" className={inputClass} value={formData.shares} onChange={e => updateTrade({ shares: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">成交價</label>
+                <input type="number" min="0" step="0.01" placeholder="0.00" className={inputClass} value={formData.price} onChange={e => updateTrade({ price: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">手續費</label>
+                <input type="number" min="0" className={inputClass} value={formData.fee} onChange={e => setFormData({ ...formData, fee: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-skin-text-muted mb-1">交易稅</label>
+                <input type="number" min="0" className={inputClass} value={formData.tax} onChange={e => setFormData({ ...formData, tax: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="text"
+                placeholder="備註 (選填)"
+                className="flex-1 px-3 py-2 bg-skin-card border border-skin-border rounded-lg focus:ring-2 focus:ring-skin-primary focus:outline-none text-sm"
+                value={formData.note}
+                onChange={e => setFormData({ ...formData, note: e.target.value })}
+              />
+              <button
+                type="submit"
+                className="px-5 py-2 bg-skin-primary text-skin-primary-fg rounded-lg text-sm font-bold hover:opacity-90 flex items-center justify-center gap-2 shadow-sm transition-all"
+              >
+                <Plus size={16} /> 新增交易
+              </button>
+            </div>
+
+            {sellPreview !== null && (
+              <p className="text-xs text-skin-text-muted">
+                預估已實現損益：
+                <span className={`font-bold font-mono ${sellPreview >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>
+                  {sellPreview > 0 ? '+' : ''}{formatCurrency(sellPreview)}
+                </span>
+              </p>
+            )}
+            {error && <p className="text-xs text-skin-danger font-bold">{error}</p>}
+            <p className="text-[10px] text-skin-text-muted">
+              手續費依「{holding.feeProfile.name}」(含最低手續費) 與成交金額自動估算；
+              交易稅依{CATEGORY_LABELS[holding.category]}於成交日適用稅率 {(getTransactionTaxRate(holding.category, formData.date) * 100).toFixed(1)}% 計算，可依券商對帳單手動修正。
+              {holding.feeProfile.rebate === RebateMode.MONTHLY && ' 此券商為月退制，請填入扣除退款後的實際手續費。'}
+            </p>
+          </form>
+
+          {/* Trade List */}
+          <div className="border border-skin-border rounded-xl overflow-hidden">
+            <table className="w-full text-xs">
+              <thead className="bg-skin-base text-skin-text-muted">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">日期</th>
+                  <th className="px-3 py-2 text-center font-medium">買賣</th>
+                  <th className="px-3 py-2 text-right font-medium">股數</th>
+                  <th className="px-3 py-2 text-right font-medium">成交價</th>
+                  <th className="px-3 py-2 text-right font-medium">手續費</th>
+                  <th className="px-3 py-2 text-right font-medium">交易稅</th>
+                  <th className="px-3 py-2 text-right font-medium">已實現</th>
+                  <th className="px-3 py-2 text-left font-medium hidden sm:table-cell">備註</th>
+                  <th className="px-3 py-2 w-8"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-skin-border">
+                {holdingTransactions.length > 0 ? holdingTransactions.map(t => (
+                  <tr key={t.id} className={`transition-colors group ${oversold?.id === t.id ? 'bg-skin-danger/10' : 'hover:bg-skin-base/50'}`}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="date"
+                        className="bg-transparent font-mono text-skin-text-base focus:outline-none"
+                        title={t.id === `${holding.id}-open` ? '期初部位的日期為推估值，請改為實際建倉日期' : undefined}
+                        value={t.date}
+                        onChange={e => handleUpdate(t.id, 'date', e.target.value)}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      <span className={`px-2 py-0.5 rounded font-bold ${t.type === TradeType.BUY ? 'text-skin-success bg-red-50 dark:bg-red-900/20' : 'text-skin-danger bg-green-50 dark:bg-green-900/20'}`}>
+                        {t.type === TradeType.BUY ? '買進' : '賣出'}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <input type="number" className={cellInputClass} value={t.shares} onFocus={handleFocus} onChange={e => handleUpdate(t.id, 'shares', parseFloat(e.target.value) || 0)} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input type="number" step="0.01" className={cellInputClass} value={t.price} onFocus={handleFocus} onChange={e => handleUpdate(t.id, 'price', parseFloat(e.target.value) || 0)} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input type="number" className={cellInputClass} value={t.fee} onFocus={handleFocus} onChange={e => handleUpdate(t.id, 'fee', parseFloat(e.target.value) || 0)} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input type="number" className={cellInputClass} value={t.tax} onFocus={handleFocus} onChange={e => handleUpdate(t.id, 'tax', parseFloat(e.target.value) || 0)} />
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono">
+                      {realizedById.has(t.id) ? (
+                        <span className={`font-bold ${realizedById.get(t.id)!.profit >= 0 ? 'text-skin-success' : 'text-skin-danger'}`}>
+                          {realizedById.get(t.id)!.profit > 0 ? '+' : ''}{formatCurrency(realizedById.get(t.id)!.profit)}
+                        </span>
+                      ) : <span className="text-skin-text-muted">-</span>}
+                    </td>
+                    <td className="px-3 py-2 hidden sm:table-cell">
+                      <div className="max-w-[120px] truncate text-skin-text-muted" title={t.note}>{t.note || '-'}</div>
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      <button
+                        onClick={() => handleDelete(t.id)}
+                        className="text-skin-text-muted hover:text-skin-danger opacity-0 group-hover:opacity-100 transition-opacity p-1"
+                        title="刪除"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={9} className="px-3 py-8 text-center text-skin-text-muted">
+                      尚無交易紀錄，請由上方新增第一筆買進
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
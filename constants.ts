@@ -1,8 +1,95 @@
-import { AssetType, Holding } from './types';
+import { AssetType, Holding, AllocationTarget, FeeProfile, RebateMode, InstrumentCategory, TaxRule, Benchmark, Market, SecurityInfo, DistributionFrequency, DividendDeductionSettings } from './types';
 
 export const INITIAL_CASH = 1000000; // 100萬定存
 export const TARGET_ASSETS = 8000000; // 總資產目標
 export const TARGET_INVESTMENT = 7000000; // 預計投入股債
+export const BOARD_LOT_SIZE = 1000; // 一張 = 1000 股
+
+// 證券交易稅率表，依賣出日 (或估值日) 選用；同類別的區間不可重疊
+export const SECURITIES_TAX_RULES: TaxRule[] = [
+  { category: InstrumentCategory.STOCK, rate: 0.003, note: '個股 0.3%' },
+  { category: InstrumentCategory.STOCK_ETF, rate: 0.001, note: 'ETF 0.1%' },
+  { category: InstrumentCategory.LEVERAGED_ETF, rate: 0.001, note: '槓桿/反向 ETF 0.1%' },
+  { category: InstrumentCategory.BOND_ETF, rate: 0.001, to: '2016-12-31', note: '停徵前 0.1%' },
+  { category: InstrumentCategory.BOND_ETF, rate: 0, from: '2017-01-01', to: '2026-12-31', note: '債券 ETF 停徵證交稅' },
+  { category: InstrumentCategory.BOND_ETF, rate: 0.001, from: '2027-01-01', note: '停徵期滿恢復 0.1%' },
+];
+
+export const DEFAULT_FEE_PROFILE_ID = 'default';
+
+export const DEFAULT_FEE_PROFILES: FeeProfile[] = [
+  {
+    id: DEFAULT_FEE_PROFILE_ID,
+    name: '預設 (2.8折)',
+    discount: 0.28,
+    minFee: 20,
+    oddLotMinFee: 20,
+    rebate: RebateMode.INSTANT,
+  },
+];
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+export const ALL_ACCOUNTS = 'all'; // 帳戶篩選：合併檢視所有帳戶
+
+export const DEFAULT_PORTFOLIO_ID = 'default'; // 沿用未分組合前的 localStorage 鍵值
+export const HOUSEHOLD_VIEW = 'household'; // 組合切換：全家合計
+
+export const DEFAULT_ALLOCATION_TARGET: AllocationTarget = {
+  stockRatio: 60,
+  holdingTargets: {},
+  classBands: {
+    [AssetType.STOCK]: { absolute: 5 },
+    [AssetType.BOND]: { absolute: 5 },
+  },
+  holdingBand: { absolute: 5, relative: 25 }, // 5/25 法則：±5 個百分點或目標的 ±25%，取較嚴者
+  holdingBands: {},
+};
+
+// 二代健保：單次股利達 2 萬元扣 2.11% 補充保費；匯費依券商與銀行而定
+export const DEFAULT_DIVIDEND_DEDUCTIONS: DividendDeductionSettings = {
+  nhiThreshold: 20000,
+  nhiRate: 0.0211,
+  transferFee: 10,
+};
+
+// 股利所得課稅二擇一：合併計稅並以 8.5% 抵減 (每戶上限 8 萬)，或 28% 分開計稅
+export const DIVIDEND_TAX_CREDIT_RATE = 0.085;
+export const DIVIDEND_TAX_CREDIT_CAP = 80000;
+export const SEPARATE_DIVIDEND_TAX_RATE = 0.28;
+export const INCOME_TAX_BRACKETS = [0.05, 0.12, 0.2, 0.3, 0.4]; // 綜合所得稅累進稅率
+
+export const MAX_DRIFT_LOG_ENTRIES = 200;
+export const MAX_SNAPSHOTS = 3650; // 約十年的每日快照
+
+export const BENCHMARK_PRESETS: Benchmark[] = [
+  { name: '0050', weights: { '0050': 100 } },
+  { name: '股債 60/40 (0050 + 00679B)', weights: { '0050': 60, '00679B': 40 } },
+];
+
+export const DEFAULT_BENCHMARK: Benchmark = BENCHMARK_PRESETS[0];
+
+// Bundled security master for common ETFs; the settings modal can refresh it from the
+// TWSE/TPEX open data, which adds every listed code
+export const BUNDLED_SECURITIES: SecurityInfo[] = [
+  { code: '0050', name: '元大台灣50', market: Market.TWSE, type: AssetType.STOCK, listedDate: '2003-06-30', distributionFrequency: DistributionFrequency.SEMI_ANNUAL },
+  { code: '0056', name: '元大高股息', market: Market.TWSE, type: AssetType.STOCK, listedDate: '2007-12-26', distributionFrequency: DistributionFrequency.QUARTERLY },
+  { code: '006208', name: '富邦台50', market: Market.TWSE, type: AssetType.STOCK, listedDate: '2012-07-17', distributionFrequency: DistributionFrequency.SEMI_ANNUAL },
+  { code: '00692', name: '富邦公司治理', market: Market.TWSE, type: AssetType.STOCK, distributionFrequency: DistributionFrequency.SEMI_ANNUAL },
+  { code: '00713', name: '元大台灣高息低波', market: Market.TWSE, type: AssetType.STOCK, distributionFrequency: DistributionFrequency.QUARTERLY },
+  { code: '00850', name: '元大臺灣ESG永續', market: Market.TWSE, type: AssetType.STOCK },
+  { code: '00878', name: '國泰永續高股息', market: Market.TWSE, type: AssetType.STOCK, listedDate: '2020-07-20', distributionFrequency: DistributionFrequency.QUARTERLY },
+  { code: '00881', name: '國泰台灣5G+', market: Market.TWSE, type: AssetType.STOCK, distributionFrequency: DistributionFrequency.SEMI_ANNUAL },
+  { code: '00919', name: '群益台灣精選高息', market: Market.TWSE, type: AssetType.STOCK, listedDate: '2022-10-20', distributionFrequency: DistributionFrequency.QUARTERLY },
+  { code: '00929', name: '復華台灣科技優息', market: Market.TWSE, type: AssetType.STOCK, listedDate: '2023-06-09', distributionFrequency: DistributionFrequency.MONTHLY },
+  { code: '00940', name: '元大台灣價值高息', market: Market.TWSE, type: AssetType.STOCK, distributionFrequency: DistributionFrequency.MONTHLY },
+  { code: '006201', name: '元大富櫃50', market: Market.TPEX, type: AssetType.STOCK },
+  { code: '00679B', name: '元大美債20年', market: Market.TPEX, type: AssetType.BOND, listedDate: '2017-01-17', distributionFrequency: DistributionFrequency.QUARTERLY },
+  { code: '00687B', name: '國泰20年美債', market: Market.TPEX, type: AssetType.BOND, distributionFrequency: DistributionFrequency.QUARTERLY },
+  { code: '00720B', name: '元大投資級公司債', market: Market.TPEX, type: AssetType.BOND, distributionFrequency: DistributionFrequency.QUARTERLY },
+  { code: '00751B', name: '元大AAA至A公司債', market: Market.TPEX, type: AssetType.BOND, distributionFrequency: DistributionFrequency.QUARTERLY },
+  { code: '00772B', name: '中信高評級公司債', market: Market.TPEX, type: AssetType.BOND, distributionFrequency: DistributionFrequency.QUARTERLY },
+  { code: '00937B', name: '群益ESG投等債20+', market: Market.TPEX, type: AssetType.BOND, distributionFrequency: DistributionFrequency.MONTHLY },
+];
 
 // User provided data (excluding "元大台灣高息低波")
 // Categorized by common knowledge of these tickers
@@ -61,4 +148,45 @@ export const INITIAL_HOLDINGS: Holding[] = [
     avgPrice: 15.17,
     currentPrice: 15.07,
   },
-];
\ No newline at end of file
+];
+
+// TWSE/TPEX market closures on weekdays, from the exchange's yearly trading calendar.
+// Add the next year once TWSE publishes it; weekends never need listing.
+export const TWSE_HOLIDAYS: Record<string, string> = {
+  '2025-01-01': '元旦',
+  '2025-01-23': '農曆春節前無交易日',
+  '2025-01-24': '農曆春節前無交易日',
+  '2025-01-27': '農曆春節',
+  '2025-01-28': '農曆春節',
+  '2025-01-29': '農曆春節',
+  '2025-01-30': '農曆春節',
+  '2025-01-31': '農曆春節',
+  '2025-02-28': '和平紀念日',
+  '2025-04-03': '兒童節及清明節',
+  '2025-04-04': '兒童節及清明節',
+  '2025-05-01': '勞動節',
+  '2025-05-30': '端午節',
+  '2025-09-29': '教師節 (補假)',
+  '2025-10-06': '中秋節',
+  '2025-10-10': '國慶日',
+  '2025-10-24': '臺灣光復暨金門古寧頭大捷紀念日 (補假)',
+  '2025-12-25': '行憲紀念日',
+  '2026-01-01': '元旦',
+  '2026-02-12': '農曆春節前無交易日',
+  '2026-02-13': '農曆春節前無交易日',
+  '2026-02-16': '農曆春節',
+  '2026-02-17': '農曆春節',
+  '2026-02-18': '農曆春節',
+  '2026-02-19': '農曆春節',
+  '2026-02-20': '農曆春節',
+  '2026-02-27': '和平紀念日 (補假)',
+  '2026-04-03': '兒童節 (補假)',
+  '2026-04-06': '清明節 (補假)',
+  '2026-05-01': '勞動節',
+  '2026-06-19': '端午節',
+  '2026-09-25': '中秋節',
+  '2026-09-28': '教師節',
+  '2026-10-09': '國慶日 (補假)',
+  '2026-10-26': '臺灣光復暨金門古寧頭大捷紀念日 (補假)',
+  '2026-12-25': '行憲紀念日',
+};
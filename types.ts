@@ -11,6 +11,93 @@ export interface Holding {
   quantity: number;
   avgPrice: number;
   currentPrice: number;
+  feeProfileId?: string; // 未指定時使用預設券商手續費設定
+  category?: InstrumentCategory; // 未指定時依代號與資產類別判斷
+  accountId?: string; // 所屬證券帳戶，未指定時歸入預設帳戶
+  market?: Market; // 報價查詢用的市場，未指定時依證券主檔判斷
+  quote?: QuoteInfo; // 現價的來源與時間；手動輸入現價時清除
+}
+
+export enum QuotePriceType {
+  LAST = 'LAST',                     // 最近成交價
+  BID = 'BID',                       // 最佳買價 (尚無成交)
+  ASK = 'ASK',                       // 最佳賣價 (尚無成交也無買價)
+  PREVIOUS_CLOSE = 'PREVIOUS_CLOSE', // 昨收
+}
+
+export interface QuoteInfo {
+  priceType: QuotePriceType;
+  source: string;     // 報價來源 id，例如 twse、yahoo
+  quotedAt?: string;  // 交易所報價時間 (ISO)，來源未提供時留空
+  fetchedAt: string;  // 取得報價的時間 (ISO)
+}
+
+export interface Quote extends QuoteInfo {
+  price: number;
+}
+
+export enum Market {
+  TWSE = 'TWSE', // 上市 (證交所)
+  TPEX = 'TPEX', // 上櫃 (櫃買中心)
+}
+
+export enum DistributionFrequency {
+  MONTHLY = 'MONTHLY',         // 月配
+  QUARTERLY = 'QUARTERLY',     // 季配
+  SEMI_ANNUAL = 'SEMI_ANNUAL', // 半年配
+  ANNUAL = 'ANNUAL',           // 年配
+}
+
+// 證券主檔：代號對應的名稱、掛牌市場與資產類別
+export interface SecurityInfo {
+  code: string;
+  name: string;
+  market: Market;
+  type: AssetType;
+  listedDate?: string; // 掛牌日 YYYY-MM-DD，未知時留空
+  distributionFrequency?: DistributionFrequency; // 配息頻率，未知時依股息紀錄推估
+}
+
+export interface Account {
+  id: string;
+  name: string;          // e.g. 主要帳戶
+  broker: string;        // 券商名稱
+  feeProfileId?: string; // 帳戶預設的手續費設定，持股可再個別覆蓋
+  cash: number;          // 交割銀行帳戶現金
+}
+
+export interface Portfolio {
+  id: string;
+  name: string; // e.g. 父母退休金、子女教育金
+}
+
+export enum InstrumentCategory {
+  STOCK = 'STOCK',                 // 個股
+  STOCK_ETF = 'STOCK_ETF',         // 股票型 ETF
+  LEVERAGED_ETF = 'LEVERAGED_ETF', // 槓桿/反向 ETF
+  BOND_ETF = 'BOND_ETF',           // 債券 ETF
+}
+
+export interface TaxRule {
+  category: InstrumentCategory;
+  rate: number;   // 證券交易稅率 (賣出時課徵)，0.001 = 0.1%
+  from?: string;  // 生效日 (含)，YYYY-MM-DD；未填代表不限
+  to?: string;    // 失效日 (含)，YYYY-MM-DD；未填代表持續有效
+  note?: string;
+}
+
+export enum RebateMode {
+  INSTANT = 'INSTANT', // 成交時直接以折扣後費率收取
+  MONTHLY = 'MONTHLY', // 成交時收原價，折讓於次月退還
+}
+
+export interface FeeProfile {
+  id: string;
+  name: string;          // e.g. 某券商 2.8折
+  discount: number;      // 手續費折數，0.28 = 2.8折
+  minFee: number;        // 整股每筆最低手續費 (NT$)
+  oddLotMinFee: number;  // 零股每筆最低手續費 (NT$)
+  rebate: RebateMode;
 }
 
 export interface CalculatedHolding extends Holding {
@@ -19,6 +106,49 @@ export interface CalculatedHolding extends Holding {
   presentValue: number;   // 持有現值 (扣除交易稅與手續費)
   profit: number;         // 預估損益
   roi: number;            // 報酬率
+  hasLedger: boolean;     // 股數與均價是否由交易紀錄推算
+  feeProfile: FeeProfile; // 實際套用的手續費設定
+  category: InstrumentCategory; // 實際套用的證交稅類別
+  dividendsReceived: number; // 已入帳股息累計
+  totalReturn: number;       // 含息損益 = 預估損益 + 已領股息
+  totalReturnRoi: number;    // 含息報酬率
+  breakEvenPrice: number;    // 含息損益兩平價：全數賣出的淨收入 (扣手續費與交易稅) + 已領股息 = 成本
+}
+
+export enum TradeType {
+  BUY = 'BUY',   // 買進
+  SELL = 'SELL', // 賣出
+}
+
+export interface Transaction {
+  id: string;
+  holdingId: string;
+  code: string;  // 成交當下的代號 (持股刪除後仍可辨識)
+  type: TradeType;
+  date: string;  // 成交日期 (YYYY-MM-DD)
+  shares: number;
+  price: number; // 成交價
+  fee: number;   // 實付手續費
+  tax: number;   // 證券交易稅
+  note?: string;
+  accountId?: string; // 成交帳戶 (持股刪除後仍可歸屬)
+}
+
+// 交割帳戶的資金進出，報酬率計算以此區分外部投入與組合內的買賣
+export interface CashFlow {
+  id: string;
+  date: string;   // YYYY-MM-DD
+  amount: number; // 正數為存入，負數為提領
+  note?: string;
+  accountId?: string;
+}
+
+// 配息組成 (元)：各項合計應等於配息總額，依投信的年度所得分配明細填寫
+export interface DistributionComposition {
+  dividend: number;     // 股利所得
+  interest: number;     // 利息所得
+  equalization: number; // 收益平準金
+  capitalGain: number;  // 資本利得
 }
 
 export interface DividendRecord {
@@ -26,8 +156,15 @@ export interface DividendRecord {
   date: string;           // 入帳日期 (Payment Date)
   exDividendDate?: string; // 除息日期 (Ex-Dividend Date)
   ticker: string;
-  amount: number;
+  amount: number;   // 實際入帳金額 (已扣除補充保費與匯費)
+  grossAmount?: number; // 配息總額，有填時 amount = 總額 − 補充保費 − 匯費
+  nhiPremium?: number;  // 二代健保補充保費
+  transferFee?: number; // 匯費
+  composition?: DistributionComposition; // 報稅用的配息組成
+  perUnit?: number; // 每單位現金配息 (元)，有填時總額由除息前持股推算
+  shares?: number;  // 除息前一日的持有股數
   note?: string;
+  accountId?: string; // 入帳的證券帳戶，未指定時歸入預設帳戶
 }
 
 export interface PortfolioSummary {
@@ -40,6 +177,85 @@ export interface PortfolioSummary {
   totalRoi: number;
   stockRatio: number;
   bondRatio: number;
+  realizedProfit: number; // 累計已實現損益
+  realizedByYear: { year: number; profit: number }[]; // 各年度已實現損益 (新到舊)
+}
+
+// 比較基準：以代號權重組成的買進持有組合，股息再投入
+export interface Benchmark {
+  name: string;                    // e.g. 0050、股債 60/40
+  weights: Record<string, number>; // 代號 -> 權重 (%)，合計 100
+}
+
+// 每日收盤後的投資組合快照 (一天一筆)
+export interface PortfolioSnapshot {
+  date: string; // YYYY-MM-DD
+  totalAssets: number;
+  totalCost: number;
+  stockValue: number;
+  bondValue: number;
+  cashValue: number;
+  stockRatio: number;
+  bondRatio: number;
+  prices: Record<string, number>; // 代號 -> 當日價格
+}
+
+// 單日價格 (日K)，只有收盤價是必填
+export interface PriceBar {
+  date: string; // YYYY-MM-DD
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number; // 股
+}
+
+// 報價來源的排序與啟用狀態 (依陣列順序嘗試)
+export interface QuoteProviderPreference {
+  id: string;
+  enabled: boolean;
+}
+
+// 股息入帳時的扣除項目 (所有組合共用)
+export interface DividendDeductionSettings {
+  nhiThreshold: number; // 單次給付達此金額才扣二代健保補充保費
+  nhiRate: number;      // 補充保費費率
+  transferFee: number;  // 新增紀錄時預設的匯費
+}
+
+// 盤中自動更新報價 (所有組合共用)
+export interface AutoRefreshPreference {
+  enabled: boolean;
+  intervalMinutes: number;
+  includeOddLot: boolean; // 盤後零股交易時段 (13:40–14:30) 也更新
+}
+
+// Known prices per code, sorted by date
+export type PriceHistory = Record<string, { date: string; price: number }[]>;
+
+export interface DriftBand {
+  absolute?: number; // 絕對偏離上限 (百分點)，例如 5 代表目標 ±5%
+  relative?: number; // 相對偏離上限 (% of 目標)，例如 25 代表目標 20% 時允許 15%~25%
+}
+
+export interface AllocationTarget {
+  stockRatio: number; // 股票目標比例 (%)，債券為 100 - stockRatio
+  holdingTargets: Record<string, number>; // 個別標的目標比例 (% of 投資部位)，以代號為 key，未設定者不列入
+  classBands: Record<AssetType, DriftBand>; // 股/債類別的容忍區間
+  holdingBand: DriftBand; // 個別標的預設容忍區間
+  holdingBands: Record<string, DriftBand>; // 個別標的自訂容忍區間，以代號為 key，覆蓋預設值
+}
+
+export interface DriftBreachEvent {
+  id: string;
+  timestamp: string; // ISO 8601
+  scope: 'class' | 'holding';
+  key: string; // AssetType 或標的代號
+  label: string;
+  status: 'breached' | 'resolved';
+  rule?: 'absolute' | 'relative'; // 觸發的規則 (僅 breached)
+  targetRatio: number;
+  actualRatio: number;
 }
 
 export interface ThemeColors {
@@ -0,0 +1,72 @@
+import { Account, DividendRecord, FeeProfile, Holding, Transaction } from '../types';
+import { ALL_ACCOUNTS, DEFAULT_ACCOUNT_ID } from '../constants';
+import { resolveFeeProfile } from './calculations';
+import { derivePosition } from './ledger';
+
+export const createDefaultAccount = (cash: number): Account => ({
+  id: DEFAULT_ACCOUNT_ID,
+  name: '主要帳戶',
+  broker: '',
+  cash,
+});
+
+/**
+ * Account an item belongs to; untagged items (created before accounts existed) sit in the default account.
+ */
+export const accountOf = (item: { accountId?: string }) => item.accountId || DEFAULT_ACCOUNT_ID;
+
+export const matchesAccount = (item: { accountId?: string }, filter: string) => {
+  return filter === ALL_ACCOUNTS || accountOf(item) === filter;
+};
+
+/**
+ * Write back a list edited inside an account view: records of that account are replaced,
+ * records of other accounts are kept as they are.
+ */
+export const mergeAccountRecords = <T extends { accountId?: string }>(all: T[], edited: T[], filter: string): T[] => {
+  if (filter === ALL_ACCOUNTS) return edited;
+  return [...all.filter(r => !matchesAccount(r, filter)), ...edited];
+};
+
+/**
+ * Fee profile precedence: the holding's own profile, then its account's, then the default.
+ */
+export const resolveHoldingFeeProfile = (holding: Holding, accounts: Account[], profiles: FeeProfile[]): FeeProfile => {
+  const account = accounts.find(a => a.id === accountOf(holding));
+  return resolveFeeProfile(profiles, holding.feeProfileId || account?.feeProfileId);
+};
+
+/**
+ * Dividend records per holding id, matched by ticker within the same account. If a ticker is
+ * listed twice in one account, the first listing takes the dividends. Records dated after
+ * `asOf` (announced but not yet paid) are left out.
+ */
+export const assignDividends = (holdings: Holding[], records: DividendRecord[], asOf: string): Map<string, DividendRecord[]> => {
+  const owners = new Map<string, string>();
+  holdings.forEach(h => {
+    const key = `${accountOf(h)}|${h.code}`;
+    if (!owners.has(key)) owners.set(key, h.id);
+  });
+
+  const assigned = new Map<string, DividendRecord[]>();
+  records.forEach(r => {
+    if (r.date > asOf) return;
+    const owner = owners.get(`${accountOf(r)}|${r.ticker}`);
+    if (!owner) return;
+    if (!assigned.has(owner)) assigned.set(owner, []);
+    assigned.get(owner)!.push(r);
+  });
+  return assigned;
+};
+
+export const sumDividends = (records: DividendRecord[] = []) => records.reduce((sum, r) => sum + r.amount, 0);
+
+/**
+ * Shares of a ticker that qualify for a distribution: the position held in the account at the
+ * close of the day before the ex-dividend date, since shares bought on the ex-date trade without it.
+ */
+export const sharesOnExDate = (transactions: Transaction[], ticker: string, exDividendDate: string, accountId: string): number => {
+  return derivePosition(transactions.filter(tx =>
+    tx.code === ticker && tx.date < exDividendDate && accountOf(tx) === accountId
+  )).quantity;
+};
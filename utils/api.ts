@@ -1,3 +1,6 @@
+import { Market, PriceBar, QuotePriceType, QuoteProviderPreference, SecurityInfo } from '../types';
+import { ProviderQuote, QuoteFetchResult, QuoteRequest, fetchQuotes, registerQuoteProvider } from './quoteProviders';
+import { guessAssetType, resolveMarket } from './securities';
 
 // Proxies to bypass CORS restrictions
 // We add a random timestamp to the proxy URL itself where possible to prevent edge caching
@@ -10,17 +13,13 @@ const PROXY_PROVIDERS = [
 // --- Strategy 1: TWSE MIS (Official Taiwan Stock Exchange) ---
 const TWSE_BASE_URL = 'https://mis.twse.com.tw/stock/api/getStockInfo.jsp';
 
-const getTwseKey = (code: string): string => {
-  // Heuristic: Bond ETFs (ending in 'B') are usually on TPEX (OTC)
-  // Standard Equity ETFs are usually on TWSE (TSE)
-  if (code.endsWith('B')) {
-    return `otc_${code}.tw`;
-  }
-  return `tse_${code}.tw`;
+// MIS prefixes listed (TWSE) codes with tse_ and OTC (TPEX) codes with otc_
+const getTwseKey = ({ code, market }: QuoteRequest): string => {
+  return market === Market.TPEX ? `otc_${code}.tw` : `tse_${code}.tw`;
 };
 
-const fetchFromTwse = async (codes: string[]): Promise<Record<string, number>> => {
-  const keys = codes.map(getTwseKey).join('|');
+const fetchFromTwse = async (securities: QuoteRequest[]): Promise<Record<string, ProviderQuote>> => {
+  const keys = securities.map(getTwseKey).join('|');
   // Add timestamp to prevent caching at the source
   const timestamp = Date.now();
   const targetUrl = `${TWSE_BASE_URL}?ex_ch=${keys}&json=1&delay=0&_=${timestamp}`;
@@ -43,7 +42,7 @@ const fetchFromTwse = async (codes: string[]): Promise<Record<string, number>> =
       if (!response.ok) continue;
 
       const data = await response.json();
-      const result: Record<string, number> = {};
+      const result: Record<string, ProviderQuote> = {};
 
       if (data.msgArray && Array.isArray(data.msgArray)) {
         data.msgArray.forEach((item: any) => {
@@ -56,12 +55,14 @@ const fetchFromTwse = async (codes: string[]): Promise<Record<string, number>> =
           // 4. y: Yesterday's Close (昨收)
           
           let priceStr = item.z;
+          let priceType = QuotePriceType.LAST;
           
           // If no last trade, try Best Bid (conservative valuation)
           if (!priceStr || priceStr === '-') {
              const bids = item.b ? item.b.split('_') : [];
              if (bids.length > 0 && bids[0] && bids[0] !== '-') {
                  priceStr = bids[0];
+                 priceType = QuotePriceType.BID;
              }
           }
 
@@ -70,18 +71,26 @@ const fetchFromTwse = async (codes: string[]): Promise<Record<string, number>> =
              const asks = item.a ? item.a.split('_') : [];
              if (asks.length > 0 && asks[0] && asks[0] !== '-') {
                  priceStr = asks[0];
+                 priceType = QuotePriceType.ASK;
              }
           }
           
           // Last resort: Yesterday's Close
           if (!priceStr || priceStr === '-') {
               priceStr = item.y;
+              priceType = QuotePriceType.PREVIOUS_CLOSE;
           }
 
           const price = parseFloat(priceStr);
+          // tlong: time of the quote in epoch milliseconds
+          const quotedMs = parseInt(item.tlong, 10);
 
           if (!isNaN(price) && price > 0) {
-            result[code] = price;
+            result[code] = {
+              price,
+              priceType,
+              quotedAt: priceType !== QuotePriceType.PREVIOUS_CLOSE && quotedMs > 0 ? new Date(quotedMs).toISOString() : undefined,
+            };
           }
         });
       }
@@ -99,15 +108,12 @@ const fetchFromTwse = async (codes: string[]): Promise<Record<string, number>> =
 // --- Strategy 2: Yahoo Finance (Fallback) ---
 const YAHOO_BASE_URL = 'https://query1.finance.yahoo.com/v8/finance/quote';
 
-const getYahooSymbol = (code: string): string => {
-  if (code.endsWith('B')) {
-    return `${code}.TWO`;
-  }
-  return `${code}.TW`;
+const getYahooSymbol = (code: string, market: Market): string => {
+  return market === Market.TPEX ? `${code}.TWO` : `${code}.TW`;
 };
 
-const fetchFromYahoo = async (codes: string[]): Promise<Record<string, number>> => {
-  const symbols = codes.map(getYahooSymbol).join(',');
+const fetchFromYahoo = async (securities: QuoteRequest[]): Promise<Record<string, ProviderQuote>> => {
+  const symbols = securities.map(s => getYahooSymbol(s.code, s.market)).join(',');
   const targetUrl = `${YAHOO_BASE_URL}?symbols=${symbols}`;
 
   for (const createProxyUrl of PROXY_PROVIDERS) {
@@ -116,15 +122,21 @@ const fetchFromYahoo = async (codes: string[]): Promise<Record<string, number>>
       if (!response.ok) continue;
 
       const data = await response.json();
-      const result: Record<string, number> = {};
+      const result: Record<string, ProviderQuote> = {};
 
       if (data.quoteResponse && data.quoteResponse.result) {
         data.quoteResponse.result.forEach((item: any) => {
           const code = item.symbol.split('.')[0];
           // Use regularMarketPrice (Realtime-ish/Delayed)
-          const price = item.regularMarketPrice || item.previousClose;
-          if (price) {
-            result[code] = price;
+          if (item.regularMarketPrice) {
+            result[code] = {
+              price: item.regularMarketPrice,
+              priceType: QuotePriceType.LAST,
+              // regularMarketTime: epoch seconds of the last trade
+              quotedAt: item.regularMarketTime ? new Date(item.regularMarketTime * 1000).toISOString() : undefined,
+            };
+          } else if (item.previousClose) {
+            result[code] = { price: item.previousClose, priceType: QuotePriceType.PREVIOUS_CLOSE };
           }
         });
       }
@@ -139,24 +151,105 @@ const fetchFromYahoo = async (codes: string[]): Promise<Record<string, number>>
   throw new Error('Yahoo Finance fetch failed');
 };
 
-// --- Main Export ---
-export const fetchLivePrices = async (codes: string[]): Promise<Record<string, number>> => {
-  // 1. Try TWSE MIS first (More reliable for TW stocks)
-  try {
-    const prices = await fetchFromTwse(codes);
-    console.log('Updated prices from TWSE:', prices);
-    return prices;
-  } catch (error) {
-    console.warn('Primary source (TWSE) failed, trying fallback...', error);
+// --- Daily history: Yahoo Finance chart API ---
+const YAHOO_CHART_URL = 'https://query1.finance.yahoo.com/v8/finance/chart';
+
+// Yahoo timestamps are the session open in UTC; shift to Taipei time before taking the date
+const toTaipeiDate = (seconds: number) => new Date((seconds + 8 * 60 * 60) * 1000).toISOString().split('T')[0];
+
+export const fetchYahooHistory = async (code: string, from: string, to: string, market: Market = resolveMarket(code)): Promise<PriceBar[]> => {
+  const period1 = Math.floor(new Date(from).getTime() / 1000);
+  const period2 = Math.floor(new Date(to).getTime() / 1000) + 24 * 60 * 60;
+  const targetUrl = `${YAHOO_CHART_URL}/${getYahooSymbol(code, market)}?period1=${period1}&period2=${period2}&interval=1d`;
+
+  for (const createProxyUrl of PROXY_PROVIDERS) {
+    try {
+      const response = await fetch(createProxyUrl(targetUrl));
+      if (!response.ok) continue;
+
+      const data = await response.json();
+      const result = data.chart?.result?.[0];
+      if (!result) continue;
+
+      const timestamps: number[] = result.timestamp || [];
+      const quote = result.indicators?.quote?.[0] || {};
+      const bars: PriceBar[] = [];
+      timestamps.forEach((ts, i) => {
+        const close = quote.close?.[i];
+        if (typeof close !== 'number' || close <= 0) return;
+        bars.push({
+          date: toTaipeiDate(ts),
+          open: quote.open?.[i] ?? undefined,
+          high: quote.high?.[i] ?? undefined,
+          low: quote.low?.[i] ?? undefined,
+          close,
+          volume: quote.volume?.[i] ?? undefined,
+        });
+      });
+      return bars.filter(b => b.date >= from && b.date <= to);
+    } catch (e) {
+      console.warn('Yahoo history proxy attempt failed:', e);
+    }
   }
+  throw new Error(`無法取得 ${code} 的歷史價格 (Yahoo)`);
+};
 
-  // 2. Try Yahoo Finance as backup
-  try {
-    const prices = await fetchFromYahoo(codes);
-    console.log('Updated prices from Yahoo:', prices);
-    return prices;
-  } catch (error) {
-    console.error('All price fetch strategies failed', error);
-    throw new Error('無法連線至報價服務 (TWSE & Yahoo failed)');
+// --- Security master: TWSE & TPEX open data ---
+const TWSE_LISTED_URL = 'https://openapi.twse.com.tw/v1/exchangeReport/STOCK_DAY_ALL';
+const TPEX_LISTED_URL = 'https://www.tpex.org.tw/openapi/v1/tpex_mainboard_daily_close_quotes';
+
+const fetchJsonViaProxies = async (targetUrl: string): Promise<any> => {
+  for (const createProxyUrl of PROXY_PROVIDERS) {
+    try {
+      const response = await fetch(createProxyUrl(targetUrl));
+      if (response.ok) return await response.json();
+    } catch (e) {
+      console.warn('Proxy attempt failed:', e);
+    }
   }
+  throw new Error(`無法連線至 ${new URL(targetUrl).hostname}`);
+};
+
+/**
+ * Every code currently trading on TWSE and TPEX with its name. The open data has no asset
+ * class or listing date, so the asset class is guessed from the name.
+ */
+export const fetchSecurityList = async (): Promise<SecurityInfo[]> => {
+  const [twse, tpex] = await Promise.all([fetchJsonViaProxies(TWSE_LISTED_URL), fetchJsonViaProxies(TPEX_LISTED_URL)]);
+  const toInfo = (code: string, name: string, market: Market): SecurityInfo | null => {
+    if (!code || !name) return null;
+    return { code: code.trim().toUpperCase(), name: name.trim(), market, type: guessAssetType(name) };
+  };
+
+  const list: SecurityInfo[] = [];
+  (Array.isArray(twse) ? twse : []).forEach((item: any) => {
+    const info = toInfo(item.Code, item.Name, Market.TWSE);
+    if (info) list.push(info);
+  });
+  (Array.isArray(tpex) ? tpex : []).forEach((item: any) => {
+    const info = toInfo(item.SecuritiesCompanyCode, item.CompanyName, Market.TPEX);
+    if (info) list.push(info);
+  });
+  if (list.length === 0) throw new Error('證交所與櫃買中心皆未回傳資料');
+  return list;
+};
+
+// --- Built-in providers ---
+registerQuoteProvider({
+  id: 'twse',
+  name: 'TWSE MIS',
+  description: '證交所基本市況報導，盤中即時成交價',
+  fetchQuotes: fetchFromTwse,
+});
+
+registerQuoteProvider({
+  id: 'yahoo',
+  name: 'Yahoo Finance',
+  description: '延遲報價，證交所無法連線時的備援',
+  fetchQuotes: fetchFromYahoo,
+});
+
+// --- Main Export ---
+export const fetchLivePrices = async (securities: QuoteRequest[], preferences: QuoteProviderPreference[] = []): Promise<QuoteFetchResult> => {
+  return fetchQuotes(securities, preferences);
 };
@@ -0,0 +1,203 @@
+import { Benchmark, DividendRecord, PortfolioSnapshot, PriceHistory, TradeType, Transaction } from '../types';
+import { GrowthPath, annualize, daysBetween } from './performance';
+
+// Cash dividend per share per code, dated on the ex-dividend date when known
+export type DividendsPerShare = Record<string, { date: string; amount: number }[]>;
+
+export interface BenchmarkComparison {
+  series: { date: string; portfolio: number; benchmark: number | null }[]; // 起點 = 100
+  from: string;
+  to: string;
+  portfolioReturn: number;            // 區間累計報酬 (%)
+  benchmarkReturn: number | null;
+  excessReturn: number | null;        // 累計超額報酬 (百分點)
+  trackingDifference: number | null;  // 年化報酬差 (百分點)，區間未滿一年時為累計差
+  trackingDifferenceAnnualized: boolean;
+  trackingError: number | null;       // 報酬差的年化標準差 (%)
+  missingCodes: string[];             // 起點沒有價格的基準成分
+}
+
+/**
+ * Price history from what is stored locally: trade prices, the daily snapshot prices, the
+ * stored daily closes and today's quotes. Later sources win on the same day.
+ */
+export const buildPriceHistory = (
+  snapshots: PortfolioSnapshot[],
+  transactions: Transaction[],
+  holdings: { code: string; currentPrice: number }[],
+  valuationDate: string,
+  stored: PriceHistory = {}
+): PriceHistory => {
+  const byCode = new Map<string, Map<string, number>>();
+  const add = (code: string, date: string, price: number) => {
+    if (!(price > 0)) return;
+    if (!byCode.has(code)) byCode.set(code, new Map<string, number>());
+    byCode.get(code)!.set(date, price);
+  };
+  transactions.forEach(t => add(t.code, t.date, t.price));
+  snapshots.forEach(s => Object.entries(s.prices).forEach(([code, price]) => add(code, s.date, price)));
+  Object.entries(stored).forEach(([code, prices]) => prices.forEach(p => add(code, p.date, p.price)));
+  holdings.forEach(h => add(h.code, valuationDate, h.currentPrice));
+
+  const history: PriceHistory = {};
+  byCode.forEach((prices, code) => {
+    history[code] = Array.from(prices.entries())
+      .map(([date, price]) => ({ date, price }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  });
+  return history;
+};
+
+/**
+ * Latest known price on or before a date, or null before the first one.
+ */
+export const priceOn = (history: PriceHistory, code: string, date: string): number | null => {
+  let price: number | null = null;
+  for (const p of history[code] || []) {
+    if (p.date > date) break;
+    price = p.price;
+  }
+  return price;
+};
+
+/**
+ * Per-share dividends recovered from the received records, before NHI premium and transfer fee:
+ * the recorded per-unit distribution, or else the gross amount divided by the shares of that
+ * code held (across all holdings) the day before the ex-dividend date. A payout booked in several
+ * accounts is counted once when its per-unit value is known, and summed over the accounts otherwise.
+ */
+export const dividendsPerShare = (records: DividendRecord[], transactions: Transaction[], asOf: string): DividendsPerShare => {
+  const payouts = new Map<string, { code: string; date: string; perUnit?: number; fromAmounts: number }>();
+  records.forEach(r => {
+    if (r.date > asOf) return;
+    const date = r.exDividendDate || r.date;
+    const key = `${r.ticker}|${date}`;
+    const payout = payouts.get(key) || { code: r.ticker, date, fromAmounts: 0 };
+    if (r.perUnit !== undefined) {
+      payout.perUnit = r.perUnit;
+    } else {
+      const shares = transactions
+        .filter(t => t.code === r.ticker && t.date < date)
+        .reduce((sum, t) => sum + (t.type === TradeType.BUY ? t.shares : -t.shares), 0);
+      if (shares > 0) payout.fromAmounts += (r.grossAmount ?? r.amount) / shares;
+    }
+    payouts.set(key, payout);
+  });
+
+  const result: DividendsPerShare = {};
+  payouts.forEach(p => {
+    const amount = p.perUnit ?? p.fromAmounts;
+    if (amount <= 0) return;
+    if (!result[p.code]) result[p.code] = [];
+    result[p.code].push({ date: p.date, amount });
+  });
+  Object.values(result).forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+  return result;
+};
+
+export const parseBenchmarkWeights = (text: string): Record<string, number> | null => {
+  const weights: Record<string, number> = {};
+  for (const part of text.split(/[,，]/)) {
+    if (!part.trim()) continue;
+    const [code, weight] = part.split(/[:：=]/).map(x => x.trim());
+    const value = parseFloat(weight);
+    if (!code || isNaN(value) || value <= 0) return null;
+    weights[code.toUpperCase()] = (weights[code.toUpperCase()] || 0) + value;
+  }
+  return Object.keys(weights).length > 0 ? weights : null;
+};
+
+export const formatBenchmarkWeights = (weights: Record<string, number>) => {
+  return Object.entries(weights).map(([code, weight]) => `${code}:${weight}`).join(', ');
+};
+
+/**
+ * Portfolio growth (time-weighted, so deposits do not count as gains) against a buy-and-hold
+ * benchmark started on the same day with the same money, dividends reinvested on the ex-date.
+ * Both are indexed to 100 at the start of the range.
+ */
+export const compareWithBenchmark = (
+  path: GrowthPath,
+  benchmark: Benchmark,
+  history: PriceHistory,
+  dividends: DividendsPerShare,
+  from: string,
+  to: string
+): BenchmarkComparison | null => {
+  const points = path.points.filter(p => p.date >= from && p.date <= to);
+  if (points.length < 2) return null;
+  const start = points[0];
+  const end = points[points.length - 1];
+
+  // Benchmark units bought with 100 at the start
+  const codes = Object.keys(benchmark.weights);
+  const totalWeight = codes.reduce((sum, code) => sum + benchmark.weights[code], 0);
+  const missingCodes = codes.filter(code => priceOn(history, code, start.date) === null);
+  const units = new Map<string, number>();
+  if (missingCodes.length === 0 && totalWeight > 0) {
+    codes.forEach(code => units.set(code, (100 * benchmark.weights[code]) / totalWeight / priceOn(history, code, start.date)!));
+  }
+
+  const series: BenchmarkComparison['series'] = [];
+  let previous = start.date;
+  points.forEach((p, i) => {
+    let benchmarkValue: number | null = null;
+    if (units.size > 0) {
+      if (i > 0) {
+        // Reinvest dividends that went ex since the previous point
+        codes.forEach(code => {
+          (dividends[code] || [])
+            .filter(d => d.date > previous && d.date <= p.date)
+            .forEach(d => {
+              const price = priceOn(history, code, d.date);
+              if (price) units.set(code, units.get(code)! * (1 + d.amount / price));
+            });
+        });
+      }
+      benchmarkValue = codes.reduce((sum, code) => sum + units.get(code)! * (priceOn(history, code, p.date) || 0), 0);
+    }
+    series.push({ date: p.date, portfolio: (p.growth / start.growth) * 100, benchmark: benchmarkValue });
+    previous = p.date;
+  });
+
+  const last = series[series.length - 1];
+  const portfolioReturn = last.portfolio - 100;
+  const benchmarkReturn = last.benchmark !== null ? last.benchmark - 100 : null;
+  const days = daysBetween(start.date, end.date);
+
+  let trackingDifference: number | null = null;
+  let trackingError: number | null = null;
+  if (benchmarkReturn !== null) {
+    trackingDifference = days >= 365
+      ? annualize(last.portfolio / 100, days) - annualize(last.benchmark! / 100, days)
+      : portfolioReturn - benchmarkReturn;
+
+    // Spread of period-by-period return differences, scaled to a year by the average gap
+    const diffs: number[] = [];
+    for (let i = 1; i < series.length; i++) {
+      const a = series[i - 1];
+      const b = series[i];
+      if (!a.benchmark || b.benchmark === null) continue;
+      diffs.push(b.portfolio / a.portfolio - b.benchmark / a.benchmark);
+    }
+    if (diffs.length >= 2) {
+      const mean = diffs.reduce((sum, d) => sum + d, 0) / diffs.length;
+      const variance = diffs.reduce((sum, d) => sum + (d - mean) ** 2, 0) / (diffs.length - 1);
+      const periodsPerYear = 365 / (days / diffs.length);
+      trackingError = Math.sqrt(variance * periodsPerYear) * 100;
+    }
+  }
+
+  return {
+    series,
+    from: start.date,
+    to: end.date,
+    portfolioReturn,
+    benchmarkReturn,
+    excessReturn: benchmarkReturn !== null ? portfolioReturn - benchmarkReturn : null,
+    trackingDifference,
+    trackingDifferenceAnnualized: days >= 365,
+    trackingError,
+    missingCodes,
+  };
+};
@@ -1,52 +1,257 @@
-import { AssetType, Holding, CalculatedHolding } from '../types';
+import { AssetType, Holding, CalculatedHolding, TradeType, Transaction, FeeProfile, RebateMode, InstrumentCategory, PortfolioSummary } from '../types';
+import { BOARD_LOT_SIZE, DEFAULT_FEE_PROFILES, DEFAULT_FEE_PROFILE_ID } from '../constants';
+import { derivePosition, calculateRealizedGains, summarizeRealizedByYear } from './ledger';
+import { getTransactionTaxRate, resolveInstrumentCategory } from './tax';
 
 // Constants based on user prompt
-const FEE_RATE = 0.001425; // 0.1425%
-const FEE_DISCOUNT = 0.28; // 28% discount (2.8折)
-const TAX_RATE_STOCK = 0.001; // 0.1% for Stock ETFs
-const TAX_RATE_BOND = 0;      // 0% for Bond ETFs (currently)
+const FEE_RATE = 0.001425; // 0.1425% 法定上限，折扣由券商設定決定
+// 證交稅率依類別與日期查表，見 SECURITIES_TAX_RULES
+
+export const DEFAULT_FEE_PROFILE = DEFAULT_FEE_PROFILES[0];
+
+/**
+ * Pick the fee profile for a holding; unknown or missing ids fall back to the default profile.
+ */
+export const resolveFeeProfile = (profiles: FeeProfile[], id?: string): FeeProfile => {
+  return profiles.find(p => p.id === id)
+    || profiles.find(p => p.id === DEFAULT_FEE_PROFILE_ID)
+    || DEFAULT_FEE_PROFILE;
+};
+
+/**
+ * Broker Fee
+ * Board lots and odd lots are separate orders, each with its own minimum.
+ * charged: what is debited at settlement (full rate when the rebate is paid monthly)
+ * net:     what the trade finally costs after the rebate
+ */
+export const calculateFee = (shares: number, price: number, profile: FeeProfile) => {
+  if (shares <= 0 || price <= 0) return { charged: 0, net: 0, rebate: 0 };
+
+  const boardShares = Math.floor(shares / BOARD_LOT_SIZE) * BOARD_LOT_SIZE;
+  const oddShares = shares - boardShares;
+  const orderFee = (orderShares: number, discount: number, minFee: number) => {
+    if (orderShares === 0) return 0;
+    return Math.max(minFee, Math.round(orderShares * price * FEE_RATE * discount));
+  };
+  const feeAt = (discount: number) =>
+    orderFee(boardShares, discount, profile.minFee) + orderFee(oddShares, discount, profile.oddLotMinFee);
+
+  const net = feeAt(profile.discount);
+  const charged = profile.rebate === RebateMode.MONTHLY ? Math.max(net, feeAt(1)) : net;
+  return { charged, net, rebate: charged - net };
+};
 
 /**
  * Calculate Holding Cost
- * Formula: (Qty * AvgPrice) + (Qty * AvgPrice * 0.1425% * 28%)
+ * Formula: (Qty * AvgPrice) + Fee (after discount and minimum)
  */
-export const calculateCost = (holding: Holding): number => {
+export const calculateCost = (holding: Holding, profile: FeeProfile = DEFAULT_FEE_PROFILE): number => {
   const baseCost = holding.quantity * holding.avgPrice;
-  const fee = baseCost * FEE_RATE * FEE_DISCOUNT;
-  return Math.round(baseCost + fee);
+  const { net } = calculateFee(holding.quantity, holding.avgPrice, profile);
+  return Math.round(baseCost + net);
 };
 
 /**
  * Calculate Present Value
- * Stock Formula: (Qty * CurrPrice) - (Qty * CurrPrice * 0.1425% * 28%) - (Qty * CurrPrice * 0.1%)
- * Bond Formula: (Qty * CurrPrice) - (Qty * CurrPrice * 0.1425% * 28%)
+ * Formula: (Qty * CurrPrice) - Fee - (Qty * CurrPrice * Tax Rate)
+ * Fee is what selling the whole position would cost after discount and minimum;
+ * the tax rate is the one in force for the holding's category on the valuation date.
  */
-export const calculatePresentValue = (holding: Holding): number => {
+export const calculatePresentValue = (
+  holding: Holding,
+  profile: FeeProfile = DEFAULT_FEE_PROFILE,
+  valuationDate: string = new Date().toISOString().split('T')[0]
+): number => {
   const marketValue = holding.quantity * holding.currentPrice;
-  const fee = marketValue * FEE_RATE * FEE_DISCOUNT;
-  
-  let tax = 0;
-  if (holding.type === AssetType.STOCK) {
-    tax = marketValue * TAX_RATE_STOCK;
-  }
+  const { net: fee } = calculateFee(holding.quantity, holding.currentPrice, profile);
+  const tax = marketValue * getTransactionTaxRate(resolveInstrumentCategory(holding), valuationDate);
   
   return Math.round(marketValue - fee - tax);
 };
 
-export const enrichHolding = (holding: Holding): CalculatedHolding => {
-  const cost = calculateCost(holding);
-  const presentValue = calculatePresentValue(holding);
+/**
+ * Estimate Trade Charges
+ * Fee: broker fee after discount and minimum (net of any monthly rebate), charged on both sides
+ * Tax: (Shares * Price * Tax Rate), sells only, at the rate in force on the trade date
+ * settlementFee / rebate: with a monthly rebate the full fee is debited first and the
+ * difference is refunded the following month.
+ */
+export const calculateTradeCharges = (
+  type: TradeType,
+  category: InstrumentCategory,
+  shares: number,
+  price: number,
+  profile: FeeProfile = DEFAULT_FEE_PROFILE,
+  tradeDate: string = new Date().toISOString().split('T')[0]
+) => {
+  const amount = shares * price;
+  const { charged, net, rebate } = calculateFee(shares, price, profile);
+  const tax = type === TradeType.SELL
+    ? Math.round(amount * getTransactionTaxRate(category, tradeDate))
+    : 0;
+  return { fee: net, tax, settlementFee: charged, rebate };
+};
+
+/**
+ * Opening Trade
+ * Converts a hand-entered position into a single BUY so it can be tracked by the ledger.
+ * The fee is chosen so the resulting cost matches calculateCost.
+ */
+export const createOpeningTransaction = (holding: Holding, date: string, profile: FeeProfile = DEFAULT_FEE_PROFILE): Transaction => {
+  const baseCost = holding.quantity * holding.avgPrice;
+  return {
+    id: `${holding.id}-open`,
+    holdingId: holding.id,
+    code: holding.code,
+    type: TradeType.BUY,
+    date,
+    shares: holding.quantity,
+    price: holding.avgPrice,
+    fee: calculateCost(holding, profile) - Math.round(baseCost),
+    tax: 0,
+    note: '期初部位',
+    accountId: holding.accountId,
+  };
+};
+
+/**
+ * Add an opening trade for every holding that has shares but no ledger entries yet,
+ * dated by `openingDate`.
+ */
+export const seedOpeningTransactions = (
+  holdings: Holding[],
+  transactions: Transaction[],
+  openingDate: (holding: Holding) => string,
+  profiles: FeeProfile[] = DEFAULT_FEE_PROFILES
+): Transaction[] => {
+  const ledgerIds = new Set(transactions.map(t => t.holdingId));
+  const openings = holdings
+    .filter(h => h.quantity > 0 && !ledgerIds.has(h.id))
+    .map(h => createOpeningTransaction(h, openingDate(h), resolveFeeProfile(profiles, h.feeProfileId)));
+  return openings.length > 0 ? [...transactions, ...openings] : transactions;
+};
+
+/**
+ * Write the ledger's quantity and avgPrice back onto the holdings. A holding whose trades were
+ * all removed (it had some in `previous`) is closed out at zero shares, so the stale hand-entered
+ * position is not seeded into the ledger again on the next load.
+ */
+export const syncHoldingsWithLedger = (holdings: Holding[], transactions: Transaction[], previous: Transaction[]): Holding[] => {
+  const hadTrades = new Set(previous.map(t => t.holdingId));
+  return holdings.map(h => {
+    const ledger = transactions.filter(t => t.holdingId === h.id);
+    if (ledger.length === 0) {
+      return hadTrades.has(h.id) ? { ...h, quantity: 0, avgPrice: 0 } : h;
+    }
+    const { quantity, avgPrice } = derivePosition(ledger);
+    return quantity === h.quantity && avgPrice === h.avgPrice ? h : { ...h, quantity, avgPrice };
+  });
+};
+
+/**
+ * Break-even Price
+ * The sale price at which selling the whole position, net of fee and securities transaction
+ * tax, plus the dividends already received gives back the cost. Net proceeds only rise with the
+ * price, so it is found by bisection.
+ */
+const solveBreakEvenPrice = (
+  quantity: number,
+  target: number,
+  category: InstrumentCategory,
+  profile: FeeProfile
+): number => {
+  if (quantity <= 0 || target <= 0) return 0;
+  const proceeds = (price: number) => {
+    const { fee, tax } = calculateTradeCharges(TradeType.SELL, category, quantity, price, profile);
+    return quantity * price - fee - tax;
+  };
+  let low = 0;
+  let high = target / quantity;
+  while (proceeds(high) < target) high *= 2;
+  for (let i = 0; i < 60 && high - low > 1e-6; i++) {
+    const mid = (low + high) / 2;
+    if (proceeds(mid) < target) low = mid;
+    else high = mid;
+  }
+  return high;
+};
+
+/**
+ * Holdings with trades in the ledger take quantity, avgPrice and cost from it;
+ * holdings without any trades fall back to the hand-entered values.
+ */
+export const enrichHolding = (
+  holding: Holding,
+  transactions: Transaction[] = [],
+  profile: FeeProfile = DEFAULT_FEE_PROFILE,
+  dividendsReceived: number = 0
+): CalculatedHolding => {
+  const ledger = transactions.filter(t => t.holdingId === holding.id);
+  const position = ledger.length > 0 ? derivePosition(ledger) : null;
+  const base: Holding = position
+    ? { ...holding, quantity: position.quantity, avgPrice: position.avgPrice }
+    : holding;
+
+  const cost = position ? position.costBasis : calculateCost(base, profile);
+  const presentValue = calculatePresentValue(base, profile);
   const profit = presentValue - cost;
   const roi = cost === 0 ? 0 : (profit / cost) * 100;
-  const marketValueRaw = holding.quantity * holding.currentPrice;
+  const marketValueRaw = base.quantity * base.currentPrice;
+  const totalReturn = profit + dividendsReceived;
+  const category = resolveInstrumentCategory(holding);
 
   return {
-    ...holding,
+    ...base,
     marketValueRaw,
     cost,
     presentValue,
     profit,
-    roi
+    roi,
+    hasLedger: position !== null,
+    feeProfile: profile,
+    category,
+    dividendsReceived,
+    totalReturn,
+    totalReturnRoi: cost === 0 ? 0 : (totalReturn / cost) * 100,
+    breakEvenPrice: solveBreakEvenPrice(base.quantity, cost - dividendsReceived, category, profile)
+  };
+};
+
+/**
+ * Portfolio totals for a set of holdings, the cash that goes with them and their trades.
+ * Ratios are of the invested value (stock + bond), not of total assets.
+ */
+export const calculateSummary = (holdings: CalculatedHolding[], cash: number, transactions: Transaction[]): PortfolioSummary => {
+  const stockHoldings = holdings.filter(h => h.type === AssetType.STOCK);
+  const bondHoldings = holdings.filter(h => h.type === AssetType.BOND);
+
+  const stockValue = stockHoldings.reduce((sum, h) => sum + h.presentValue, 0);
+  const bondValue = bondHoldings.reduce((sum, h) => sum + h.presentValue, 0);
+  const totalCost = holdings.reduce((sum, h) => sum + h.cost, 0);
+  
+  const totalInvestedValue = stockValue + bondValue;
+  const totalAssets = totalInvestedValue + cash;
+  const totalProfit = totalInvestedValue - totalCost;
+  const totalRoi = totalCost === 0 ? 0 : (totalProfit / totalCost) * 100;
+
+  const stockRatio = totalInvestedValue === 0 ? 0 : (stockValue / totalInvestedValue) * 100;
+  const bondRatio = totalInvestedValue === 0 ? 0 : (bondValue / totalInvestedValue) * 100;
+
+  const realizedGains = calculateRealizedGains(transactions);
+  const realizedProfit = realizedGains.reduce((sum, g) => sum + g.profit, 0);
+
+  return {
+    totalAssets,
+    stockValue,
+    bondValue,
+    cashValue: cash,
+    totalCost,
+    totalProfit,
+    totalRoi,
+    stockRatio,
+    bondRatio,
+    realizedProfit,
+    realizedByYear: summarizeRealizedByYear(realizedGains)
   };
 };
 
@@ -0,0 +1,33 @@
+// Split one CSV line, honouring quotes so "1,234.5" stays one field
+export const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') {
+      quoted = !quoted;
+    } else if (ch === ',' && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+// YYYY-MM-DD, YYYY/M/D or ROC years (112/10/20) as found in TWSE downloads
+export const parseCsvDate = (value: string): string | null => {
+  const match = value.match(/^(\d{2,4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (!match) return null;
+  let year = parseInt(match[1], 10);
+  if (year < 1911) year += 1911;
+  return `${year}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+};
+
+export const parseCsvNumber = (value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const num = parseFloat(value.replace(/,/g, ''));
+  return isNaN(num) ? undefined : num;
+};
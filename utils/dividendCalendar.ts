@@ -0,0 +1,113 @@
+import { DividendRecord } from '../types';
+import { DividendForecast } from './dividends';
+
+export type DividendEventKind = 'EX' | 'PAY';
+
+export const EVENT_KIND_LABELS: Record<DividendEventKind, string> = {
+  EX: '除息',
+  PAY: '入帳',
+};
+
+export interface DividendEvent {
+  date: string;
+  kind: DividendEventKind;
+  code: string;
+  name: string;
+  amount: number;    // 入帳金額 (所有帳戶合計)；除息事件同樣標示該次配息金額
+  forecast: boolean; // 依配息頻率推估，尚未公告
+}
+
+/**
+ * Ex-dates and pay dates of recorded distributions and of the forecast, one event per ticker,
+ * kind and day; records booked in several accounts are added together.
+ */
+export const buildDividendEvents = (records: DividendRecord[], forecasts: DividendForecast[], names: Record<string, string>): DividendEvent[] => {
+  const events = new Map<string, DividendEvent>();
+  const add = (date: string, kind: DividendEventKind, code: string, amount: number, forecast: boolean) => {
+    const key = `${date}|${kind}|${code}|${forecast}`;
+    const known = events.get(key);
+    if (known) {
+      known.amount += amount;
+    } else {
+      events.set(key, { date, kind, code, name: names[code] || '', amount, forecast });
+    }
+  };
+
+  records.forEach(r => {
+    if (r.exDividendDate) add(r.exDividendDate, 'EX', r.ticker, r.amount, false);
+    add(r.date, 'PAY', r.ticker, r.amount, false);
+  });
+  forecasts.forEach(f => f.payments.forEach(p => {
+    if (p.exDividendDate) add(p.exDividendDate, 'EX', f.code, p.amount, true);
+    add(p.date, 'PAY', f.code, p.amount, true);
+  }));
+
+  return Array.from(events.values()).sort((a, b) =>
+    a.date.localeCompare(b.date) || a.kind.localeCompare(b.kind) || a.code.localeCompare(b.code)
+  );
+};
+
+// RFC 5545 text escaping
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space; multi-byte characters
+// are never split
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string) => date.replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split('T')[0];
+};
+
+/**
+ * An iCalendar file with one all-day event per dividend event. UIDs are derived from the
+ * ticker, kind and date, so importing an updated file replaces earlier copies of the same event.
+ */
+export const toICalendar = (events: DividendEvent[], generatedAt: Date = new Date()): string => {
+  const stamp = generatedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Portfolio Tracker//Dividend Calendar//ZH-TW',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:股息行事曆',
+  ];
+  events.forEach(e => {
+    const label = `${e.code}${e.name ? ` ${e.name}` : ''} ${EVENT_KIND_LABELS[e.kind]}${e.forecast ? ' (預估)' : ''}`;
+    const detail = `${e.forecast ? '預估' : ''}金額 $${Math.round(e.amount).toLocaleString()}`;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${e.kind.toLowerCase()}-${e.code}-${toIcsDate(e.date)}${e.forecast ? '-forecast' : ''}@portfolio-tracker`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(e.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(nextDay(e.date))}`,
+      `SUMMARY:${escapeText(label)}`,
+      `DESCRIPTION:${escapeText(detail)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
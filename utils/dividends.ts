@@ -0,0 +1,250 @@
+import { DistributionComposition, DistributionFrequency, DividendDeductionSettings, DividendRecord, Holding } from '../types';
+import { BUNDLED_SECURITIES } from '../constants';
+import { findSecurity } from './securities';
+import { parseCsvDate, parseCsvNumber, splitCsvLine } from './csv';
+
+export const FREQUENCY_LABELS: Record<DistributionFrequency, string> = {
+  [DistributionFrequency.MONTHLY]: '月配',
+  [DistributionFrequency.QUARTERLY]: '季配',
+  [DistributionFrequency.SEMI_ANNUAL]: '半年配',
+  [DistributionFrequency.ANNUAL]: '年配',
+};
+
+export const PAYMENTS_PER_YEAR: Record<DistributionFrequency, number> = {
+  [DistributionFrequency.MONTHLY]: 12,
+  [DistributionFrequency.QUARTERLY]: 4,
+  [DistributionFrequency.SEMI_ANNUAL]: 2,
+  [DistributionFrequency.ANNUAL]: 1,
+};
+
+export interface ProjectedPayment {
+  date: string;            // 預估入帳日
+  exDividendDate?: string; // 預估除息日，最近一次配息沒有除息日時留空
+  amount: number;          // 預估實領金額 (已扣健保補充費與匯費)
+}
+
+export interface DividendForecast {
+  code: string;
+  name: string;
+  frequency: DistributionFrequency;
+  frequencyInferred: boolean; // 主檔沒有配息頻率，依過去一年的紀錄推估
+  perUnit: number;            // 最近一年每次配息的平均 (元/單位)
+  quantity: number;           // 目前持有股數
+  payments: ProjectedPayment[];
+  total: number;
+}
+
+// Day of month is clamped so stepping from the 31st does not spill into the next month
+const addMonths = (date: string, months: number) => {
+  const d = new Date(`${date.slice(0, 8)}01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const day = Math.min(parseInt(date.slice(8, 10), 10), 28);
+  return `${d.toISOString().slice(0, 8)}${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * One entry per distribution of a ticker, oldest first. The same payout booked in several
+ * accounts shares an ex-date and is counted once; the per-unit value comes from `perUnit`, or
+ * from amount / shares for records that only know the shares.
+ */
+const distributionsOf = (records: DividendRecord[]) => {
+  const byExDate = new Map<string, { date: string; exDividendDate?: string; perUnit?: number }>();
+  records.forEach(r => {
+    const perUnit = r.perUnit ?? (r.shares ? (r.grossAmount ?? r.amount) / r.shares : undefined);
+    const key = r.exDividendDate || r.date;
+    const known = byExDate.get(key);
+    if (!known || (known.perUnit === undefined && perUnit !== undefined)) {
+      byExDate.set(key, { date: r.date, exDividendDate: r.exDividendDate, perUnit });
+    }
+  });
+  return Array.from(byExDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// The premium applies to the whole payment once a single payment reaches the threshold
+export const calculateNhiPremium = (gross: number, settings: DividendDeductionSettings): number => {
+  return gross >= settings.nhiThreshold ? Math.round(gross * settings.nhiRate) : 0;
+};
+
+/**
+ * Gross, deductions and net of one payment, in DividendRecord's fields. `amount` is what
+ * reaches the bank account and never goes below zero.
+ */
+export const splitDividend = (gross: number, transferFee: number, settings: DividendDeductionSettings) => {
+  const nhiPremium = calculateNhiPremium(gross, settings);
+  return {
+    grossAmount: gross,
+    nhiPremium,
+    transferFee,
+    amount: Math.max(gross - nhiPremium - transferFee, 0),
+  };
+};
+
+const inferFrequency = (paymentsLastYear: number): DistributionFrequency | null => {
+  if (paymentsLastYear >= 10) return DistributionFrequency.MONTHLY;
+  if (paymentsLastYear >= 3) return DistributionFrequency.QUARTERLY;
+  if (paymentsLastYear === 2) return DistributionFrequency.SEMI_ANNUAL;
+  if (paymentsLastYear === 1) return DistributionFrequency.ANNUAL;
+  return null;
+};
+
+/**
+ * Expected distributions of each held ticker over the next `months`: the average of the last
+ * year's per-unit payouts times the shares held today, paid at the ticker's frequency after its
+ * latest recorded (or announced) distribution. Amounts are net of the configured deductions, like
+ * recorded ones. Tickers without a known frequency or any per-unit history are left out.
+ */
+export const forecastDividends = (
+  holdings: Holding[],
+  records: DividendRecord[],
+  today: string,
+  deductions: DividendDeductionSettings,
+  months = 12
+): DividendForecast[] => {
+  const horizon = addMonths(today, months);
+  const yearAgo = addMonths(today, -12);
+
+  const positions = new Map<string, { name: string; quantity: number }>();
+  holdings.forEach(h => {
+    const known = positions.get(h.code);
+    positions.set(h.code, { name: known?.name || h.name, quantity: (known?.quantity || 0) + h.quantity });
+  });
+
+  const forecasts: DividendForecast[] = [];
+  positions.forEach(({ name, quantity }, code) => {
+    if (quantity <= 0) return;
+    const history = distributionsOf(records.filter(r => r.ticker === code));
+    if (history.length === 0) return;
+
+    const listed = findSecurity(code)?.distributionFrequency
+      ?? BUNDLED_SECURITIES.find(s => s.code === code)?.distributionFrequency;
+    const frequency = listed ?? inferFrequency(history.filter(d => d.date > yearAgo && d.date <= today).length);
+    if (!frequency) return;
+
+    const perYear = PAYMENTS_PER_YEAR[frequency];
+    const payouts = history.filter(d => d.perUnit !== undefined).slice(-perYear).map(d => d.perUnit!);
+    if (payouts.length === 0) return;
+    const perUnit = payouts.reduce((sum, p) => sum + p, 0) / payouts.length;
+
+    const step = 12 / perYear;
+    const latest = history[history.length - 1];
+    const payments: ProjectedPayment[] = [];
+    for (let k = 1; ; k++) {
+      const date = addMonths(latest.date, step * k);
+      if (date > horizon) break;
+      if (date > today) {
+        payments.push({
+          date,
+          exDividendDate: latest.exDividendDate && addMonths(latest.exDividendDate, step * k),
+          amount: splitDividend(Math.round(perUnit * quantity), deductions.transferFee, deductions).amount,
+        });
+      }
+    }
+
+    forecasts.push({
+      code,
+      name,
+      frequency,
+      frequencyInferred: !listed,
+      perUnit,
+      quantity,
+      payments,
+      total: payments.reduce((sum, p) => sum + p.amount, 0),
+    });
+  });
+  return forecasts.sort((a, b) => b.total - a.total);
+};
+
+// --- Distribution composition ---
+
+export const COMPOSITION_LABELS: Record<keyof DistributionComposition, string> = {
+  dividend: '股利所得',
+  interest: '利息所得',
+  equalization: '收益平準金',
+  capitalGain: '資本利得',
+};
+
+export const COMPOSITION_KEYS = Object.keys(COMPOSITION_LABELS) as (keyof DistributionComposition)[];
+
+export const emptyComposition = (): DistributionComposition => ({ dividend: 0, interest: 0, equalization: 0, capitalGain: 0 });
+
+export const compositionTotal = (c: DistributionComposition) => COMPOSITION_KEYS.reduce((sum, k) => sum + c[k], 0);
+
+/**
+ * Split a gross amount in the proportions of a per-unit composition. Rounding is settled on
+ * the largest part so the parts add up to the gross exactly.
+ */
+export const allocateComposition = (gross: number, perUnit: DistributionComposition): DistributionComposition => {
+  const total = compositionTotal(perUnit);
+  const result = emptyComposition();
+  if (total <= 0) return result;
+  COMPOSITION_KEYS.forEach(k => {
+    result[k] = Math.round((gross * perUnit[k]) / total);
+  });
+  const largest = COMPOSITION_KEYS.reduce((a, b) => (perUnit[b] > perUnit[a] ? b : a));
+  result[largest] += gross - compositionTotal(result);
+  return result;
+};
+
+export interface CompositionRow {
+  code: string;
+  date: string; // 除息日或發放日
+  perUnit: DistributionComposition;
+}
+
+const COMPOSITION_COLUMNS: Record<keyof DistributionComposition | 'code' | 'date', string[]> = {
+  code: ['code', 'ticker', '代號', '證券代號', '基金代號'],
+  date: ['date', 'ex-date', '除息日', '除息交易日', '發放日', '收益分配發放日'],
+  dividend: ['dividend', '股利所得', '股利'],
+  interest: ['interest', '利息所得', '利息'],
+  equalization: ['equalization', '收益平準金'],
+  capitalGain: ['capital gain', 'capitalgain', '資本利得', '已實現資本利得'],
+};
+
+/**
+ * Per-unit composition rows from a CSV copy of an issuer's annual distribution statement:
+ * code, ex-date (or pay date) and any of the four components. Amounts may be per unit or in
+ * total, since only their proportions are used.
+ */
+export const parseCompositionCsv = (text: string): CompositionRow[] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim());
+  const matches = (field: string, key: keyof typeof COMPOSITION_COLUMNS) => COMPOSITION_COLUMNS[key].includes(field);
+  const headerIndex = lines.findIndex(line => {
+    const fields = splitCsvLine(line).map(f => f.toLowerCase());
+    return fields.some(f => matches(f, 'code')) && fields.some(f => matches(f, 'date'));
+  });
+  if (headerIndex < 0) throw new Error('找不到代號與日期欄位');
+
+  const header = splitCsvLine(lines[headerIndex]).map(f => f.toLowerCase());
+  const column = (key: keyof typeof COMPOSITION_COLUMNS) => header.findIndex(f => matches(f, key));
+  if (COMPOSITION_KEYS.every(k => column(k) < 0)) throw new Error('找不到任何配息組成欄位');
+
+  const rows: CompositionRow[] = [];
+  lines.slice(headerIndex + 1).forEach(line => {
+    const fields = splitCsvLine(line);
+    const code = (fields[column('code')] || '').toUpperCase();
+    const date = parseCsvDate(fields[column('date')] || '');
+    if (!code || !date) return;
+    const perUnit = emptyComposition();
+    COMPOSITION_KEYS.forEach(k => {
+      const index = column(k);
+      perUnit[k] = index >= 0 ? parseCsvNumber(fields[index]) || 0 : 0;
+    });
+    if (compositionTotal(perUnit) > 0) rows.push({ code, date, perUnit });
+  });
+  return rows;
+};
+
+/**
+ * Fill in the composition of every record matching a row by ticker and ex-date (or pay date),
+ * in every account. Returns the updated records and the rows that matched nothing.
+ */
+export const applyCompositions = (records: DividendRecord[], rows: CompositionRow[]) => {
+  const used = new Set<CompositionRow>();
+  const updated = records.map(r => {
+    const row = rows.find(x => x.code === r.ticker && (x.date === r.exDividendDate || x.date === r.date));
+    if (!row) return r;
+    used.add(row);
+    return { ...r, composition: allocateComposition(r.grossAmount ?? r.amount, row.perUnit) };
+  });
+  return { records: updated, unmatched: rows.filter(x => !used.has(x)) };
+};
@@ -0,0 +1,118 @@
+import { TradeType, Transaction } from '../types';
+
+export interface LedgerPosition {
+  quantity: number;
+  avgPrice: number;  // 平均成交價 (不含手續費)
+  costBasis: number; // 剩餘部位成本 (含實付手續費)
+}
+
+export interface RealizedGain {
+  transactionId: string;
+  holdingId: string;
+  code: string;
+  date: string;
+  shares: number;
+  proceeds: number;  // 賣出淨收入 (扣除手續費與交易稅)
+  costBasis: number; // 賣出部位的平均成本 (含買進手續費)
+  profit: number;    // 已實現損益
+}
+
+// Oldest first; same-day trades keep the order they were entered in
+export const sortTransactions = (transactions: Transaction[]): Transaction[] => {
+  return [...transactions].sort((a, b) => {
+    if (a.date !== b.date) return a.date.localeCompare(b.date);
+    return a.id.localeCompare(b.id, undefined, { numeric: true });
+  });
+};
+
+/**
+ * Replay a holding's trades using the average cost method.
+ * Buys add shares and cost (price + fee); sells remove shares at the running average,
+ * so the remaining cost basis is unaffected by the sell price.
+ */
+const replayLedger = (transactions: Transaction[]) => {
+  let quantity = 0;
+  let tradeCost = 0; // Shares * Price only
+  let costBasis = 0; // Including fees
+  const realized: RealizedGain[] = [];
+
+  sortTransactions(transactions).forEach(tx => {
+    if (tx.type === TradeType.BUY) {
+      quantity += tx.shares;
+      tradeCost += tx.shares * tx.price;
+      costBasis += tx.shares * tx.price + tx.fee;
+      return;
+    }
+
+    if (quantity <= 0) return;
+    const soldShares = Math.min(tx.shares, quantity);
+    const remainingRatio = (quantity - soldShares) / quantity;
+    const soldCost = costBasis * (1 - remainingRatio);
+    // Fee and tax are scaled down if the sell was clamped to the shares actually held
+    const proceeds = soldShares * tx.price - (tx.fee + tx.tax) * (soldShares / tx.shares);
+
+    realized.push({
+      transactionId: tx.id,
+      holdingId: tx.holdingId,
+      code: tx.code,
+      date: tx.date,
+      shares: soldShares,
+      proceeds: Math.round(proceeds),
+      costBasis: Math.round(soldCost),
+      profit: Math.round(proceeds - soldCost),
+    });
+
+    quantity -= soldShares;
+    tradeCost *= remainingRatio;
+    costBasis *= remainingRatio;
+  });
+
+  return { quantity, tradeCost, costBasis, realized };
+};
+
+export const derivePosition = (transactions: Transaction[]): LedgerPosition => {
+  const { quantity, tradeCost, costBasis } = replayLedger(transactions);
+  return {
+    quantity,
+    avgPrice: quantity > 0 ? tradeCost / quantity : 0,
+    costBasis: Math.round(costBasis),
+  };
+};
+
+/**
+ * Realized gain of every sell across all holdings, including holdings that have since been deleted.
+ */
+export const calculateRealizedGains = (transactions: Transaction[]): RealizedGain[] => {
+  const byHolding = new Map<string, Transaction[]>();
+  transactions.forEach(tx => {
+    byHolding.set(tx.holdingId, [...(byHolding.get(tx.holdingId) || []), tx]);
+  });
+
+  return Array.from(byHolding.values())
+    .flatMap(ledger => replayLedger(ledger).realized)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const summarizeRealizedByYear = (gains: RealizedGain[]): { year: number; profit: number }[] => {
+  const yearly = new Map<number, number>();
+  gains.forEach(g => {
+    const year = parseInt(g.date.split('-')[0]);
+    yearly.set(year, (yearly.get(year) || 0) + g.profit);
+  });
+  return Array.from(yearly.entries())
+    .map(([year, profit]) => ({ year, profit }))
+    .sort((a, b) => b.year - a.year);
+};
+
+/**
+ * Check that no sell exceeds the shares held at that point in time.
+ * Returns the offending trade, or null when the ledger is consistent.
+ */
+export const findOversoldTransaction = (transactions: Transaction[]): Transaction | null => {
+  let quantity = 0;
+  for (const tx of sortTransactions(transactions)) {
+    quantity += tx.type === TradeType.BUY ? tx.shares : -tx.shares;
+    if (quantity < 0) return tx;
+  }
+  return null;
+};
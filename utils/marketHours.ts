@@ -0,0 +1,121 @@
+import { AutoRefreshPreference } from '../types';
+import { TWSE_HOLIDAYS } from '../constants';
+
+export interface TradingSession {
+  id: 'regular' | 'oddLot';
+  label: string;
+  open: number;  // Taipei time, minutes after midnight
+  close: number;
+}
+
+// Sessions of TWSE and TPEX; the after-hours odd-lot auction runs after the regular close
+export const TRADING_SESSIONS: TradingSession[] = [
+  { id: 'regular', label: '一般交易', open: 9 * 60, close: 13 * 60 + 30 },
+  { id: 'oddLot', label: '盤後零股', open: 13 * 60 + 40, close: 14 * 60 + 30 },
+];
+
+export const REGULAR_SESSION = TRADING_SESSIONS[0];
+
+const TAIPEI_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Calendar date, minutes after midnight and weekday (0 = Sunday) of a moment in Taipei,
+ * independent of the browser's time zone.
+ */
+export const toTaipeiTime = (moment: Date) => {
+  const shifted = new Date(moment.getTime() + TAIPEI_OFFSET_MS);
+  return {
+    date: shifted.toISOString().split('T')[0],
+    minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes(),
+    weekday: shifted.getUTCDay(),
+  };
+};
+
+// The moment a Taipei wall clock shows `minutes` after midnight on `date`
+const fromTaipeiTime = (date: string, minutes: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + minutes * 60000 - TAIPEI_OFFSET_MS);
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+export const holidayName = (date: string): string | undefined => TWSE_HOLIDAYS[date];
+
+export const isTradingDay = (date: string): boolean => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday >= 1 && weekday <= 5 && !TWSE_HOLIDAYS[date];
+};
+
+const sessionsFor = (includeOddLot: boolean) => (includeOddLot ? TRADING_SESSIONS : [REGULAR_SESSION]);
+
+export const activeSession = (now: Date, includeOddLot = true): TradingSession | null => {
+  const t = toTaipeiTime(now);
+  if (!isTradingDay(t.date)) return null;
+  return sessionsFor(includeOddLot).find(s => t.minutes >= s.open && t.minutes < s.close) || null;
+};
+
+/**
+ * First session opening after `now`. Looks a month ahead, which covers the Lunar New Year
+ * closure; null only if the holiday table is badly wrong.
+ */
+export const nextSessionStart = (now: Date, includeOddLot = true): { session: TradingSession; at: Date } | null => {
+  const t = toTaipeiTime(now);
+  for (let i = 0; i <= 31; i++) {
+    const date = shiftDate(t.date, i);
+    if (!isTradingDay(date)) continue;
+    const session = sessionsFor(includeOddLot).find(s => i > 0 || s.open > t.minutes);
+    if (session) return { session, at: fromTaipeiTime(date, session.open) };
+  }
+  return null;
+};
+
+/**
+ * Date of the latest regular session that has opened by `now`: today once trading starts on a
+ * trading day, otherwise the trading day before, skipping weekends and exchange holidays.
+ */
+export const latestSessionDate = (now: Date): string => {
+  const t = toTaipeiTime(now);
+  let date = t.date;
+  if (isTradingDay(date) && t.minutes >= REGULAR_SESSION.open) return date;
+  do {
+    date = shiftDate(date, -1);
+  } while (!isTradingDay(date));
+  return date;
+};
+
+export const DEFAULT_AUTO_REFRESH: AutoRefreshPreference = { enabled: false, intervalMinutes: 5, includeOddLot: true };
+
+export const AUTO_REFRESH_INTERVALS = [1, 2, 5, 10, 15, 30]; // 分鐘
+
+// Consecutive failures double the interval up to this
+export const MAX_BACKOFF_MINUTES = 60;
+
+// Outside sessions the next opening is re-checked at least this often, so a laptop waking
+// from sleep or a changed clock does not leave a stale timer behind
+const MAX_IDLE_WAIT_MINUTES = 15;
+
+export interface AutoRefreshStatus {
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastError: string | null;
+  failures: number; // 連續失敗次數，決定退避間隔
+}
+
+export const backoffMinutes = (intervalMinutes: number, failures: number) =>
+  Math.min(intervalMinutes * 2 ** failures, Math.max(intervalMinutes, MAX_BACKOFF_MINUTES));
+
+/**
+ * Milliseconds until the automatic refresh should next look at the market: the configured
+ * interval (with backoff) while a session is open, otherwise the wait until the next session
+ * opens, capped at MAX_IDLE_WAIT_MINUTES.
+ */
+export const nextAutoRefreshDelay = (now: Date, settings: AutoRefreshPreference, failures = 0): number => {
+  if (activeSession(now, settings.includeOddLot)) {
+    return backoffMinutes(settings.intervalMinutes, failures) * 60000;
+  }
+  const next = nextSessionStart(now, settings.includeOddLot);
+  const idle = MAX_IDLE_WAIT_MINUTES * 60000;
+  return next ? Math.min(Math.max(next.at.getTime() - now.getTime(), 0), idle) : idle;
+};
@@ -0,0 +1,313 @@
+import { CalculatedHolding, CashFlow, DividendRecord, PortfolioSnapshot, PriceHistory, TradeType, Transaction } from '../types';
+import { assignDividends } from './accounts';
+
+// A dated cash flow from the investor's side: money put in is negative, money taken out positive
+export interface DatedFlow {
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export interface ReturnMetrics {
+  xirr: number | null;          // 年化資金加權報酬率 (%)
+  twr: number | null;           // 時間加權報酬率 (%)，滿一年才年化，否則為累計
+  twrAnnualized: boolean;
+  since: string | null;         // 第一筆投入日
+}
+
+export interface PortfolioPerformance {
+  portfolio: ReturnMetrics;
+  growthPath: GrowthPath | null; // 整體組合的時間加權成長曲線，供基準比較
+  holdings: Record<string, ReturnMetrics>; // keyed by holding id
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const daysBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS;
+
+// Growth factor over a number of days as an annual rate, in percent
+export const annualize = (growth: number, days: number) => (Math.pow(growth, 365 / days) - 1) * 100;
+
+/**
+ * Annualized internal rate of return of irregular dated flows (Excel's XIRR), in percent.
+ * Newton's method from a 10% guess, falling back to bisection when it does not converge.
+ * Null when there is no sign change (nothing to solve) or no root in (-100%, +10000%).
+ */
+export const xirr = (flows: DatedFlow[]): number | null => {
+  const valid = flows.filter(f => f.amount !== 0).sort((a, b) => a.date.localeCompare(b.date));
+  if (!valid.some(f => f.amount < 0) || !valid.some(f => f.amount > 0)) return null;
+
+  const start = valid[0].date;
+  const years = valid.map(f => daysBetween(start, f.date) / 365);
+  const npv = (rate: number) => valid.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const dnpv = (rate: number) => valid.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    if (Math.abs(value) < 1e-6) return rate * 100;
+    const slope = dnpv(rate);
+    if (!slope || !isFinite(slope)) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next * 100;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < 1e-6 || high - low < 1e-10) return mid * 100;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return ((low + high) / 2) * 100;
+};
+
+// Cash a trade moves: buys pay price and fee, sells bring in the price net of fee and tax
+const tradeCash = (t: Transaction) => t.type === TradeType.BUY ? -(t.shares * t.price + t.fee) : t.shares * t.price - t.fee - t.tax;
+
+/**
+ * Flows of a single holding: buys (incl. fee) go in, sells (net of fee and tax) and dividends
+ * come out, and whatever is still held is "sold" at its net present value on the valuation date.
+ * The portfolio as a whole uses buildPortfolioCashFlows, where the cash balance is included.
+ */
+export const buildCashFlows = (transactions: Transaction[], dividends: DividendRecord[], presentValue: number, valuationDate: string): DatedFlow[] => {
+  const flows: DatedFlow[] = transactions.map(t => ({ date: t.date, amount: tradeCash(t) }));
+  dividends.forEach(r => flows.push({ date: r.date, amount: r.amount }));
+  if (presentValue > 0) flows.push({ date: valuationDate, amount: presentValue });
+  return flows;
+};
+
+export interface CashDay {
+  date: string;
+  contributed: number; // 當日外部淨投入 (存入減提領，加上現金不足而補入的買進款)
+  cash: number;        // 當日收盤後的現金餘額
+}
+
+/**
+ * Cash balance of the portfolio replayed day by day from its deposits and withdrawals, trades
+ * and dividends. A buy the balance cannot cover is taken as money brought in that day, so trades
+ * from before any deposit was recorded still count as invested.
+ */
+export const replayCash = (transactions: Transaction[], dividends: DividendRecord[], cashFlows: CashFlow[]): CashDay[] => {
+  const days = new Map<string, { external: number; internal: number }>();
+  const add = (date: string, external: number, internal: number) => {
+    const day = days.get(date) || { external: 0, internal: 0 };
+    days.set(date, { external: day.external + external, internal: day.internal + internal });
+  };
+  cashFlows.forEach(f => add(f.date, f.amount, 0));
+  dividends.forEach(r => add(r.date, 0, r.amount));
+  transactions.forEach(t => add(t.date, 0, tradeCash(t)));
+
+  let cash = 0;
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => {
+      cash += day.external + day.internal;
+      const shortfall = Math.max(0, -cash);
+      cash += shortfall;
+      return { date, contributed: day.external + shortfall, cash };
+    });
+};
+
+/**
+ * Flows of the whole portfolio, cash included: only deposits and withdrawals cross its boundary,
+ * and it is "sold" on the valuation date for the net present value of the holdings plus the
+ * replayed cash balance. Trades and dividends only move money inside it.
+ */
+export const buildPortfolioCashFlows = (
+  transactions: Transaction[],
+  dividends: DividendRecord[],
+  cashFlows: CashFlow[],
+  presentValue: number,
+  valuationDate: string
+): DatedFlow[] => {
+  const days = replayCash(transactions, dividends, cashFlows).filter(d => d.date <= valuationDate);
+  const flows: DatedFlow[] = days.map(d => ({ date: d.date, amount: -d.contributed }));
+  const value = presentValue + (days.length > 0 ? days[days.length - 1].cash : 0);
+  if (value > 0) flows.push({ date: valuationDate, amount: value });
+  return flows;
+};
+
+export interface GrowthPath {
+  points: { date: string; growth: number }[]; // cumulative growth factor at each date's close
+  since: string;                              // first day money was invested
+  end: string;                                // valuation date, or the last sale if fully closed
+}
+
+/**
+ * Chained growth of the invested sleeve: the growth of each period between trades is linked,
+ * so how much money went in and when does not matter. Holdings are valued at the latest known
+ * price on each date: trade prices, the daily snapshot prices, stored daily closes and finally
+ * today's price. Dividends count as income of the period they fall in.
+ *
+ * With `cashFlows` the cash balance replayed by replayCash is valued too, so idle cash weighs on
+ * the growth and only deposits and withdrawals are linked out.
+ */
+export const buildGrowthPath = (
+  transactions: Transaction[],
+  dividends: DividendRecord[],
+  currentPrices: Record<string, number>, // keyed by holding id
+  snapshots: PortfolioSnapshot[],
+  valuationDate: string,
+  history: PriceHistory = {},
+  cashFlows: CashFlow[] | null = null
+): GrowthPath | null => {
+  if (transactions.length === 0 && !cashFlows?.length) return null;
+
+  // Price history per holding id, sorted by date
+  const codes = new Map<string, string>();
+  const prices = new Map<string, { date: string; price: number }[]>();
+  const addPrice = (holdingId: string, date: string, price: number) => {
+    if (!prices.has(holdingId)) prices.set(holdingId, []);
+    prices.get(holdingId)!.push({ date, price });
+  };
+  transactions.forEach(t => {
+    codes.set(t.holdingId, t.code);
+    addPrice(t.holdingId, t.date, t.price);
+  });
+  codes.forEach((code, holdingId) => {
+    snapshots.forEach(s => {
+      if (s.prices[code] !== undefined) addPrice(holdingId, s.date, s.prices[code]);
+    });
+    (history[code] || []).forEach(p => addPrice(holdingId, p.date, p.price));
+    if (currentPrices[holdingId] !== undefined) addPrice(holdingId, valuationDate, currentPrices[holdingId]);
+  });
+  prices.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+  // Dates are walked in order, so each holding keeps a cursor into its price list
+  const cursors = new Map<string, number>();
+  const priceAt = (holdingId: string, date: string) => {
+    const list = prices.get(holdingId) || [];
+    let i = cursors.get(holdingId) ?? -1;
+    while (i + 1 < list.length && list[i + 1].date <= date) i++;
+    cursors.set(holdingId, i);
+    return i >= 0 ? list[i].price : 0;
+  };
+
+  const shares = new Map<string, number>();
+  const valueAt = (date: string) => {
+    let total = 0;
+    shares.forEach((qty, holdingId) => { total += qty * priceAt(holdingId, date); });
+    return total;
+  };
+
+  const cashDays = cashFlows
+    ? new Map<string, number>(replayCash(transactions, dividends, cashFlows).map(d => [d.date, d.cash]))
+    : null;
+
+  const firstDate = [...transactions, ...(cashFlows || [])].reduce((min, t) => (t.date < min ? t.date : min), valuationDate);
+  const dates = Array.from(new Set<string>([
+    ...transactions.map(t => t.date),
+    ...(cashFlows || []).map(f => f.date),
+    ...dividends.map(r => r.date),
+    ...snapshots.map(s => s.date),
+    ...Array.from(codes.values()).flatMap(code => (history[code] || []).map(p => p.date)),
+    valuationDate,
+  ]))
+    .filter(d => d >= firstDate && d <= valuationDate)
+    .sort();
+
+  let growth = 1;
+  let lastValue = 0;
+  let cash = 0;
+  let since: string | null = null;
+  let end = valuationDate;
+  const points: GrowthPath['points'] = [];
+
+  for (const date of dates) {
+    const income = dividends.filter(r => r.date === date).reduce((sum, r) => sum + r.amount, 0);
+    if (lastValue > 0) {
+      growth *= (valueAt(date) + cash + income) / lastValue;
+    }
+
+    transactions.filter(t => t.date === date).forEach(t => {
+      const held = shares.get(t.holdingId) || 0;
+      shares.set(t.holdingId, t.type === TradeType.BUY ? held + t.shares : Math.max(0, held - t.shares));
+    });
+
+    const wasInvested = lastValue > 0;
+    if (cashDays) cash = cashDays.get(date) ?? cash;
+    lastValue = valueAt(date) + cash;
+    if (lastValue > 0 && !since) since = date;
+    if (since) points.push({ date, growth });
+    // A fully closed position stops compounding at its last sale
+    if (wasInvested && lastValue === 0) end = date;
+  }
+
+  if (!since) return null;
+  return { points, since, end: lastValue > 0 ? valuationDate : end };
+};
+
+/**
+ * Time-weighted return of a growth path in percent, annualized once the history spans a year.
+ */
+export const timeWeightedReturn = (path: GrowthPath | null): { twr: number; annualized: boolean; since: string } | null => {
+  if (!path) return null;
+  const growth = path.points.filter(p => p.date <= path.end).pop()?.growth ?? 1;
+  const days = daysBetween(path.since, path.end);
+  if (days >= 365) {
+    return { twr: annualize(growth, days), annualized: true, since: path.since };
+  }
+  return { twr: (growth - 1) * 100, annualized: false, since: path.since };
+};
+
+export const calculatePerformance = (
+  holdings: CalculatedHolding[],
+  transactions: Transaction[],
+  dividends: DividendRecord[],
+  cashFlows: CashFlow[],
+  snapshots: PortfolioSnapshot[],
+  history: PriceHistory = {},
+  valuationDate: string = new Date().toISOString().split('T')[0]
+): PortfolioPerformance => {
+  // Pending dividends (paid after the valuation date) are not income yet
+  const received = dividends.filter(r => r.date <= valuationDate);
+  const currentPrices: Record<string, number> = {};
+  holdings.forEach(h => { currentPrices[h.id] = h.currentPrice; });
+
+  const metrics = (path: GrowthPath | null, flows: DatedFlow[]): ReturnMetrics => {
+    const twr = timeWeightedReturn(path);
+    return {
+      xirr: xirr(flows),
+      twr: twr ? twr.twr : null,
+      twrAnnualized: twr ? twr.annualized : false,
+      since: twr ? twr.since : null,
+    };
+  };
+
+  const dividendsByHolding = assignDividends(holdings, received, valuationDate);
+  const perHolding: Record<string, ReturnMetrics> = {};
+  holdings.forEach(h => {
+    const txs = transactions.filter(t => t.holdingId === h.id);
+    const divs = dividendsByHolding.get(h.id) || [];
+    perHolding[h.id] = metrics(
+      buildGrowthPath(txs, divs, currentPrices, snapshots, valuationDate, history),
+      buildCashFlows(txs, divs, h.presentValue, valuationDate)
+    );
+  });
+
+  // The portfolio's path is built once and serves both its TWR and the benchmark comparison
+  const flows = cashFlows.filter(f => f.date <= valuationDate);
+  const growthPath = buildGrowthPath(transactions, received, currentPrices, snapshots, valuationDate, history, flows);
+  const presentValue = holdings.reduce((sum, h) => sum + h.presentValue, 0);
+
+  return {
+    portfolio: metrics(growthPath, buildPortfolioCashFlows(transactions, received, flows, presentValue, valuationDate)),
+    growthPath,
+    holdings: perHolding,
+  };
+};
+
+export const formatReturn = (value: number | null) => {
+  if (value === null || !isFinite(value)) return '—';
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+};
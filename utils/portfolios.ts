@@ -0,0 +1,193 @@
+import { Account, AllocationTarget, Benchmark, CalculatedHolding, CashFlow, DividendRecord, DriftBreachEvent, FeeProfile, Holding, Portfolio, PortfolioSnapshot, PortfolioSummary, Transaction } from '../types';
+import { DEFAULT_ALLOCATION_TARGET, DEFAULT_BENCHMARK, DEFAULT_PORTFOLIO_ID, INITIAL_CASH, INITIAL_HOLDINGS } from '../constants';
+import { calculateSummary, enrichHolding, seedOpeningTransactions } from './calculations';
+import { accountOf, assignDividends, createDefaultAccount, resolveHoldingFeeProfile, sumDividends } from './accounts';
+
+// Everything that belongs to one portfolio; theme and fee profiles are shared by all of them
+export interface PortfolioData {
+  holdings: Holding[];
+  transactions: Transaction[];
+  accounts: Account[];
+  cashFlows: CashFlow[];
+  dividendRecords: DividendRecord[];
+  allocationTarget: AllocationTarget;
+  driftBreachLog: DriftBreachEvent[];
+  snapshots: PortfolioSnapshot[];
+  benchmark: Benchmark;
+}
+
+export interface PortfolioOverview {
+  portfolio: Portfolio;
+  holdings: CalculatedHolding[];
+  summary: PortfolioSummary;
+}
+
+export const PORTFOLIO_STORAGE_KEYS = {
+  holdings: 'portfolio_holdings',
+  transactions: 'portfolio_transactions',
+  accounts: 'portfolio_accounts',
+  cashFlows: 'cash_flows',
+  dividendRecords: 'dividend_records',
+  allocationTarget: 'allocation_target',
+  driftBreachLog: 'drift_breach_log',
+  snapshots: 'portfolio_snapshots',
+  benchmark: 'benchmark',
+} as const;
+
+export const createDefaultPortfolio = (): Portfolio => ({
+  id: DEFAULT_PORTFOLIO_ID,
+  name: '我的投資組合',
+});
+
+/**
+ * localStorage key of a portfolio's data. The default portfolio keeps the original
+ * un-prefixed keys so data saved before portfolios existed is picked up as is.
+ */
+export const portfolioStorageKey = (portfolioId: string, key: string) => {
+  return portfolioId === DEFAULT_PORTFOLIO_ID ? key : `${key}@${portfolioId}`;
+};
+
+const readJSON = <T>(portfolioId: string, key: string): T | null => {
+  const saved = localStorage.getItem(portfolioStorageKey(portfolioId, key));
+  return saved ? JSON.parse(saved) : null;
+};
+
+const dayBefore = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().split('T')[0];
+};
+
+/**
+ * Date for the opening trade of a hand-entered position: the earliest sign that it was already
+ * held, i.e. the day before its first recorded ex-dividend date (pay date when the ex-date is
+ * unknown) or the first snapshot that priced it, and `today` when there is neither. The trade's
+ * date can still be corrected in the ledger.
+ */
+export const estimateOpeningDate = (
+  holding: Holding,
+  dividendRecords: DividendRecord[],
+  snapshots: PortfolioSnapshot[],
+  today: string
+): string => {
+  const candidates = [
+    ...dividendRecords
+      .filter(r => r.ticker === holding.code && accountOf(r) === accountOf(holding))
+      .map(r => dayBefore(r.exDividendDate || r.date)),
+    ...snapshots.filter(s => s.prices[holding.code] !== undefined).map(s => s.date),
+  ];
+  return candidates.reduce((earliest, date) => (date < earliest ? date : earliest), today);
+};
+
+/**
+ * Load a portfolio from localStorage. The default portfolio falls back to the sample data
+ * (and the legacy single cash balance); new portfolios start empty.
+ */
+export const loadPortfolioData = (portfolioId: string, feeProfiles: FeeProfile[]): PortfolioData => {
+  const isDefault = portfolioId === DEFAULT_PORTFOLIO_ID;
+  const today = new Date().toISOString().split('T')[0];
+
+  const load = <T>(key: string, fallback: T, label: string): T => {
+    try {
+      return readJSON<T>(portfolioId, key) ?? fallback;
+    } catch (e) {
+      console.error(`Failed to load ${label}:`, e);
+      return fallback;
+    }
+  };
+
+  const holdings = load<Holding[]>(PORTFOLIO_STORAGE_KEYS.holdings, isDefault ? INITIAL_HOLDINGS : [], 'holdings');
+
+  // Data from before accounts existed keeps its single cash balance in the default account
+  const legacyCash = isDefault ? localStorage.getItem('portfolio_cash') : null;
+  const accounts = load<Account[]>(
+    PORTFOLIO_STORAGE_KEYS.accounts,
+    [createDefaultAccount(legacyCash ? parseFloat(legacyCash) : isDefault ? INITIAL_CASH : 0)],
+    'accounts'
+  );
+
+  const dividendRecords = load<DividendRecord[]>(
+    PORTFOLIO_STORAGE_KEYS.dividendRecords,
+    isDefault
+      ? [
+          { id: '1', date: '2023-10-20', ticker: '0056', amount: 24000, note: 'Q3配息' },
+          { id: '2', date: '2023-11-15', ticker: '00878', amount: 12000, note: '' },
+        ]
+      : [],
+    'dividend records'
+  );
+  const snapshots = load<PortfolioSnapshot[]>(PORTFOLIO_STORAGE_KEYS.snapshots, [], 'snapshots');
+
+  // Holdings that predate the ledger get an opening BUY built from their hand-entered quantity/avgPrice
+  const transactions = seedOpeningTransactions(
+    holdings,
+    load<Transaction[]>(PORTFOLIO_STORAGE_KEYS.transactions, [], 'transactions'),
+    h => estimateOpeningDate(h, dividendRecords, snapshots, today),
+    feeProfiles
+  );
+
+  const savedTarget = load<Partial<AllocationTarget> | null>(PORTFOLIO_STORAGE_KEYS.allocationTarget, null, 'allocation target');
+
+  return {
+    holdings,
+    transactions,
+    accounts,
+    cashFlows: load<CashFlow[]>(PORTFOLIO_STORAGE_KEYS.cashFlows, [], 'cash flows'),
+    dividendRecords,
+    allocationTarget: savedTarget ? { ...DEFAULT_ALLOCATION_TARGET, ...savedTarget } : DEFAULT_ALLOCATION_TARGET,
+    driftBreachLog: load<DriftBreachEvent[]>(PORTFOLIO_STORAGE_KEYS.driftBreachLog, [], 'drift breach log'),
+    snapshots,
+    benchmark: load<Benchmark>(PORTFOLIO_STORAGE_KEYS.benchmark, DEFAULT_BENCHMARK, 'benchmark'),
+  };
+};
+
+export const removePortfolioData = (portfolioId: string) => {
+  Object.values(PORTFOLIO_STORAGE_KEYS).forEach(key => localStorage.removeItem(portfolioStorageKey(portfolioId, key)));
+};
+
+/**
+ * Valuation of one portfolio across all of its accounts.
+ */
+export const summarizePortfolio = (portfolio: Portfolio, data: PortfolioData, feeProfiles: FeeProfile[]): PortfolioOverview => {
+  const dividendsByHolding = assignDividends(data.holdings, data.dividendRecords, new Date().toISOString().split('T')[0]);
+  const holdings = data.holdings.map(h => enrichHolding(
+    h,
+    data.transactions,
+    resolveHoldingFeeProfile(h, data.accounts, feeProfiles),
+    sumDividends(dividendsByHolding.get(h.id))
+  ));
+  const cash = data.accounts.reduce((sum, a) => sum + a.cash, 0);
+  return { portfolio, holdings, summary: calculateSummary(holdings, cash, data.transactions) };
+};
+
+/**
+ * Household totals. Summaries are added up rather than recomputed from the merged holdings,
+ * since ids are only unique within a portfolio.
+ */
+export const combineSummaries = (summaries: PortfolioSummary[]): PortfolioSummary => {
+  const sum = (pick: (s: PortfolioSummary) => number) => summaries.reduce((total, s) => total + pick(s), 0);
+  const stockValue = sum(s => s.stockValue);
+  const bondValue = sum(s => s.bondValue);
+  const totalCost = sum(s => s.totalCost);
+  const totalProfit = sum(s => s.totalProfit);
+  const invested = stockValue + bondValue;
+
+  const realizedByYear = new Map<number, number>();
+  summaries.forEach(s => s.realizedByYear.forEach(r => realizedByYear.set(r.year, (realizedByYear.get(r.year) || 0) + r.profit)));
+
+  return {
+    totalAssets: sum(s => s.totalAssets),
+    stockValue,
+    bondValue,
+    cashValue: sum(s => s.cashValue),
+    totalCost,
+    totalProfit,
+    totalRoi: totalCost === 0 ? 0 : (totalProfit / totalCost) * 100,
+    stockRatio: invested === 0 ? 0 : (stockValue / invested) * 100,
+    bondRatio: invested === 0 ? 0 : (bondValue / invested) * 100,
+    realizedProfit: sum(s => s.realizedProfit),
+    realizedByYear: Array.from(realizedByYear.entries())
+      .map(([year, profit]) => ({ year, profit }))
+      .sort((a, b) => b.year - a.year),
+  };
+};
@@ -0,0 +1,288 @@
+import { PriceBar, PriceHistory } from '../types';
+import { fetchYahooHistory } from './api';
+import { parseCsvDate, parseCsvNumber, splitCsvLine } from './csv';
+
+// Daily bars live in IndexedDB rather than localStorage: years of closes for a handful of
+// codes would not fit the localStorage quota, and nothing else needs them synchronously
+const DB_NAME = 'portfolio_prices';
+const DB_VERSION = 1;
+const STORE = 'daily_bars';
+
+interface StoredPriceBar extends PriceBar {
+  code: string;
+  source: string; // provider id, or 'csv'
+}
+
+export interface StoredCodeSummary {
+  code: string;
+  count: number;
+  first: string;
+  last: string;
+  sources: string[];
+}
+
+// Where backfilled prices come from; any source with daily bars can be plugged in here
+export interface PriceHistoryProvider {
+  id: string;
+  name: string;
+  fetchBars: (code: string, from: string, to: string) => Promise<PriceBar[]>;
+}
+
+export interface BackfillResult {
+  code: string;
+  added: number;
+  error?: string;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('此瀏覽器不支援 IndexedDB'));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORE)) {
+      db.createObjectStore(STORE, { keyPath: ['code', 'date'] });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// All bars of one code, in date order thanks to the [code, date] key
+const codeRange = (code: string) => IDBKeyRange.bound([code, ''], [code, '\uffff']);
+
+export const loadPriceBars = async (code: string): Promise<PriceBar[]> => {
+  const rows = await withStore<StoredPriceBar[]>('readonly', store => store.getAll(codeRange(code)));
+  return (rows || []).map(({ code: _code, source: _source, ...bar }) => bar);
+};
+
+/**
+ * Store bars for a code; a bar for a date that is already stored replaces it.
+ */
+export const savePriceBars = async (code: string, bars: PriceBar[], source: string) => {
+  if (bars.length === 0) return;
+  await withStore('readwrite', store => {
+    bars.forEach(bar => store.put({ ...bar, code, source }));
+  });
+};
+
+export const deletePriceBars = async (code: string) => {
+  await withStore('readwrite', store => {
+    store.delete(codeRange(code));
+  });
+};
+
+/**
+ * Stored closes of the given codes, in the shape the benchmark and performance code expects.
+ */
+export const loadPriceHistory = async (codes: string[]): Promise<PriceHistory> => {
+  const history: PriceHistory = {};
+  for (const code of codes) {
+    const bars = await loadPriceBars(code);
+    if (bars.length > 0) history[code] = bars.map(b => ({ date: b.date, price: b.close }));
+  }
+  return history;
+};
+
+export const summarizePriceStore = async (): Promise<StoredCodeSummary[]> => {
+  const rows = (await withStore<StoredPriceBar[]>('readonly', store => store.getAll())) || [];
+  const byCode = new Map<string, StoredCodeSummary>();
+  rows.forEach(row => {
+    const entry = byCode.get(row.code);
+    if (!entry) {
+      byCode.set(row.code, { code: row.code, count: 1, first: row.date, last: row.date, sources: [row.source] });
+      return;
+    }
+    entry.count++;
+    if (row.date < entry.first) entry.first = row.date;
+    if (row.date > entry.last) entry.last = row.date;
+    if (!entry.sources.includes(row.source)) entry.sources.push(row.source);
+  });
+  return Array.from(byCode.values()).sort((a, b) => a.code.localeCompare(b.code));
+};
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+/**
+ * Fill the gaps between [from, to] and what is already stored for each code: only the part
+ * before the first stored bar and after the last one is requested. A code that fails does not
+ * stop the others.
+ */
+export const backfillPriceHistory = async (
+  codes: string[],
+  provider: PriceHistoryProvider,
+  from: string,
+  to: string
+): Promise<BackfillResult[]> => {
+  const results: BackfillResult[] = [];
+  for (const code of codes) {
+    try {
+      const existing = await loadPriceBars(code);
+      const ranges: [string, string][] = [];
+      if (existing.length === 0) {
+        ranges.push([from, to]);
+      } else {
+        const first = existing[0].date;
+        const last = existing[existing.length - 1].date;
+        if (from < first) ranges.push([from, shiftDate(first, -1)]);
+        if (last < to) ranges.push([shiftDate(last, 1), to]);
+      }
+
+      let added = 0;
+      for (const [start, end] of ranges) {
+        const bars = await provider.fetchBars(code, start, end);
+        await savePriceBars(code, bars, provider.id);
+        added += bars.length;
+      }
+      results.push({ code, added });
+    } catch (e: any) {
+      results.push({ code, added: 0, error: e?.message || String(e) });
+    }
+  }
+  return results;
+};
+
+// --- Providers ---
+
+// Deterministic random walk seeded by the code, so development and demos work offline and
+// the same code always gets the same prices
+const FIXTURE_EPOCH = '2015-01-05';
+
+const seedOf = (code: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < code.length; i++) {
+    hash ^= code.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const fixtureBars = (code: string, from: string, to: string): PriceBar[] => {
+  let state = seedOf(code) || 1;
+  const random = () => {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+
+  const isBond = code.endsWith('B');
+  const drift = isBond ? 0.00005 : 0.0003;
+  const volatility = isBond ? 0.004 : 0.012;
+  let close = 15 + (seedOf(code) % 100);
+
+  const bars: PriceBar[] = [];
+  const date = new Date(FIXTURE_EPOCH);
+  const end = new Date(to);
+  while (date <= end) {
+    const day = date.getUTCDay();
+    if (day !== 0 && day !== 6) {
+      // Draw every number each day, whether or not it is kept, so the walk does not depend on `from`
+      const open = close;
+      close = Math.max(1, close * (1 + drift + (random() - 0.5) * 2 * volatility));
+      const high = Math.max(open, close) * (1 + random() * volatility / 2);
+      const low = Math.min(open, close) * (1 - random() * volatility / 2);
+      const volume = Math.round(1000000 + random() * 9000000);
+      const dateStr = date.toISOString().split('T')[0];
+      if (dateStr >= from) {
+        const round = (v: number) => Math.round(v * 100) / 100;
+        bars.push({ date: dateStr, open: round(open), high: round(high), low: round(low), close: round(close), volume });
+      }
+    }
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return bars;
+};
+
+export const FIXTURE_PROVIDER: PriceHistoryProvider = {
+  id: 'fixture',
+  name: '本機模擬資料 (離線開發用)',
+  fetchBars: async (code, from, to) => fixtureBars(code, from, to),
+};
+
+export const PRICE_HISTORY_PROVIDERS: PriceHistoryProvider[] = [
+  { id: 'yahoo', name: 'Yahoo Finance', fetchBars: fetchYahooHistory },
+  FIXTURE_PROVIDER,
+];
+
+// --- CSV import ---
+
+const COLUMN_ALIASES: Record<keyof PriceBar | 'code', string[]> = {
+  date: ['date', '日期'],
+  code: ['code', 'symbol', 'ticker', '代號', '證券代號'],
+  open: ['open', '開盤價', '開盤'],
+  high: ['high', '最高價', '最高'],
+  low: ['low', '最低價', '最低'],
+  close: ['close', 'adj close', '收盤價', '收盤'],
+  volume: ['volume', '成交股數', '成交量'],
+};
+
+/**
+ * Daily bars from a CSV file with a header row. Date and close columns are required; without
+ * a code column every row belongs to `defaultCode`. Rows that do not parse (holidays marked
+ * with "--", notes, totals) are skipped.
+ */
+export const parsePriceCsv = (text: string, defaultCode?: string): Record<string, PriceBar[]> => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim());
+  const headerIndex = lines.findIndex(line => {
+    const fields = splitCsvLine(line).map(f => f.toLowerCase());
+    return COLUMN_ALIASES.date.some(a => fields.includes(a)) && COLUMN_ALIASES.close.some(a => fields.includes(a));
+  });
+  if (headerIndex < 0) throw new Error('找不到日期與收盤價欄位');
+
+  const header = splitCsvLine(lines[headerIndex]).map(f => f.toLowerCase());
+  const column = (key: keyof typeof COLUMN_ALIASES) => header.findIndex(f => COLUMN_ALIASES[key].includes(f));
+  const columns = {
+    date: column('date'),
+    code: column('code'),
+    open: column('open'),
+    high: column('high'),
+    low: column('low'),
+    close: column('close'),
+    volume: column('volume'),
+  };
+  if (columns.code < 0 && !defaultCode) throw new Error('檔案沒有代號欄位，請指定標的代號');
+
+  const result: Record<string, PriceBar[]> = {};
+  lines.slice(headerIndex + 1).forEach(line => {
+    const fields = splitCsvLine(line);
+    const pick = (index: number) => (index >= 0 ? fields[index] : undefined);
+    const date = parseCsvDate(pick(columns.date) || '');
+    const close = parseCsvNumber(pick(columns.close));
+    const code = (pick(columns.code) || defaultCode || '').toUpperCase();
+    if (!date || !close || close <= 0 || !code) return;
+
+    if (!result[code]) result[code] = [];
+    result[code].push({
+      date,
+      open: parseCsvNumber(pick(columns.open)),
+      high: parseCsvNumber(pick(columns.high)),
+      low: parseCsvNumber(pick(columns.low)),
+      close,
+      volume: parseCsvNumber(pick(columns.volume)),
+    });
+  });
+  return result;
+};
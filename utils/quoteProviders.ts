@@ -0,0 +1,176 @@
+import { Market, Quote, QuotePriceType, QuoteProviderPreference } from '../types';
+
+// One code to quote and the market it trades on, already resolved
+export interface QuoteRequest {
+  code: string;
+  market: Market;
+}
+
+// What a provider reports for one code; the registry adds the source and fetch time
+export interface ProviderQuote {
+  price: number;
+  priceType: QuotePriceType;
+  quotedAt?: string; // ISO
+}
+
+// A source of latest prices, keyed by code. Register one with registerQuoteProvider from its
+// own module; the built-in TWSE and Yahoo sources are registered by api.ts.
+export interface QuoteProvider {
+  id: string;
+  name: string;
+  description?: string;
+  fetchQuotes: (securities: QuoteRequest[]) => Promise<Record<string, ProviderQuote>>;
+}
+
+export interface ProviderHealth {
+  successes: number;
+  failures: number;
+  totalLatencyMs: number;   // 成功與失敗都計入，用來算平均
+  lastLatencyMs: number | null;
+  lastSuccessAt: string | null; // ISO timestamp
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+const HEALTH_STORAGE_KEY = 'quote_provider_health';
+
+const registry: QuoteProvider[] = [];
+
+export const registerQuoteProvider = (provider: QuoteProvider) => {
+  const index = registry.findIndex(p => p.id === provider.id);
+  if (index >= 0) {
+    registry[index] = provider;
+  } else {
+    registry.push(provider);
+  }
+};
+
+export const getQuoteProviders = (): QuoteProvider[] => [...registry];
+
+export const getQuoteProviderName = (id: string): string => registry.find(p => p.id === id)?.name ?? id;
+
+/**
+ * The saved preferences applied to what is registered: saved entries keep their order and
+ * on/off state, providers registered since are appended enabled, unknown ids are dropped.
+ */
+export const resolveProviderPreferences = (preferences: QuoteProviderPreference[]): QuoteProviderPreference[] => {
+  const known = preferences.filter(p => registry.some(r => r.id === p.id));
+  const added = registry.filter(r => !known.some(p => p.id === r.id)).map(r => ({ id: r.id, enabled: true }));
+  return [...known, ...added];
+};
+
+const emptyHealth = (): ProviderHealth => ({
+  successes: 0,
+  failures: 0,
+  totalLatencyMs: 0,
+  lastLatencyMs: null,
+  lastSuccessAt: null,
+  lastFailureAt: null,
+  lastError: null,
+});
+
+export const loadProviderHealth = (): Record<string, ProviderHealth> => {
+  try {
+    const saved = localStorage.getItem(HEALTH_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error('Failed to load quote provider health:', e);
+    return {};
+  }
+};
+
+export const resetProviderHealth = () => {
+  localStorage.removeItem(HEALTH_STORAGE_KEY);
+};
+
+const recordProviderResult = (id: string, latencyMs: number, error: string | null) => {
+  const all = loadProviderHealth();
+  const health = { ...emptyHealth(), ...all[id] };
+  const now = new Date().toISOString();
+  health.totalLatencyMs += latencyMs;
+  health.lastLatencyMs = latencyMs;
+  if (error === null) {
+    health.successes++;
+    health.lastSuccessAt = now;
+  } else {
+    health.failures++;
+    health.lastFailureAt = now;
+    health.lastError = error;
+  }
+  all[id] = health;
+  localStorage.setItem(HEALTH_STORAGE_KEY, JSON.stringify(all));
+};
+
+export const averageLatency = (health: ProviderHealth) => {
+  const attempts = health.successes + health.failures;
+  return attempts === 0 ? null : health.totalLatencyMs / attempts;
+};
+
+export const successRate = (health: ProviderHealth) => {
+  const attempts = health.successes + health.failures;
+  return attempts === 0 ? null : (health.successes / attempts) * 100;
+};
+
+/**
+ * Ask one provider, timing the call and recording the outcome. An empty answer counts as a
+ * failure, since that is what the fallback is there for.
+ */
+export const fetchFromProvider = async (provider: QuoteProvider, securities: QuoteRequest[]): Promise<Record<string, Quote>> => {
+  const started = performance.now();
+  try {
+    const answers = await provider.fetchQuotes(securities);
+    if (Object.keys(answers).length === 0) throw new Error('沒有回傳任何報價');
+    recordProviderResult(provider.id, Math.round(performance.now() - started), null);
+
+    const fetchedAt = new Date().toISOString();
+    const quotes: Record<string, Quote> = {};
+    Object.entries(answers).forEach(([code, q]) => {
+      quotes[code] = { ...q, source: provider.id, fetchedAt };
+    });
+    return quotes;
+  } catch (e: any) {
+    recordProviderResult(provider.id, Math.round(performance.now() - started), e?.message || String(e));
+    throw e;
+  }
+};
+
+export interface QuoteFetchResult {
+  quotes: Record<string, Quote>;
+  failures: Record<string, string>; // 代號 → 所有來源都未取得報價的原因
+}
+
+/**
+ * Ask the enabled providers in the preferred order. Codes a provider could not answer are
+ * passed on to the next one; codes nobody answered come back in `failures` with each
+ * provider's reason.
+ */
+export const fetchQuotes = async (securities: QuoteRequest[], preferences: QuoteProviderPreference[] = []): Promise<QuoteFetchResult> => {
+  const providers = resolveProviderPreferences(preferences)
+    .filter(p => p.enabled)
+    .map(p => registry.find(r => r.id === p.id)!);
+  if (providers.length === 0) throw new Error('沒有啟用的報價來源');
+
+  const quotes: Record<string, Quote> = {};
+  const reasons = new Map<string, string[]>();
+  const note = (code: string, reason: string) => reasons.set(code, [...(reasons.get(code) || []), reason]);
+
+  let pending = securities;
+  for (const provider of providers) {
+    if (pending.length === 0) break;
+    try {
+      const answered = await fetchFromProvider(provider, pending);
+      Object.assign(quotes, answered);
+      pending.filter(s => !answered[s.code]).forEach(s => note(s.code, `${provider.name} 未回傳此代號`));
+    } catch (error: any) {
+      console.warn(`Quote provider ${provider.name} failed:`, error);
+      pending.forEach(s => note(s.code, `${provider.name}：${error?.message || error}`));
+    }
+    pending = pending.filter(s => !quotes[s.code]);
+  }
+
+  const failures: Record<string, string> = {};
+  pending.forEach(s => {
+    failures[s.code] = (reasons.get(s.code) || []).join('；');
+  });
+  return { quotes, failures };
+};
@@ -0,0 +1,90 @@
+import { Holding, QuoteInfo, QuotePriceType } from '../types';
+import { REGULAR_SESSION, latestSessionDate, toTaipeiTime } from './marketHours';
+import { QuoteFetchResult } from './quoteProviders';
+
+export const PRICE_TYPE_LABELS: Record<QuotePriceType, string> = {
+  [QuotePriceType.LAST]: '成交價',
+  [QuotePriceType.BID]: '買價',
+  [QuotePriceType.ASK]: '賣價',
+  [QuotePriceType.PREVIOUS_CLOSE]: '昨收',
+};
+
+// During the session a quote older than this is no longer "live"
+export const QUOTE_STALE_MINUTES = 20;
+
+export interface QuoteFreshness {
+  stale: boolean;   // 報價早於最近一個交易時段開盤，或盤中超過 QUOTE_STALE_MINUTES 未更新
+  derived: boolean; // 不是成交價 (買價、賣價或昨收)
+  detail: string;   // 來源、價格種類與時間，供 tooltip 顯示
+}
+
+/**
+ * How current a stored quote is. A quote counts as stale when it was taken before the latest
+ * session opened (e.g. last Friday's price on Monday morning), or during the session when it
+ * is more than QUOTE_STALE_MINUTES old.
+ */
+export const evaluateQuoteFreshness = (quote: QuoteInfo, now: Date = new Date()): QuoteFreshness => {
+  const takenAt = new Date(quote.quotedAt || quote.fetchedAt);
+  const taken = toTaipeiTime(takenAt);
+  const current = toTaipeiTime(now);
+  const sessionDate = latestSessionDate(now);
+
+  const beforeSession = taken.date < sessionDate || (taken.date === sessionDate && taken.minutes < REGULAR_SESSION.open);
+  const inSession = current.date === sessionDate && current.minutes < REGULAR_SESSION.close;
+  const ageMinutes = (now.getTime() - takenAt.getTime()) / 60000;
+  const stale = beforeSession || (inSession && ageMinutes > QUOTE_STALE_MINUTES);
+
+  const time = takenAt.toLocaleString('zh-TW', { hour12: false, month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+  return {
+    stale,
+    derived: quote.priceType !== QuotePriceType.LAST,
+    detail: `${quote.source.toUpperCase()} · ${PRICE_TYPE_LABELS[quote.priceType]} · ${quote.quotedAt ? '報價' : '取得'}於 ${time}`,
+  };
+};
+
+export interface PriceUpdate {
+  code: string;
+  name: string;
+  previousPrice: number;
+  price: number;
+  changePercent: number; // 相對更新前的價格，更新前沒有價格時為 0
+  source: string;        // 回傳報價的來源 id
+  priceType: QuotePriceType;
+}
+
+export interface PriceRefreshReport {
+  finishedAt: string;
+  updated: PriceUpdate[];
+  failed: { code: string; name: string; reason: string }[];
+}
+
+/**
+ * Per-code outcome of a price refresh, measured against the holdings as they were before it.
+ * A code held in several accounts is listed once.
+ */
+export const buildRefreshReport = (
+  holdings: Pick<Holding, 'code' | 'name' | 'currentPrice'>[],
+  result: QuoteFetchResult
+): PriceRefreshReport => {
+  const seen = new Set<string>();
+  const report: PriceRefreshReport = { finishedAt: new Date().toISOString(), updated: [], failed: [] };
+  holdings.forEach(h => {
+    if (seen.has(h.code)) return;
+    seen.add(h.code);
+    const quote = result.quotes[h.code];
+    if (quote) {
+      report.updated.push({
+        code: h.code,
+        name: h.name,
+        previousPrice: h.currentPrice,
+        price: quote.price,
+        changePercent: h.currentPrice > 0 ? ((quote.price - h.currentPrice) / h.currentPrice) * 100 : 0,
+        source: quote.source,
+        priceType: quote.priceType,
+      });
+    } else {
+      report.failed.push({ code: h.code, name: h.name, reason: result.failures[h.code] || '未取得報價' });
+    }
+  });
+  return report;
+};
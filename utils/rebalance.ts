@@ -0,0 +1,388 @@
+import { AllocationTarget, AssetType, CalculatedHolding, DriftBand, DriftBreachEvent, PortfolioSummary, TradeType } from '../types';
+import { BOARD_LOT_SIZE, MAX_DRIFT_LOG_ENTRIES } from '../constants';
+import { calculateTradeCharges } from './calculations';
+
+export interface RebalanceResult {
+  investedTotal: number;
+  diff: number;         // + means Buy Stock, - means Sell Stock (or Buy Bond)
+  switchAmount: number;
+  switchAction: 'buy_stock' | 'buy_bond';
+  inflowAmount: number;
+  inflowType: 'stock' | 'bond';
+}
+
+export interface HoldingTargetGap {
+  code: string;
+  name: string;
+  targetRatio: number; // % of invested value
+  actualRatio: number;
+  gap: number;         // actual - target, in percentage points
+  gapAmount: number;   // + means overweight (sell), - means underweight (buy)
+}
+
+/**
+ * Amounts needed to bring the stock/bond split back to the target.
+ *
+ * Strategy 1 (Switch): sell the overweight side and buy the underweight side with the proceeds.
+ * Strategy 2 (Inflow): only add new money to the underweight side.
+ *   (S + x) / (T + x) = s  =>  x = (s * T - S) / (1 - s)   (buying stock)
+ *   (B + x) / (T + x) = b  =>  x = (b * T - B) / (1 - b)   (buying bond)
+ */
+export const calculateRebalance = (summary: PortfolioSummary, target: AllocationTarget): RebalanceResult | null => {
+  const investedTotal = summary.stockValue + summary.bondValue;
+  if (investedTotal === 0) return null;
+
+  const stockShare = target.stockRatio / 100;
+  const bondShare = 1 - stockShare;
+
+  const targetStockValue = investedTotal * stockShare;
+  const diff = targetStockValue - summary.stockValue;
+
+  let inflowAmount: number;
+  let inflowType: RebalanceResult['inflowType'];
+  if (diff > 0) {
+    inflowAmount = (targetStockValue - summary.stockValue) / bondShare;
+    inflowType = 'stock';
+  } else {
+    const targetBondValue = investedTotal * bondShare;
+    inflowAmount = (targetBondValue - summary.bondValue) / stockShare;
+    inflowType = 'bond';
+  }
+
+  return {
+    investedTotal,
+    diff,
+    switchAmount: Math.abs(diff),
+    switchAction: diff > 0 ? 'buy_stock' : 'buy_bond',
+    inflowAmount,
+    inflowType,
+  };
+};
+
+/**
+ * Deviation of every holding that has its own target, measured against the invested value.
+ */
+export const calculateHoldingGaps = (holdings: CalculatedHolding[], target: AllocationTarget): HoldingTargetGap[] => {
+  const investedTotal = holdings.reduce((sum, h) => sum + h.presentValue, 0);
+
+  return Object.entries(target.holdingTargets).map(([code, targetRatio]) => {
+    const matches = holdings.filter(h => h.code === code);
+    const value = matches.reduce((sum, h) => sum + h.presentValue, 0);
+    const actualRatio = investedTotal > 0 ? (value / investedTotal) * 100 : 0;
+    return {
+      code,
+      name: matches[0]?.name || code,
+      targetRatio,
+      actualRatio,
+      gap: actualRatio - targetRatio,
+      gapAmount: value - investedTotal * (targetRatio / 100),
+    };
+  });
+};
+
+export const formatAllocationLabel = (target: AllocationTarget) => `${target.stockRatio}/${100 - target.stockRatio}`;
+
+export interface DriftStatus {
+  scope: DriftBreachEvent['scope'];
+  key: string;
+  label: string;
+  targetRatio: number;
+  actualRatio: number;
+  drift: number;      // actual - target, in percentage points
+  tolerance: number;  // allowed |drift|, Infinity when no band is set
+  rule: DriftBreachEvent['rule'];
+  breached: boolean;
+}
+
+/**
+ * Allowed deviation for a target under a band. When both an absolute and a relative
+ * width are set the tighter one applies (e.g. the 5/25 rule).
+ */
+export const resolveTolerance = (targetRatio: number, band: DriftBand): { tolerance: number; rule: DriftStatus['rule'] } => {
+  const candidates: { tolerance: number; rule: 'absolute' | 'relative' }[] = [];
+  if (band.absolute !== undefined && band.absolute > 0) {
+    candidates.push({ tolerance: band.absolute, rule: 'absolute' });
+  }
+  if (band.relative !== undefined && band.relative > 0) {
+    candidates.push({ tolerance: targetRatio * (band.relative / 100), rule: 'relative' });
+  }
+  if (candidates.length === 0) return { tolerance: Infinity, rule: undefined };
+  return candidates.reduce((tightest, c) => (c.tolerance < tightest.tolerance ? c : tightest));
+};
+
+const buildStatus = (
+  scope: DriftStatus['scope'], key: string, label: string,
+  targetRatio: number, actualRatio: number, band: DriftBand
+): DriftStatus => {
+  const drift = actualRatio - targetRatio;
+  const { tolerance, rule } = resolveTolerance(targetRatio, band);
+  return { scope, key, label, targetRatio, actualRatio, drift, tolerance, rule, breached: Math.abs(drift) > tolerance };
+};
+
+/**
+ * Drift of both asset classes and of every holding with its own target, checked against the bands.
+ * Empty when nothing is invested, so a blank portfolio never opens or closes a breach.
+ */
+export const evaluateDrift = (summary: PortfolioSummary, holdings: CalculatedHolding[], target: AllocationTarget): DriftStatus[] => {
+  if (summary.stockValue + summary.bondValue === 0) return [];
+
+  const statuses: DriftStatus[] = [
+    buildStatus('class', AssetType.STOCK, '股票 ETF', target.stockRatio, summary.stockRatio, target.classBands[AssetType.STOCK]),
+    buildStatus('class', AssetType.BOND, '債券 ETF', 100 - target.stockRatio, summary.bondRatio, target.classBands[AssetType.BOND]),
+  ];
+
+  calculateHoldingGaps(holdings, target).forEach(g => {
+    // Overrides are per field; a blank field keeps the default width
+    const band = { ...target.holdingBand, ...target.holdingBands[g.code] };
+    statuses.push(buildStatus('holding', g.code, g.name, g.targetRatio, g.actualRatio, band));
+  });
+
+  return statuses;
+};
+
+const driftKey = (scope: string, key: string) => `${scope}:${key}`;
+
+/**
+ * Appends an event whenever a target crosses its band edge, in either direction.
+ * Open breaches are read back from the log itself, so reloading the page doesn't re-log them.
+ * Returns the same array when nothing changed.
+ */
+export const reconcileBreachLog = (log: DriftBreachEvent[], statuses: DriftStatus[], timestamp: string): DriftBreachEvent[] => {
+  if (statuses.length === 0) return log;
+
+  const latest = new Map<string, DriftBreachEvent>();
+  log.forEach(e => latest.set(driftKey(e.scope, e.key), e));
+
+  const events: DriftBreachEvent[] = [];
+  const seen = new Set<string>();
+  statuses.forEach(s => {
+    const key = driftKey(s.scope, s.key);
+    seen.add(key);
+    const isOpen = latest.get(key)?.status === 'breached';
+    if (s.breached === isOpen) return;
+    events.push({
+      id: `${Date.now()}-${events.length}`,
+      timestamp,
+      scope: s.scope,
+      key: s.key,
+      label: s.label,
+      status: s.breached ? 'breached' : 'resolved',
+      rule: s.breached ? s.rule : undefined,
+      targetRatio: s.targetRatio,
+      actualRatio: s.actualRatio,
+    });
+  });
+
+  // Targets that were removed while breached are closed too
+  latest.forEach((e, key) => {
+    if (e.status === 'breached' && !seen.has(key)) {
+      events.push({ ...e, id: `${Date.now()}-${events.length}`, timestamp, status: 'resolved', rule: undefined });
+    }
+  });
+
+  if (events.length === 0) return log;
+  return [...log, ...events].slice(-MAX_DRIFT_LOG_ENTRIES);
+};
+
+export type LotMode = 'board' | 'odd'; // 整股 (以張為單位) | 零股 (以股為單位)
+
+export interface PlannerOptions {
+  useCash: boolean; // 先以現金買入不足部位，不足時才賣出
+  lotMode: LotMode;
+}
+
+export interface RebalanceOrder {
+  holdingId: string;
+  code: string;
+  name: string;
+  type: AssetType;
+  side: TradeType;
+  shares: number;
+  boardLots: number;  // 整股張數
+  oddShares: number;  // 零股股數
+  price: number;
+  amount: number;     // 成交金額
+  fee: number;        // 交割時收取的手續費
+  rebate: number;     // 次月退還的手續費折讓 (月退制券商)
+  tax: number;
+  net: number;        // 買進: 金額 + 手續費；賣出: 金額 - 手續費 - 交易稅
+}
+
+export interface RebalancePlan {
+  orders: RebalanceOrder[];
+  totalBuy: number;  // 買進總支出 (含費用)
+  totalSell: number; // 賣出總收入 (扣除費用)
+  totalFee: number;
+  totalTax: number;
+  totalRebate: number;
+  cashUsed: number;  // 負值代表賣出後現金增加
+  resultingStockRatio: number;
+  resultingBondRatio: number;
+}
+
+/**
+ * Target market value of every holding for a given invested total.
+ * Holdings with their own target get it directly; the rest of each class target is
+ * spread over the class's remaining holdings in proportion to their current value.
+ */
+const allocateTargetValues = (holdings: CalculatedHolding[], target: AllocationTarget, total: number): Map<string, number> => {
+  const result = new Map<string, number>();
+  const classShare: Record<AssetType, number> = {
+    [AssetType.STOCK]: target.stockRatio / 100,
+    [AssetType.BOND]: 1 - target.stockRatio / 100,
+  };
+
+  ([AssetType.STOCK, AssetType.BOND]).forEach(type => {
+    const classHoldings = holdings.filter(h => h.type === type);
+    if (classHoldings.length === 0) return;
+
+    const explicit = classHoldings.filter(h => target.holdingTargets[h.code] !== undefined);
+    const implicit = classHoldings.filter(h => target.holdingTargets[h.code] === undefined);
+
+    // Same code held more than once shares its target by current value
+    let explicitShare = 0;
+    Array.from(new Set(explicit.map(h => h.code))).forEach(code => {
+      const share = target.holdingTargets[code] / 100;
+      explicitShare += share;
+      const group = explicit.filter(h => h.code === code);
+      const groupValue = group.reduce((sum, h) => sum + h.marketValueRaw, 0);
+      group.forEach(h => {
+        const weight = groupValue > 0 ? h.marketValueRaw / groupValue : 1 / group.length;
+        result.set(h.id, total * share * weight);
+      });
+    });
+
+    const remainingShare = Math.max(0, classShare[type] - explicitShare);
+    const implicitValue = implicit.reduce((sum, h) => sum + h.marketValueRaw, 0);
+    implicit.forEach(h => {
+      const weight = implicitValue > 0 ? h.marketValueRaw / implicitValue : 1 / implicit.length;
+      result.set(h.id, total * remainingShare * weight);
+    });
+  });
+
+  return result;
+};
+
+const roundShares = (shares: number, lotMode: LotMode, nearest: boolean) => {
+  const unit = lotMode === 'board' ? BOARD_LOT_SIZE : 1;
+  const units = nearest ? Math.round(shares / unit) : Math.floor(shares / unit);
+  return Math.max(0, units * unit);
+};
+
+const buildOrder = (h: CalculatedHolding, side: TradeType, shares: number): RebalanceOrder => {
+  const amount = Math.round(shares * h.currentPrice);
+  // Settlement cash is what has to fit the budget, so a monthly rebate is not netted here
+  const { settlementFee: fee, rebate, tax } = calculateTradeCharges(side, h.category, shares, h.currentPrice, h.feeProfile);
+  return {
+    holdingId: h.id,
+    code: h.code,
+    name: h.name,
+    type: h.type,
+    side,
+    shares,
+    boardLots: Math.floor(shares / BOARD_LOT_SIZE),
+    oddShares: shares % BOARD_LOT_SIZE,
+    price: h.currentPrice,
+    amount,
+    fee,
+    rebate,
+    tax,
+    net: side === TradeType.BUY ? amount + fee : amount - fee - tax,
+  };
+};
+
+/**
+ * Turn the target allocation into a concrete order list at current prices.
+ *
+ * With useCash, new money is added first (up to the cash balance) so that buying alone
+ * can close as much of the gap as possible; only what cash cannot cover is funded by selling.
+ * Buys are rounded down and trimmed until they fit within sell proceeds plus the cash budget.
+ */
+export const planRebalanceOrders = (
+  holdings: CalculatedHolding[],
+  target: AllocationTarget,
+  cash: number,
+  options: PlannerOptions
+): RebalancePlan | null => {
+  const tradable = holdings.filter(h => h.currentPrice > 0);
+  const stockValue = tradable.filter(h => h.type === AssetType.STOCK).reduce((sum, h) => sum + h.marketValueRaw, 0);
+  const bondValue = tradable.filter(h => h.type === AssetType.BOND).reduce((sum, h) => sum + h.marketValueRaw, 0);
+  const investedTotal = stockValue + bondValue;
+  if (investedTotal === 0) return null;
+
+  // Cash needed to reach the target by buying only (same formula as calculateRebalance)
+  let cashBudget = 0;
+  if (options.useCash && cash > 0) {
+    const stockShare = target.stockRatio / 100;
+    const inflowNeeded = stockValue < investedTotal * stockShare
+      ? (investedTotal * stockShare - stockValue) / (1 - stockShare)
+      : (investedTotal * (1 - stockShare) - bondValue) / stockShare;
+    cashBudget = Math.min(cash, Math.max(0, inflowNeeded));
+  }
+
+  const targetValues = allocateTargetValues(tradable, target, investedTotal + cashBudget);
+
+  const sells: RebalanceOrder[] = [];
+  const buyCandidates: { holding: CalculatedHolding; shares: number }[] = [];
+
+  tradable.forEach(h => {
+    const delta = (targetValues.get(h.id) ?? h.marketValueRaw) - h.marketValueRaw;
+    if (delta < 0) {
+      const shares = Math.min(h.quantity, roundShares(-delta / h.currentPrice, options.lotMode, true));
+      if (shares > 0) sells.push(buildOrder(h, TradeType.SELL, shares));
+    } else if (delta > 0) {
+      const shares = roundShares(delta / h.currentPrice, options.lotMode, false);
+      if (shares > 0) buyCandidates.push({ holding: h, shares });
+    }
+  });
+
+  const totalSell = sells.reduce((sum, o) => sum + o.net, 0);
+  const budget = totalSell + cashBudget;
+  const unit = options.lotMode === 'board' ? BOARD_LOT_SIZE : 1;
+
+  // Rounding and fees can push buys over budget; the largest buy gives up the units that cover
+  // the excess at its average cost per unit (fee included), then takes back any unit that still fits
+  const totalNet = (list: RebalanceOrder[]) => list.reduce((sum, o) => sum + o.net, 0);
+  let buys = buyCandidates.map(c => buildOrder(c.holding, TradeType.BUY, c.shares));
+  while (buys.length > 0 && totalNet(buys) > budget) {
+    const largest = buys.reduce((a, b) => (b.net > a.net ? b : a));
+    const holding = tradable.find(h => h.id === largest.holdingId)!;
+    const othersNet = totalNet(buys) - largest.net;
+    const unitCost = (largest.net / largest.shares) * unit;
+    let shares = Math.max(0, largest.shares - Math.ceil((totalNet(buys) - budget) / unitCost) * unit);
+    while (shares + unit < largest.shares && othersNet + buildOrder(holding, TradeType.BUY, shares + unit).net <= budget) {
+      shares += unit;
+    }
+    buys = buys
+      .map(o => (o === largest ? (shares > 0 ? buildOrder(holding, TradeType.BUY, shares) : null) : o))
+      .filter((o): o is RebalanceOrder => o !== null);
+  }
+
+  const orders = [...sells, ...buys];
+  const totalBuy = buys.reduce((sum, o) => sum + o.net, 0);
+
+  // Allocation after the orders fill at current prices
+  let newStock = 0;
+  let newBond = 0;
+  tradable.forEach(h => {
+    const change = orders
+      .filter(o => o.holdingId === h.id)
+      .reduce((sum, o) => sum + (o.side === TradeType.BUY ? o.shares : -o.shares), 0);
+    const value = (h.quantity + change) * h.currentPrice;
+    if (h.type === AssetType.STOCK) newStock += value;
+    else newBond += value;
+  });
+  const newTotal = newStock + newBond;
+
+  return {
+    orders,
+    totalBuy,
+    totalSell,
+    totalFee: orders.reduce((sum, o) => sum + o.fee, 0),
+    totalTax: orders.reduce((sum, o) => sum + o.tax, 0),
+    totalRebate: orders.reduce((sum, o) => sum + o.rebate, 0),
+    cashUsed: totalBuy - totalSell,
+    resultingStockRatio: newTotal > 0 ? (newStock / newTotal) * 100 : 0,
+    resultingBondRatio: newTotal > 0 ? (newBond / newTotal) * 100 : 0,
+  };
+};
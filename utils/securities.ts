@@ -0,0 +1,113 @@
+import { AssetType, Holding, Market, SecurityInfo } from '../types';
+import { BUNDLED_SECURITIES } from '../constants';
+import { QuoteRequest } from './quoteProviders';
+
+const STORAGE_KEY = 'security_master';
+
+export const MARKET_LABELS: Record<Market, string> = {
+  [Market.TWSE]: '上市',
+  [Market.TPEX]: '上櫃',
+};
+
+export interface SecurityMaster {
+  securities: SecurityInfo[];
+  updatedAt: string | null; // 最後一次從證交所/櫃買中心更新的時間，null 代表僅有內建資料
+}
+
+let cache: { master: SecurityMaster; byCode: Map<string, SecurityInfo> } | null = null;
+
+const index = (master: SecurityMaster) => {
+  cache = { master, byCode: new Map<string, SecurityInfo>(master.securities.map(s => [s.code, s])) };
+  return cache;
+};
+
+const current = () => {
+  if (cache) return cache;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return index(JSON.parse(saved));
+  } catch (e) {
+    console.error('Failed to load security master:', e);
+  }
+  return index({ securities: BUNDLED_SECURITIES, updatedAt: null });
+};
+
+export const loadSecurityMaster = (): SecurityMaster => current().master;
+
+export const findSecurity = (code: string): SecurityInfo | undefined => current().byCode.get(code.trim().toUpperCase());
+
+/**
+ * Securities matching a code or (Chinese) name fragment, best matches first: exact code, code
+ * prefix, name prefix, then anything containing the query.
+ */
+export const searchSecurities = (query: string, limit = 8): SecurityInfo[] => {
+  const q = query.trim().toUpperCase();
+  if (!q) return [];
+  const rank = (s: SecurityInfo) => {
+    const name = s.name.toUpperCase();
+    if (s.code === q) return 0;
+    if (s.code.startsWith(q)) return 1;
+    if (name.startsWith(q)) return 2;
+    if (s.code.includes(q) || name.includes(q)) return 3;
+    return -1;
+  };
+  return current().master.securities
+    .map(s => ({ s, r: rank(s) }))
+    .filter(x => x.r >= 0)
+    .sort((a, b) => a.r - b.r || a.s.code.length - b.s.code.length || a.s.code.localeCompare(b.s.code))
+    .slice(0, limit)
+    .map(x => x.s);
+};
+
+// Only for codes the master does not know: bond ETFs (00xxxB) are mostly on TPEX
+const guessMarket = (code: string): Market => (code.toUpperCase().endsWith('B') ? Market.TPEX : Market.TWSE);
+
+/**
+ * Market to query a code on: the holding's own override, then the security master, and only
+ * for codes missing from both the old suffix heuristic.
+ */
+export const resolveMarket = (code: string, override?: Market): Market => {
+  return override || findSecurity(code)?.market || guessMarket(code);
+};
+
+/**
+ * One quote request per code. When the same code is listed more than once, the first entry
+ * with a market override decides.
+ */
+export const toQuoteRequests = (items: Pick<Holding, 'code' | 'market'>[]): QuoteRequest[] => {
+  const overrides = new Map<string, Market>();
+  items.forEach(i => {
+    if (i.market && !overrides.has(i.code)) overrides.set(i.code, i.market);
+  });
+  return Array.from(new Set<string>(items.map(i => i.code))).map(code => ({ code, market: resolveMarket(code, overrides.get(code)) }));
+};
+
+/**
+ * Merge a freshly downloaded list into the existing master. Downloaded names and markets win;
+ * asset class and listing date are kept where the download has nothing better.
+ */
+export const mergeSecurities = (existing: SecurityInfo[], fetched: SecurityInfo[]): SecurityInfo[] => {
+  const byCode = new Map<string, SecurityInfo>(existing.map(s => [s.code, s]));
+  fetched.forEach(s => {
+    const known = byCode.get(s.code);
+    byCode.set(s.code, known
+      ? { ...known, name: s.name, market: s.market, listedDate: s.listedDate || known.listedDate }
+      : s);
+  });
+  return Array.from(byCode.values()).sort((a, b) => a.code.localeCompare(b.code));
+};
+
+export const saveSecurityMaster = (securities: SecurityInfo[]): SecurityMaster => {
+  const master = { securities, updatedAt: new Date().toISOString() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(master));
+  return index(master).master;
+};
+
+export const resetSecurityMaster = (): SecurityMaster => {
+  localStorage.removeItem(STORAGE_KEY);
+  cache = null;
+  return loadSecurityMaster();
+};
+
+// Downloaded lists carry no asset class; bond ETFs say so in their name
+export const guessAssetType = (name: string): AssetType => (name.includes('債') ? AssetType.BOND : AssetType.STOCK);
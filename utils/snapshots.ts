@@ -0,0 +1,33 @@
+import { CalculatedHolding, PortfolioSnapshot, PortfolioSummary } from '../types';
+import { MAX_SNAPSHOTS } from '../constants';
+
+export const createSnapshot = (summary: PortfolioSummary, holdings: CalculatedHolding[], date: string): PortfolioSnapshot => {
+  const prices: Record<string, number> = {};
+  holdings.forEach(h => { prices[h.code] = h.currentPrice; });
+  return {
+    date,
+    totalAssets: summary.totalAssets,
+    totalCost: summary.totalCost,
+    stockValue: summary.stockValue,
+    bondValue: summary.bondValue,
+    cashValue: summary.cashValue,
+    stockRatio: summary.stockRatio,
+    bondRatio: summary.bondRatio,
+    prices,
+  };
+};
+
+/**
+ * Keep at most one snapshot per day, sorted by date. An existing snapshot for the day is only
+ * replaced when `overwrite` is set (after a price refresh); on app load the first one of the day stands.
+ * Returns the same array when nothing changed.
+ */
+export const recordSnapshot = (snapshots: PortfolioSnapshot[], snapshot: PortfolioSnapshot, overwrite: boolean): PortfolioSnapshot[] => {
+  const index = snapshots.findIndex(s => s.date === snapshot.date);
+  if (index !== -1 && !overwrite) return snapshots;
+
+  const next = index !== -1
+    ? snapshots.map((s, i) => (i === index ? snapshot : s))
+    : [...snapshots, snapshot].sort((a, b) => a.date.localeCompare(b.date));
+  return next.length > MAX_SNAPSHOTS ? next.slice(next.length - MAX_SNAPSHOTS) : next;
+};
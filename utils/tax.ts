@@ -0,0 +1,78 @@
+import { AssetType, Holding, InstrumentCategory, TaxRule } from '../types';
+import { DIVIDEND_TAX_CREDIT_CAP, DIVIDEND_TAX_CREDIT_RATE, SECURITIES_TAX_RULES, SEPARATE_DIVIDEND_TAX_RATE } from '../constants';
+
+export const CATEGORY_LABELS: Record<InstrumentCategory, string> = {
+  [InstrumentCategory.STOCK]: '個股',
+  [InstrumentCategory.STOCK_ETF]: '股票型 ETF',
+  [InstrumentCategory.LEVERAGED_ETF]: '槓桿/反向 ETF',
+  [InstrumentCategory.BOND_ETF]: '債券 ETF',
+};
+
+/**
+ * Tax category of a holding. An explicit category wins; otherwise it is inferred:
+ * bond holdings are bond ETFs, 00xxxL / 00xxxR are leveraged/inverse ETFs,
+ * plain four-digit codes are individual stocks and everything else is a stock ETF.
+ */
+export const resolveInstrumentCategory = (holding: Pick<Holding, 'code' | 'type' | 'category'>): InstrumentCategory => {
+  if (holding.category) return holding.category;
+  if (holding.type === AssetType.BOND) return InstrumentCategory.BOND_ETF;
+
+  const code = holding.code.trim().toUpperCase();
+  if (/^00\d+[LR]$/.test(code)) return InstrumentCategory.LEVERAGED_ETF;
+  if (/^[1-9]\d{3}$/.test(code)) return InstrumentCategory.STOCK;
+  return InstrumentCategory.STOCK_ETF;
+};
+
+/**
+ * Rule in force for a category on a given date (YYYY-MM-DD); both ends of a range are inclusive.
+ */
+export const findTaxRule = (category: InstrumentCategory, date: string, rules: TaxRule[] = SECURITIES_TAX_RULES): TaxRule | undefined => {
+  return rules.find(r =>
+    r.category === category &&
+    (!r.from || r.from <= date) &&
+    (!r.to || date <= r.to)
+  );
+};
+
+/**
+ * Securities transaction tax rate charged on a sale on the given date.
+ */
+export const getTransactionTaxRate = (category: InstrumentCategory, date: string, rules: TaxRule[] = SECURITIES_TAX_RULES): number => {
+  return findTaxRule(category, date, rules)?.rate ?? 0;
+};
+
+/**
+ * Next date after `date`, up to and including `until`, on which the rate for a category changes,
+ * e.g. the end of the bond ETF exemption. Used to warn before a sunset.
+ */
+export const findUpcomingRateChange = (
+  category: InstrumentCategory,
+  date: string,
+  until: string,
+  rules: TaxRule[] = SECURITIES_TAX_RULES
+): { date: string; rate: number } | null => {
+  const current = getTransactionTaxRate(category, date, rules);
+  const next = rules
+    .filter(r => r.category === category && r.from && r.from > date && r.rate !== current)
+    .sort((a, b) => a.from!.localeCompare(b.from!))[0];
+  return next && next.from! <= until ? { date: next.from!, rate: next.rate } : null;
+};
+
+export interface DividendTaxComparison {
+  credit: number;   // 8.5% 可抵減稅額 (已套用上限)
+  combined: number; // 合併計稅：股利所得 × 邊際稅率 − 可抵減稅額，負數代表可退稅
+  separate: number; // 分開計稅：股利所得 × 28%
+  better: 'combined' | 'separate';
+}
+
+/**
+ * Tax attributable to dividend income under both options of the income tax act, at the
+ * household's marginal rate. Only the dividend part differs between the two; interest and the
+ * other components are taxed the same way either way.
+ */
+export const compareDividendTaxOptions = (dividendIncome: number, marginalRate: number): DividendTaxComparison => {
+  const credit = Math.min(dividendIncome * DIVIDEND_TAX_CREDIT_RATE, DIVIDEND_TAX_CREDIT_CAP);
+  const combined = Math.round(dividendIncome * marginalRate - credit);
+  const separate = Math.round(dividendIncome * SEPARATE_DIVIDEND_TAX_RATE);
+  return { credit: Math.round(credit), combined, separate, better: combined <= separate ? 'combined' : 'separate' };
+};